@@ -0,0 +1,75 @@
+// Hooks
+import useSunEvals from "../hooks/sunEvals/useSunEvals";
+
+// Helpers
+import { formatDate } from "../utils";
+
+interface ForecastDatePickerProps {
+  // Show that the sun evals were estimated from nearby simulated weeks
+  isInterpolated?: boolean;
+  className?: string;
+}
+
+const ForecastDatePicker = ({
+  isInterpolated = false,
+  className,
+}: ForecastDatePickerProps) => {
+  //
+
+  // Hooks
+  const {
+    data: { forecastDay },
+    operations: { onSetForecastDate },
+  } = useSunEvals();
+
+  //
+
+  // Variables
+  const today = formatDate(new Date());
+  const selectedDate = formatDate(forecastDay);
+  const isToday = selectedDate === today;
+
+  //
+
+  // Handlers
+  const handleDateChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { value } = e.target;
+
+    // Clearing the input, or picking today, goes back to following today
+    onSetForecastDate(value && value !== today ? value : null);
+  };
+
+  return (
+    <div
+      className={`flex flex-row flex-wrap items-center gap-2 text-sm ${className || ""}`}
+    >
+      <label htmlFor="forecast-date" className="font-semibold">
+        Day
+      </label>
+      <input
+        id="forecast-date"
+        type="date"
+        min={today}
+        value={selectedDate}
+        onChange={handleDateChange}
+        className="px-2 py-1 rounded-md border border-gray-200 bg-white text-[#2962FF] font-semibold"
+      />
+      {!isToday && (
+        <button
+          type="button"
+          onClick={() => onSetForecastDate(null)}
+          className="underline"
+        >
+          Back to today
+        </button>
+      )}
+      {isInterpolated && (
+        <span id="forecast-estimated" className="text-xs opacity-80">
+          Estimated from nearby weeks
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default ForecastDatePicker;
@@ -13,9 +13,13 @@ import useHeroMetrics from "../heroMetrics/useHeroMetrics";
 import {
   MapReadyMarker,
   SimplePubAreaWithSunPc,
-  SUN_THRESHOLDS,
 } from "../mapMarkers/useMapMarkers";
 import useSunEvals from "../sunEvals/useSunEvals";
+import useSunQuality from "../sunQuality/useSunQuality";
+
+// Utils
+import { hasRoomForGroup } from "../../../utils/seatingCapacity";
+import { classifySunQuality } from "../../../utils/sunQuality";
 
 interface FiltersData extends FiltersState {
   // Pubs to show
@@ -30,10 +34,14 @@ interface FiltersOperations {
   // View
   onToggleViewFilters: () => void;
   onToggleViewAsList: () => void;
+  onToggleSortListByDistance: () => void;
+  onToggleViewCrawlPlanner: () => void;
 
   // Select
   onSunQualityFilterClick: (option: SunQuality) => void;
   onAreaTypeFilterClick: (option: AreaType) => void;
+  onGroupSizeFilterClick: (option: number) => void;
+  onToggleReachableFilter: () => void;
 }
 
 interface FiltersResponse {
@@ -61,10 +69,21 @@ const useFilters = (): FiltersResponse => {
 
   const { data: { sunEvalsForTimeslot = [] } = {} } = useSunEvals();
 
+  const {
+    data: { thresholds },
+  } = useSunQuality();
+
   //
 
   // Variables
-  const { sunQualityFilters = [], areaTypeFilters = [] } = filtersState || {};
+  const {
+    sunQualityFilters = [],
+    areaTypeFilters = [],
+    groupSizeFilter = null,
+    reachableFilter = false,
+    sortListByDistance = false,
+    viewCrawlPlanner = false,
+  } = filtersState || {};
 
   const pubsToShowAfterFilteringBySunQuality = sunQualityFilters.reduce(
     (acc: MapReadyMarker[], option: SunQuality) => {
@@ -89,6 +108,7 @@ const useFilters = (): FiltersResponse => {
     type: area.type,
     pc_in_sun: sunEvalLookup[area.id] || 0,
     floor_area: area.floor_area,
+    estimated_seats: area.estimated_seats,
     pub_id: area.pub_id,
     name: area.name,
   }));
@@ -98,15 +118,9 @@ const useFilters = (): FiltersResponse => {
     if (sunQualityFilters.length === 0) return true;
 
     // Check if the area meets the sun quality thresholds for the selected filters
-    const meetsThreshold = sunQualityFilters.some((quality) => {
-      if (quality === SunQuality.GOOD)
-        return area.pc_in_sun >= SUN_THRESHOLDS.GOOD;
-      if (quality === SunQuality.SOME)
-        return area.pc_in_sun >= SUN_THRESHOLDS.SOME;
-      if (quality === SunQuality.NO)
-        return area.pc_in_sun < SUN_THRESHOLDS.SOME;
-      return false;
-    });
+    const meetsThreshold = sunQualityFilters.includes(
+      classifySunQuality(area.pc_in_sun, thresholds)
+    );
 
     // Check if the area belongs to a pub that passes the sun quality filter
     const belongsToFilteredPub = pubsToShowAfterFilteringBySunQuality.some(
@@ -117,9 +131,12 @@ const useFilters = (): FiltersResponse => {
     return meetsThreshold && belongsToFilteredPub;
   });
 
+  // Group size narrows the areas the same way the type does
   const areaTypesToShowAfterFilteringByAreaType =
-    areaTypesToShowAfterFilteringBySunQuality.filter(({ type }) =>
-      areaTypeFilters.includes(type as AreaType)
+    areaTypesToShowAfterFilteringBySunQuality.filter(
+      (area) =>
+        areaTypeFilters.includes(area.type as AreaType) &&
+        hasRoomForGroup(area, groupSizeFilter)
     );
 
   //
@@ -134,6 +151,14 @@ const useFilters = (): FiltersResponse => {
     updateFiltersState({ viewAsList: !filtersState.viewAsList });
   };
 
+  const onToggleSortListByDistance = () => {
+    updateFiltersState({ sortListByDistance: !sortListByDistance });
+  };
+
+  const onToggleViewCrawlPlanner = () => {
+    updateFiltersState({ viewCrawlPlanner: !viewCrawlPlanner });
+  };
+
   const onSunQualityFilterClick = (option: SunQuality) => {
     const isAlreadySelected = filtersState.sunQualityFilters.includes(option);
 
@@ -166,9 +191,25 @@ const useFilters = (): FiltersResponse => {
     }
   };
 
+  // Picking the selected size again clears it
+  const onGroupSizeFilterClick = (option: number) => {
+    updateFiltersState({
+      groupSizeFilter: groupSizeFilter === option ? null : option,
+    });
+  };
+
+  const onToggleReachableFilter = () => {
+    updateFiltersState({ reachableFilter: !reachableFilter });
+  };
+
   return {
     data: {
       ...filtersState,
+      groupSizeOptions: filtersState.groupSizeOptions || [],
+      groupSizeFilter,
+      reachableFilter,
+      sortListByDistance,
+      viewCrawlPlanner,
 
       // Pubs to show after filtering by sun quality
       pubsToShowAfterFilteringBySunQuality,
@@ -181,10 +222,14 @@ const useFilters = (): FiltersResponse => {
       // View
       onToggleViewFilters,
       onToggleViewAsList,
+      onToggleSortListByDistance,
+      onToggleViewCrawlPlanner,
 
       // Select
       onSunQualityFilterClick,
       onAreaTypeFilterClick,
+      onGroupSizeFilterClick,
+      onToggleReachableFilter,
     },
   };
 };
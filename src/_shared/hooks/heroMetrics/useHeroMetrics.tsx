@@ -1,10 +1,20 @@
+import { useMemo } from "react";
+
 // Hooks
 import usePubs from "../pubs/usePubs";
 import useSunEvals from "../sunEvals/useSunEvals";
 import usePubAreas from "../pubAreas/usePubAreas";
+import useSunQuality from "../sunQuality/useSunQuality";
+import useMapReadySunLeft from "../sunLeft/useMapReadySunLeft";
 
 // Constants
-import { MapReadyMarker, SUN_THRESHOLDS } from "../mapMarkers/useMapMarkers";
+import { MapReadyMarker } from "../mapMarkers/useMapMarkers";
+import { SunQuality } from "../../providers/FiltersProvider";
+
+// Helpers
+import { scorePubSun } from "../../../utils/sunScore";
+import { classifySunQuality } from "../../../utils/sunQuality";
+import { groupBy } from "../../../utils/spatialIndex";
 
 // Types
 import { PubArea } from "../../types";
@@ -50,10 +60,24 @@ const useHeroMetrics = (): HeroMetricsResponse => {
     data: { sunEvalsForTimeslot = [] },
   } = useSunEvals();
 
-  const allMapReadyAreas = allAvailableAreas.filter((area) =>
-    allAvailablePubs.some((pub) => pub.id === area.pub_id)
+  const allMapReadyAreas = useMemo(() => {
+    const pubIds = new Set(allAvailablePubs.map(({ id }) => id));
+    return allAvailableAreas.filter(({ pub_id }) => pubIds.has(pub_id));
+  }, [allAvailablePubs, allAvailableAreas]);
+
+  const areasByPub = useMemo(
+    () => groupBy(allMapReadyAreas, ({ pub_id }) => pub_id),
+    [allMapReadyAreas]
   );
 
+  const {
+    data: { thresholds },
+  } = useSunQuality();
+
+  const {
+    data: { sunLeftByArea, isLoadingSunLeft, isErrorSunLeft },
+  } = useMapReadySunLeft();
+
   // Create a lookup map for sun evaluations to avoid repeated find operations
   const sunEvalLookup = Object.fromEntries(
     sunEvalsForTimeslot.map((sunEval) => [
@@ -63,15 +87,14 @@ const useHeroMetrics = (): HeroMetricsResponse => {
   );
 
   const allMapReadyPubs = allAvailablePubs.map((pub) => {
-    const areasForPub = allMapReadyAreas.filter(
-      (area) => area.pub_id === pub.id
-    );
+    const areasForPub = areasByPub.get(pub.id) || [];
 
     const pubAreas = areasForPub.map((area) => ({
       id: area.id,
       type: area.type,
       pc_in_sun: sunEvalLookup[area.id] || 0,
       floor_area: area.floor_area,
+      estimated_seats: area.estimated_seats,
       name: area.name,
     }));
 
@@ -80,6 +103,12 @@ const useHeroMetrics = (): HeroMetricsResponse => {
         ? Math.max(...pubAreas.map((area) => area.pc_in_sun))
         : 0;
 
+    const sunScore = scorePubSun(
+      pubAreas,
+      sunLeftByArea,
+      isLoadingSunLeft || isErrorSunLeft
+    );
+
     return {
       pub: {
         id: pub.id,
@@ -90,26 +119,31 @@ const useHeroMetrics = (): HeroMetricsResponse => {
       },
       pubAreas,
       bestSunPercent,
+      sunScore,
+      sunQuality: classifySunQuality(sunScore, thresholds),
+
+      // Walks are only worked out for the pubs on the map
+      walkingRoute: null,
     };
   });
 
-  // Count raw markers by sun quality using filter instead of multiple reduces
+  // Count raw markers by sun quality
   const rawGoodSunPubs = allMapReadyPubs.filter(
-    (pub) => pub.bestSunPercent >= SUN_THRESHOLDS.GOOD
+    ({ sunQuality }) => sunQuality === SunQuality.GOOD
   );
   const goodSunCount = rawGoodSunPubs.length;
 
   const rawSomeSunPubs = allMapReadyPubs.filter(
-    (pub) =>
-      pub.bestSunPercent >= SUN_THRESHOLDS.SOME &&
-      pub.bestSunPercent < SUN_THRESHOLDS.GOOD
+    ({ sunQuality }) => sunQuality === SunQuality.SOME
   );
 
   const someSunCount = rawSomeSunPubs.length;
 
   // Get all pub areas with sun evaluation above SOME threshold
   const areasWithSomeSun = allMapReadyPubs.flatMap((pub) =>
-    pub.pubAreas.filter((area) => area.pc_in_sun >= SUN_THRESHOLDS.SOME)
+    pub.pubAreas.filter(
+      (area) => classifySunQuality(area.pc_in_sun, thresholds) !== SunQuality.NO
+    )
   );
 
   // Create an array of objects with type and count of areas of that type
@@ -134,7 +168,7 @@ const useHeroMetrics = (): HeroMetricsResponse => {
   );
 
   const rawNoneSunPubs = allMapReadyPubs.filter(
-    (pub) => pub.bestSunPercent < SUN_THRESHOLDS.SOME
+    ({ sunQuality }) => sunQuality === SunQuality.NO
   );
 
   const noneSunCount = rawNoneSunPubs.length;
@@ -1,3 +1,5 @@
+import { useMemo } from "react";
+
 // Types
 import { Pub, PubArea } from "../../types";
 
@@ -6,14 +8,39 @@ import usePubs from "../pubs/usePubs";
 import useSunEvals from "../sunEvals/useSunEvals";
 import usePubAreas, { PubWithAreaAndSunEval } from "../pubAreas/usePubAreas";
 import useFilters from "../filters/useFilters";
+import useMapReadySunLeft from "../sunLeft/useMapReadySunLeft";
+import useSunQuality from "../sunQuality/useSunQuality";
+import useWalkingRoutes from "../walkingRoutes/useWalkingRoutes";
 import { AreaType, SunQuality } from "../../providers/FiltersProvider";
 
+// Utils
+import { hasRoomForGroup } from "../../../utils/seatingCapacity";
+import { scorePubSun } from "../../../utils/sunScore";
+import {
+  classifySunQuality,
+  getBestSunQuality,
+} from "../../../utils/sunQuality";
+import {
+  canReachBeforeSunGoes,
+  WalkingRoute,
+} from "../../../utils/walkingRoutes";
+import { getTimeSlotMinutes } from "../../../utils/timeSlots";
+import {
+  clusterPoints,
+  groupBy,
+  PointCluster,
+} from "../../../utils/spatialIndex";
+
+// From this zoom in every pub gets its own marker
+export const CLUSTER_MAX_ZOOM = 16;
+
 export interface SimplePubAreaWithSunPc {
   id: number;
   type: string;
   name: string;
   pc_in_sun: number;
   floor_area: number;
+  estimated_seats: number;
   pub_id?: number;
 }
 
@@ -27,6 +54,23 @@ export interface MapReadyMarker {
   };
   pubAreas: SimplePubAreaWithSunPc[];
   bestSunPercent: number;
+
+  // Sun weighted by area size, type and how long it lasts, 0-100. Markers
+  // are coloured and ranked by this rather than bestSunPercent.
+  sunScore: number;
+  sunQuality: SunQuality;
+
+  // From the user, null until we know where they are
+  walkingRoute: WalkingRoute | null;
+}
+
+// Pubs close enough to overlap at the current zoom, drawn as one marker
+export interface MarkerCluster
+  extends Omit<PointCluster<MapReadyMarker>, "items"> {
+  markers: MapReadyMarker[];
+
+  // Best sun quality of the pubs inside
+  sunQuality: SunQuality;
 }
 
 interface MapMarkersResponse {
@@ -38,6 +82,7 @@ interface MapMarkersResponse {
     // Map ready markers
     mapReadyMarkers: MapReadyMarker[];
     filteredBySunQualityMarkers: MapReadyMarker[];
+    markerClusters: MarkerCluster[];
 
     // Simple sun quality counts
     goodSunCount: number;
@@ -51,121 +96,222 @@ interface MapMarkersResponse {
   };
 }
 
-// Sun quality thresholds
-export const SUN_THRESHOLDS = {
-  GOOD: 75,
-  SOME: 50,
-};
-
 const useMapMarkers = (): MapMarkersResponse => {
   // Hooks
   const {
-    data: { pubsInMapBounds = [] },
+    data: { pubsInMapBounds = [], mapZoom = 15 },
   } = usePubs();
   const {
     data: { allAvailableAreas = [] },
   } = usePubAreas();
   const {
-    data: { sunEvalsForTimeslot = [] },
+    data: { sunEvalsForTimeslot = [], selectedTimeslot = 0 },
   } = useSunEvals();
 
   const {
-    data: { sunQualityFilters = [], areaTypeFilters = [] },
+    data: {
+      sunQualityFilters = [],
+      areaTypeFilters = [],
+      groupSizeFilter = null,
+      reachableFilter = false,
+    },
   } = useFilters();
 
+  // Looked up per pub rather than scanning every area for each one
+  const areasByPub = useMemo(
+    () => groupBy(allAvailableAreas, ({ pub_id }) => pub_id),
+    [allAvailableAreas]
+  );
+
   // Filter areas to only those that belong to pubs in map bounds
-  const areasInMapBounds = allAvailableAreas.filter((area) =>
-    pubsInMapBounds.some((pub) => pub.id === area.pub_id)
+  const areasInMapBounds = useMemo(
+    () => pubsInMapBounds.flatMap((pub) => areasByPub.get(pub.id) || []),
+    [pubsInMapBounds, areasByPub]
   );
 
+  const {
+    data: { thresholds },
+  } = useSunQuality();
+
+  const {
+    data: { sunLeftByArea, isLoadingSunLeft, isErrorSunLeft },
+  } = useMapReadySunLeft();
+
+  const {
+    data: {
+      origin,
+      isLoadingWalkingRoutes,
+      isErrorWalkingRoutes,
+      walkingRoutesByPub,
+    },
+  } = useWalkingRoutes({ pubs: pubsInMapBounds });
+
+  // Only narrow to reachable pubs once there's something to go on, rather
+  // than emptying the map while it loads or when routing fails
+  const isFilteringByReach =
+    reachableFilter &&
+    !!origin &&
+    !isLoadingWalkingRoutes &&
+    !isErrorWalkingRoutes &&
+    !isLoadingSunLeft &&
+    !isErrorSunLeft;
+  const currentTime = getTimeSlotMinutes(selectedTimeslot || 0);
+
   // Create a lookup map for sun evaluations to avoid repeated find operations
-  const sunEvalLookup = Object.fromEntries(
-    sunEvalsForTimeslot.map((sunEval) => [
-      sunEval.area_id,
-      sunEval.pc_in_sun || 0,
-    ])
+  const sunEvalLookup = useMemo(
+    () =>
+      Object.fromEntries(
+        sunEvalsForTimeslot.map((sunEval) => [
+          sunEval.area_id,
+          sunEval.pc_in_sun || 0,
+        ])
+      ),
+    [sunEvalsForTimeslot]
   );
 
   // Create map-ready markers with optimized lookups
-  const mapReadyMarkers = pubsInMapBounds
-    .map((pub) => {
-      const areasForPub = areasInMapBounds.filter(
-        ({ pub_id, type }) =>
-          pub_id === pub.id && areaTypeFilters.includes(type as AreaType)
-      );
-
-      // Only include areas that have a sun evaluation (pc_in_sun >= 0)
-      const pubAreas = areasForPub
-        .map((area) => {
-          const sunPercentage =
-            sunEvalLookup[area.id] !== undefined ? sunEvalLookup[area.id] : -1;
+  const mapReadyMarkers = useMemo(
+    () =>
+      pubsInMapBounds
+        .map((pub) => {
+          const areasForPub = (areasByPub.get(pub.id) || []).filter(
+            (area) =>
+              areaTypeFilters.includes(area.type as AreaType) &&
+              hasRoomForGroup(area, groupSizeFilter)
+          );
+
+          // Only include areas that have a sun evaluation (pc_in_sun >= 0)
+          const pubAreas = areasForPub
+            .map((area) => {
+              const sunPercentage =
+                sunEvalLookup[area.id] !== undefined
+                  ? sunEvalLookup[area.id]
+                  : -1;
+              return {
+                id: area.id,
+                type: area.type,
+                name: area.name,
+                pc_in_sun: sunPercentage,
+                floor_area: area.floor_area,
+                estimated_seats: area.estimated_seats,
+              };
+            })
+            .filter((area) => area.pc_in_sun >= 0); // Only include areas with sun evaluations
+
+          const bestSunPercent =
+            pubAreas.length > 0
+              ? Math.max(...pubAreas.map((area) => area.pc_in_sun))
+              : 0;
+
+          const sunScore = scorePubSun(
+            pubAreas,
+            sunLeftByArea,
+            isLoadingSunLeft || isErrorSunLeft
+          );
+
+          // Only return the pub if it has at least one area with a sun evaluation
+          if (pubAreas.length === 0) {
+            return null; // This pub has no areas with sun evaluations
+          }
+
+          const walkingRoute = walkingRoutesByPub.get(pub.id) || null;
+
+          if (
+            isFilteringByReach &&
+            !(
+              walkingRoute &&
+              pubAreas.some(({ id }) =>
+                canReachBeforeSunGoes(
+                  sunLeftByArea.get(id),
+                  walkingRoute.walkingMinutes,
+                  currentTime
+                )
+              )
+            )
+          ) {
+            return null;
+          }
+
           return {
-            id: area.id,
-            type: area.type,
-            name: area.name,
-            pc_in_sun: sunPercentage,
-            floor_area: area.floor_area,
+            pub: {
+              id: pub.id,
+              name: pub.name,
+              latitude: pub.latitude,
+              longitude: pub.longitude,
+              address_text: pub.address_text,
+            },
+            pubAreas,
+            bestSunPercent,
+            sunScore,
+            sunQuality: classifySunQuality(sunScore, thresholds),
+            walkingRoute,
           };
         })
-        .filter((area) => area.pc_in_sun >= 0); // Only include areas with sun evaluations
-
-      const bestSunPercent =
-        pubAreas.length > 0
-          ? Math.max(...pubAreas.map((area) => area.pc_in_sun))
-          : 0;
-
-      // Only return the pub if it has at least one area with a sun evaluation
-      if (pubAreas.length === 0) {
-        return null; // This pub has no areas with sun evaluations
-      }
-
-      return {
-        pub: {
-          id: pub.id,
-          name: pub.name,
-          latitude: pub.latitude,
-          longitude: pub.longitude,
-          address_text: pub.address_text,
-        },
-        pubAreas,
-        bestSunPercent,
-      };
-    })
-    .filter(Boolean) as MapReadyMarker[]; // Filter out null values
-
-  // Count markers by sun quality using filter instead of multiple reduces
+        .filter(Boolean) as MapReadyMarker[], // Filter out null values
+    [
+      pubsInMapBounds,
+      areasByPub,
+      areaTypeFilters,
+      groupSizeFilter,
+      sunEvalLookup,
+      sunLeftByArea,
+      isLoadingSunLeft,
+      isErrorSunLeft,
+      walkingRoutesByPub,
+      isFilteringByReach,
+      currentTime,
+      thresholds,
+    ]
+  );
+
+  // Count markers by sun quality
   const goodSunCount = mapReadyMarkers.filter(
-    (marker) => marker.bestSunPercent >= SUN_THRESHOLDS.GOOD
+    ({ sunQuality }) => sunQuality === SunQuality.GOOD
   ).length;
   const someSunCount = mapReadyMarkers.filter(
-    (marker) =>
-      marker.bestSunPercent >= SUN_THRESHOLDS.SOME &&
-      marker.bestSunPercent < SUN_THRESHOLDS.GOOD
+    ({ sunQuality }) => sunQuality === SunQuality.SOME
   ).length;
   const noSunCount = mapReadyMarkers.filter(
-    (marker) => marker.bestSunPercent < SUN_THRESHOLDS.SOME
+    ({ sunQuality }) => sunQuality === SunQuality.NO
   ).length;
 
-  // Filter markers by selected sun quality in a single operation
-  const filteredBySunQualityMarkers = mapReadyMarkers.filter((marker) => {
-    if (
-      sunQualityFilters.includes(SunQuality.GOOD) &&
-      marker.bestSunPercent >= SUN_THRESHOLDS.GOOD
-    )
-      return true;
-    if (
-      sunQualityFilters.includes(SunQuality.SOME) &&
-      marker.bestSunPercent >= SUN_THRESHOLDS.SOME &&
-      marker.bestSunPercent < SUN_THRESHOLDS.GOOD
-    )
-      return true;
-    if (
-      sunQualityFilters.includes(SunQuality.NO) &&
-      marker.bestSunPercent < SUN_THRESHOLDS.SOME
-    )
-      return true;
-    return false;
-  });
+  // Filter markers by selected sun quality
+  const filteredBySunQualityMarkers = useMemo(
+    () =>
+      mapReadyMarkers.filter(({ sunQuality }) =>
+        sunQualityFilters.includes(sunQuality)
+      ),
+    [mapReadyMarkers, sunQualityFilters]
+  );
+
+  const markerClusters = useMemo(
+    (): MarkerCluster[] =>
+      (mapZoom >= CLUSTER_MAX_ZOOM
+        ? filteredBySunQualityMarkers.map((marker) => ({
+            key: `${marker.pub.id}`,
+            items: [marker],
+            center: { lat: marker.pub.latitude, lng: marker.pub.longitude },
+            bounds: {
+              north: marker.pub.latitude,
+              south: marker.pub.latitude,
+              east: marker.pub.longitude,
+              west: marker.pub.longitude,
+            },
+          }))
+        : clusterPoints(
+            filteredBySunQualityMarkers,
+            ({ pub }) => ({ lat: pub.latitude, lng: pub.longitude }),
+            mapZoom
+          )
+      ).map(({ items, ...cluster }) => ({
+        ...cluster,
+        markers: items,
+        sunQuality: getBestSunQuality(
+          items.map(({ sunQuality }) => sunQuality)
+        ),
+      })),
+    [filteredBySunQualityMarkers, mapZoom]
+  );
 
   return {
     data: {
@@ -186,6 +332,7 @@ const useMapMarkers = (): MapMarkersResponse => {
       // Map ready markers
       mapReadyMarkers,
       filteredBySunQualityMarkers,
+      markerClusters,
     },
   };
 };
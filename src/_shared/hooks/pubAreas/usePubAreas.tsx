@@ -2,7 +2,13 @@ import { useEffect } from "react";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 
 // Types
-import { Pub, PubArea, SimpleCameraPosition, SunEval } from "../../types";
+import {
+  Pub,
+  PubArea,
+  SimpleCameraPosition,
+  SunEval,
+  NormalizedVisionMask,
+} from "../../types";
 
 // Context
 import {
@@ -16,12 +22,14 @@ import useCommunications from "../communication/useCommunication";
 // Hooks
 import usePubs from "../pubs/usePubs";
 import useDeviceDetect from "../useDeviceDetect";
-import { getCurrentJulianWeek } from "../../utils";
+import { getCurrentWeekKey } from "../../../utils/weekKeys";
+import { isVisionMaskValid } from "../../../utils/visionMaskChecks";
+import { withEstimatedSeats } from "../../../utils/seatingCapacity";
 
 // Interfaces
 interface SaveVisionMaskPayload {
   pubAreaId: number;
-  visionMaskPoints: { x: number; y: number }[];
+  visionMask: NormalizedVisionMask;
 }
 
 interface SavePubAreaDetailsPayload {
@@ -53,10 +61,22 @@ interface SaveFloorAreaPayload {
   coordinates: PolygonCoordinate[];
 }
 
+interface SaveSeatingCapacityPayload {
+  pub_area_id: number;
+
+  // null goes back to the estimate from the floor area
+  seating_capacity: number | null;
+}
+
 interface SetPubAreasPresentPayload {
   pub_id: number;
 }
 
+interface SetPubProcessedPayload {
+  pub_id: number;
+  julian_week: number;
+}
+
 export interface PubAreaWithSunEval extends PubArea {
   sunEval: SunEval;
 }
@@ -75,6 +95,7 @@ interface PubAreasData extends PubAreasState {
   isSavingVisionMask: boolean;
 
   isSavingFloorArea: boolean;
+  isSavingSeatingCapacity: boolean;
   isSettingPubAreasPresent: boolean;
   isSettingPubAreasMeasured: boolean;
 
@@ -110,17 +131,22 @@ interface PubAreasOperations {
   onGoToNextArea: () => void;
 
   // Create masks
-  onSaveMask: (bagOfPoints: { x: number; y: number }[]) => void;
+  onSaveMask: (visionMask: NormalizedVisionMask) => void;
   onGoToNextPub: () => void;
 
   // Database updates
   onSavePubAreaDetails: (payload: SavePubAreaDetailsPayload) => void;
   onSaveFloorArea: (payload: SaveFloorAreaPayload) => void;
+  onSaveSeatingCapacity: (payload: SaveSeatingCapacityPayload) => void;
   onSetPubAreasPresentForPub: () => void;
   onSetPubAreasMeasuredForPub: () => void;
 
   // Simulation
   onSimulateNextPub: () => void;
+  onSetPubProcessedForWeek: (
+    pubId: number,
+    julianWeek: number
+  ) => Promise<void>;
 }
 
 interface PubAreasResponse {
@@ -170,7 +196,7 @@ const usePubAreas = (): PubAreasResponse => {
       .eq("pub_id", selectedPubId);
 
     if (error) throw error;
-    return data;
+    return withEstimatedSeats(data);
   };
 
   const fetchAllAvailableAreas = async (): Promise<PubArea[]> => {
@@ -178,7 +204,7 @@ const usePubAreas = (): PubAreasResponse => {
     const { data, error } = await supabaseAuthClient.from("pub_area").select();
 
     if (error) throw error;
-    return data;
+    return withEstimatedSeats(data);
   };
 
   // Query functions
@@ -205,7 +231,7 @@ const usePubAreas = (): PubAreasResponse => {
   };
 
   const fetchSimulationReadyPubs = async () => {
-    const currentJulianWeek = getCurrentJulianWeek();
+    const currentJulianWeek = getCurrentWeekKey();
 
     // Fetch records with has_vision_masks_added = true and (last_processed_julian_week less than current week OR null)
     const { data, error } = await supabaseAuthClient
@@ -332,6 +358,21 @@ const usePubAreas = (): PubAreasResponse => {
     },
   });
 
+  const { mutate: saveSeatingCapacity, isPending: isSavingSeatingCapacity } =
+    useMutation({
+      mutationFn: async ({
+        pub_area_id,
+        seating_capacity,
+      }: SaveSeatingCapacityPayload) => {
+        const { data, error } = await supabaseAuthClient
+          .from("pub_area")
+          .update({ seating_capacity })
+          .eq("id", pub_area_id);
+        if (error) throw error;
+        return data;
+      },
+    });
+
   const { mutate: setPubAreasPresent, isPending: isSettingPubAreasPresent } =
     useMutation({
       mutationFn: async ({ pub_id }: SetPubAreasPresentPayload) => {
@@ -395,16 +436,30 @@ const usePubAreas = (): PubAreasResponse => {
     },
   });
 
+  const { mutateAsync: setPubProcessed } = useMutation({
+    mutationFn: async ({ pub_id, julian_week }: SetPubProcessedPayload) => {
+      // Record the latest week the pub has sun evals for
+      const { data, error } = await supabaseAuthClient
+        .from("pub")
+        .update({ last_processed_julian_week: julian_week })
+        .eq("id", pub_id);
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: GET_SIMULATION_READY_PUBS_QUERY_KEY,
+      });
+    },
+  });
+
   const { mutate: saveVisionMask, isPending: isSavingVisionMask } = useMutation(
     {
-      mutationFn: async ({
-        pubAreaId,
-        visionMaskPoints,
-      }: SaveVisionMaskPayload) => {
+      mutationFn: async ({ pubAreaId, visionMask }: SaveVisionMaskPayload) => {
         // Update floor area for the pub area
         const { data, error } = await supabaseAuthClient
           .from("pub_area")
-          .update({ vision_mask_points: visionMaskPoints })
+          .update({ vision_mask_points: visionMask })
           .eq("id", pubAreaId);
         if (error) throw error;
         return data;
@@ -460,6 +515,17 @@ const usePubAreas = (): PubAreasResponse => {
     );
   };
 
+  const onSaveSeatingCapacity = (payload: SaveSeatingCapacityPayload) => {
+    saveSeatingCapacity(payload, {
+      onSuccess: () => {
+        onRefetchAreasForPub();
+        queryClient.invalidateQueries({
+          queryKey: GET_ALL_AVAILABLE_AREAS_QUERY_KEY,
+        });
+      },
+    });
+  };
+
   const onSetPubAreasPresentForPub = () => {
     if (!selectedPubId) {
       console.error("Cannot set pub areas present: No pub selected");
@@ -625,12 +691,15 @@ const usePubAreas = (): PubAreasResponse => {
     }
   };
 
-  const onSaveMask = (bagOfPoints: { x: number; y: number }[]) => {
+  const onSaveMask = (visionMask: NormalizedVisionMask) => {
+    // Never store a mask the simulator can't measure
+    if (!isVisionMaskValid(visionMask)) return;
+
     // Save the mask to the Supbase DB
     saveVisionMask(
       {
         pubAreaId: selectedPubArea?.id || 0,
-        visionMaskPoints: bagOfPoints,
+        visionMask,
       },
       {
         onSuccess: () => {
@@ -641,7 +710,7 @@ const usePubAreas = (): PubAreasResponse => {
               if (!oldData) return [];
               return oldData.map((area) =>
                 area.id === selectedPubArea?.id
-                  ? { ...area, vision_mask_points: bagOfPoints }
+                  ? { ...area, vision_mask_points: visionMask }
                   : area
               );
             }
@@ -654,6 +723,14 @@ const usePubAreas = (): PubAreasResponse => {
   };
 
   const onGoToNextPub = () => {
+    //
+    // Every area needs a mask that passes the checks before the pub counts
+    // as masked
+    if (
+      !areasForPub.every((area) => isVisionMaskValid(area.vision_mask_points))
+    )
+      return;
+
     //
     // Update the pub to show that it has been masked
     setVisionMasksAdded({ pub_id: selectedPubId as number });
@@ -683,6 +760,13 @@ const usePubAreas = (): PubAreasResponse => {
     }
   };
 
+  const onSetPubProcessedForWeek = async (
+    pubId: number,
+    julianWeek: number
+  ) => {
+    await setPubProcessed({ pub_id: pubId, julian_week: julianWeek });
+  };
+
   return {
     data: {
       ...pubAreasState,
@@ -693,6 +777,7 @@ const usePubAreas = (): PubAreasResponse => {
       isLoadingSelectedPub,
       isLoadingAllAvailableAreas,
       isSavingFloorArea,
+      isSavingSeatingCapacity,
       isSettingPubAreasPresent,
       isSettingPubAreasMeasured,
       isSavingVisionMask,
@@ -734,11 +819,13 @@ const usePubAreas = (): PubAreasResponse => {
       // Update DB
       onSavePubAreaDetails,
       onSaveFloorArea,
+      onSaveSeatingCapacity,
       onSetPubAreasPresentForPub,
       onSetPubAreasMeasuredForPub,
 
       // Simulation
       onSimulateNextPub,
+      onSetPubProcessedForWeek,
     },
   };
 };
@@ -10,7 +10,8 @@ import { usePubContext } from "../../providers/PubProvider";
 
 // Types
 import { Pub } from "../../types";
-import { getCurrentJulianWeek } from "../../utils";
+import { getCurrentWeekKey } from "../../../utils/weekKeys";
+import { createSpatialIndex } from "../../../utils/spatialIndex";
 import useCommunications from "../communication/useCommunication";
 
 //
@@ -50,7 +51,7 @@ interface HookShape {
 
   operations: {
     // Map Bounds
-    onSetMapBounds: (bounds: any) => void;
+    onSetMapBounds: (bounds: any, zoom?: number) => void;
 
     // Queries
     onRefetchPubs: () => void;
@@ -151,7 +152,7 @@ const usePubs = (): HookShape => {
   // Variables
   const isAllDataLoaded = !isLoading;
 
-  const currentJulianWeek = getCurrentJulianWeek();
+  const currentJulianWeek = getCurrentWeekKey();
 
   const {
     // Map Bounds
@@ -165,22 +166,22 @@ const usePubs = (): HookShape => {
 
   //
 
+  // Built once per load of the pubs, so panning only queries it
+  const pubsIndex = useMemo(
+    () =>
+      createSpatialIndex(uiReadyPubs, ({ latitude, longitude }: Pub) => ({
+        lat: latitude,
+        lng: longitude,
+      })),
+    [uiReadyPubs]
+  );
+
   // Filter by which pubs are in view
   const pubsInMapBounds = useMemo(() => {
     if (!isAllDataLoaded) return [];
 
-    return uiReadyPubs.filter((pub: Pub) => {
-      const { latitude, longitude } = pub;
-      const { north, south, east, west } = mapBounds;
-
-      return (
-        latitude > south &&
-        latitude < north &&
-        longitude > west &&
-        longitude < east
-      );
-    });
-  }, [uiReadyPubs, mapBounds, isAllDataLoaded]);
+    return pubsIndex.query(mapBounds);
+  }, [pubsIndex, mapBounds, isAllDataLoaded]);
 
   const pubsProcessedThisJulianWeek = uiReadyPubs.filter((pub: Pub) => {
     const { last_processed_julian_week } = pub;
@@ -190,8 +191,11 @@ const usePubs = (): HookShape => {
   //
 
   // Map Bounds
-  const onSetMapBounds = (bounds: any) => {
-    updatePubState({ mapBounds: bounds });
+  const onSetMapBounds = (bounds: any, zoom?: number) => {
+    updatePubState({
+      mapBounds: bounds,
+      ...(zoom !== undefined && { mapZoom: zoom }),
+    });
   };
 
   const onSaveNewPub = (draftPubOutline: DraftPubOutline) => {
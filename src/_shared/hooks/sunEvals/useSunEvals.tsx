@@ -1,22 +1,47 @@
-import { useQuery } from "@tanstack/react-query";
+import { useMemo } from "react";
+import {
+  keepPreviousData,
+  useMutation,
+  useQuery,
+  useQueryClient,
+} from "@tanstack/react-query";
 
 // Context
 import { usePubAreasContext } from "../../providers/PubAreasProvider";
 import { SunEvalsState, useSunEvalsContext } from "../../providers/useSunEvals";
 
 // Types
-import { SunEval } from "../../types";
+import { DraftSunEval, SunEval } from "../../types";
 
 // Hooks
-import { supabaseClient } from "../../hooks/useSupabase";
+import { useSupabase } from "../../hooks/useSupabase";
 
 // Helpers
-import { getCurrentJulianWeek, getCurrentTimeSlot } from "../../utils";
+import { formatDate, parseDate } from "../../utils";
+import { getWeekKeyForDate } from "../../../utils/weekKeys";
+import {
+  getCurrentTimeSlot,
+  getTimeSlotMinutes,
+} from "../../../utils/timeSlots";
+import { fetchSunEvalsForecast } from "../../../utils/sunEvalForecast";
+
+interface SaveSunEvalsPayload {
+  sunEvals: DraftSunEval[];
+}
 
 interface SunEvalsData extends SunEvalsState {
+  // Forecast
+  forecastDay: Date;
+  julianWeek: number;
+  isSunEvalsForPubAreaInterpolated: boolean;
+  isSunEvalsForTimeslotInterpolated: boolean;
+  isSunEvalsForAllPubAreasInterpolated: boolean;
+
   // Loading
+  isSavingSunEvals: boolean;
   isLoadingSunEvalsForPubArea: boolean;
   isLoadingSunEvalsForTimeslot: boolean;
+  isFetchingSunEvalsForTimeslot: boolean;
   isLoadingSunEvalsForAllPubAreas: boolean;
 
   // SunEvals
@@ -32,6 +57,11 @@ interface SunEvalsOperations {
   // Updates
   onChangeSunEvalsState: (newState: Partial<SunEvalsState>) => void;
   onSeedCurrentTimeSlot: () => void;
+  onSetForecastDate: (forecastDate: string | null) => void;
+  onPrefetchSunEvalsForTimeslot: (timeSlot: number) => void;
+
+  // Database updates
+  onSaveSunEvals: (sunEvals: DraftSunEval[]) => Promise<void>;
 }
 
 interface SunEvalsResponse {
@@ -42,6 +72,12 @@ interface SunEvalsResponse {
 const useSunEvals = (): SunEvalsResponse => {
   //
 
+  // Hooks
+  const queryClient = useQueryClient();
+  const { client: supabaseAuthClient } = useSupabase();
+
+  //
+
   // Context
   const { sunEvalsState, updateSunEvalsState } = useSunEvalsContext();
   const { pubAreasState } = usePubAreasContext();
@@ -49,10 +85,20 @@ const useSunEvals = (): SunEvalsResponse => {
   //
 
   // Variables
-  const { selectedTimeslot, sunQualitySelected } = sunEvalsState || {};
+  const { selectedTimeslot, forecastDate, sunQualitySelected } =
+    sunEvalsState || {};
   const { selectedPubArea, selectedPubId } = pubAreasState || {};
 
-  const julianWeek = getCurrentJulianWeek();
+  // A stored date can fall into the past, so only forecast today onwards
+  const today = formatDate(new Date());
+  const forecastDateKey =
+    forecastDate && forecastDate > today ? forecastDate : today;
+  const forecastDay = useMemo(
+    () => parseDate(forecastDateKey),
+    [forecastDateKey]
+  );
+
+  const julianWeek = getWeekKeyForDate(forecastDay);
 
   //
 
@@ -69,80 +115,95 @@ const useSunEvals = (): SunEvalsResponse => {
     julianWeek,
   ];
 
-  const GET_SUN_EVALS_FOR_TIMESLOT_QUERY_KEY = [
+  const getSunEvalsForTimeslotQueryKey = (timeSlot: number | null) => [
     "getSunEvalsForTimeslot",
-    selectedTimeslot,
+    timeSlot,
     julianWeek,
   ];
 
   //
 
   // Query functions
-  const fetchSunEvalsForPubArea = async (): Promise<SunEval[]> => {
-    // Fetch all available pub labels
-    const { data, error } = await supabaseClient
-      .from("sun_eval_reg")
-      .select("*")
-      .eq("area_id", selectedPubArea?.id)
-      .eq("julian_week", julianWeek);
-
-    if (error) throw error;
-    return data;
-  };
+  const fetchSunEvalsForPubArea = () =>
+    fetchSunEvalsForecast(forecastDay, { areaId: selectedPubArea?.id });
 
-  const fetchSunEvalsForAllPubAreas = async (): Promise<SunEval[]> => {
-    // Fetch all available pub labels
-    const { data, error } = await supabaseClient
-      .from("sun_eval_reg")
-      .select("*")
-      .eq("pub_id", selectedPubId)
-      .eq("julian_week", julianWeek);
+  const fetchSunEvalsForAllPubAreas = () =>
+    fetchSunEvalsForecast(forecastDay, { pubId: selectedPubId ?? undefined });
 
-    if (error) throw error;
-    return data;
-  };
-
-  const fetchSunEvalsForTimeslot = async (): Promise<SunEval[]> => {
-    // Fetch all available pub labels
-    const { data, error } = await supabaseClient
-      .from("sun_eval_reg")
-      .select("*")
-      .eq("time", selectedTimeslot)
-      .eq("julian_week", julianWeek);
-
-    if (error) throw error;
-    return data;
-  };
+  // sun_eval_reg stores the minutes after midnight rather than the slot index
+  const fetchSunEvalsForTimeslot = (timeSlot: number) =>
+    fetchSunEvalsForecast(forecastDay, {
+      time: getTimeSlotMinutes(timeSlot),
+    });
 
   //
 
   // Queries
   const {
-    data: sunEvalsForPubArea = [],
+    data: {
+      sunEvals: sunEvalsForPubArea = [],
+      isInterpolated: isSunEvalsForPubAreaInterpolated = false,
+    } = {},
     isLoading: isLoadingSunEvalsForPubArea,
   } = useQuery({
     queryKey: GET_SUN_EVALS_FOR_PUB_AREA_QUERY_KEY,
     queryFn: fetchSunEvalsForPubArea,
+    enabled: !!selectedPubArea?.id,
   });
 
   const {
-    data: sunEvalsForAllPubAreas = [],
+    data: {
+      sunEvals: sunEvalsForAllPubAreas = [],
+      isInterpolated: isSunEvalsForAllPubAreasInterpolated = false,
+    } = {},
     isLoading: isLoadingSunEvalsForAllPubAreas,
   } = useQuery({
     queryKey: GET_SUN_EVALS_FOR_ALL_PUB_AREAS_QUERY_KEY,
     queryFn: fetchSunEvalsForAllPubAreas,
+    enabled: !!selectedPubId,
   });
 
   const {
-    data: sunEvalsForTimeslot = [],
+    data: {
+      sunEvals: sunEvalsForTimeslot = [],
+      isInterpolated: isSunEvalsForTimeslotInterpolated = false,
+    } = {},
     isLoading: isLoadingSunEvalsForTimeslot,
+    isFetching: isFetchingSunEvalsForTimeslot,
   } = useQuery({
-    queryKey: GET_SUN_EVALS_FOR_TIMESLOT_QUERY_KEY,
-    queryFn: fetchSunEvalsForTimeslot,
+    queryKey: getSunEvalsForTimeslotQueryKey(selectedTimeslot),
+    queryFn: () => fetchSunEvalsForTimeslot(selectedTimeslot || 0),
+    // Keep the markers on the map while the next timeslot loads
+    placeholderData: keepPreviousData,
+    enabled: selectedTimeslot !== null,
   });
 
   //
 
+  // Mutations
+  const { mutateAsync: saveSunEvals, isPending: isSavingSunEvals } =
+    useMutation({
+      mutationFn: async ({ sunEvals }: SaveSunEvalsPayload) => {
+        // Overwrite any evals already saved for the same area, week and time
+        const { data, error } = await supabaseAuthClient
+          .from("sun_eval_reg")
+          .upsert(sunEvals, { onConflict: "area_id,julian_week,time" });
+
+        if (error) throw error;
+
+        return data;
+      },
+      onSuccess: () => {
+        queryClient.invalidateQueries({ queryKey: ["getSunEvalsForPubArea"] });
+        queryClient.invalidateQueries({
+          queryKey: ["getSunEvalsForAllPubAreas"],
+        });
+        queryClient.invalidateQueries({ queryKey: ["getSunEvalsForTimeslot"] });
+      },
+    });
+
+  //
+
   // Handlers
   const onChangeSunEvalsState = (newState: Partial<SunEvalsState>) => {
     updateSunEvalsState(newState);
@@ -153,6 +214,23 @@ const useSunEvals = (): SunEvalsResponse => {
     onChangeSunEvalsState({ selectedTimeslot: currentTimeSlot });
   };
 
+  const onSetForecastDate = (forecastDate: string | null) => {
+    onChangeSunEvalsState({ forecastDate });
+  };
+
+  const onPrefetchSunEvalsForTimeslot = (timeSlot: number) => {
+    queryClient.prefetchQuery({
+      queryKey: getSunEvalsForTimeslotQueryKey(timeSlot),
+      queryFn: () => fetchSunEvalsForTimeslot(timeSlot),
+    });
+  };
+
+  const onSaveSunEvals = async (sunEvals: DraftSunEval[]) => {
+    if (sunEvals.length === 0) return;
+
+    await saveSunEvals({ sunEvals });
+  };
+
   const onSunQualityFilterClick = (filter: string) => {
     const alreadySelected = sunQualitySelected.includes(filter);
     onChangeSunEvalsState({
@@ -166,9 +244,18 @@ const useSunEvals = (): SunEvalsResponse => {
     data: {
       ...sunEvalsState,
 
+      // Forecast
+      forecastDay,
+      julianWeek,
+      isSunEvalsForPubAreaInterpolated,
+      isSunEvalsForTimeslotInterpolated,
+      isSunEvalsForAllPubAreasInterpolated,
+
       // Loading
+      isSavingSunEvals,
       isLoadingSunEvalsForPubArea,
       isLoadingSunEvalsForTimeslot,
+      isFetchingSunEvalsForTimeslot,
       isLoadingSunEvalsForAllPubAreas,
 
       // Evals
@@ -183,6 +270,11 @@ const useSunEvals = (): SunEvalsResponse => {
       // Update
       onChangeSunEvalsState,
       onSeedCurrentTimeSlot,
+      onSetForecastDate,
+      onPrefetchSunEvalsForTimeslot,
+
+      // Update DB
+      onSaveSunEvals,
     },
   };
 };
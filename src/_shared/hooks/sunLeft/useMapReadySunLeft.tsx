@@ -0,0 +1,36 @@
+import { useMemo } from "react";
+
+// Hooks
+import usePubs from "../pubs/usePubs";
+import usePubAreas from "../pubAreas/usePubAreas";
+import useSunLeft from "./useSunLeft";
+
+// Sun left for every area of the pubs we show. Markers, the finder list and
+// the rankings all read it from here, so they share one query and score
+// every pub the same way.
+const useMapReadySunLeft = () => {
+  //
+
+  // Hooks
+  const {
+    data: { uiReadyPubs = [] },
+  } = usePubs();
+  const {
+    data: { allAvailableAreas = [] },
+  } = usePubAreas();
+
+  //
+
+  // Variables
+  const areaIds = useMemo(() => {
+    const pubIds = new Set(uiReadyPubs.map(({ id }) => id));
+
+    return allAvailableAreas
+      .filter(({ pub_id }) => pubIds.has(pub_id))
+      .map(({ id }) => id);
+  }, [uiReadyPubs, allAvailableAreas]);
+
+  return useSunLeft({ areaIds });
+};
+
+export default useMapReadySunLeft;
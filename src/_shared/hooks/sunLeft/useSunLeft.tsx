@@ -0,0 +1,83 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+
+// Hooks
+import useSunEvals from "../sunEvals/useSunEvals";
+
+// Helpers
+import { fetchSunEvalsForecast } from "../../../utils/sunEvalForecast";
+import { calculateSunLeftByArea, SunLeft } from "../../../utils/sunLeft";
+import { getTimeSlotMinutes } from "../../../utils/timeSlots";
+
+interface SunLeftProps {
+  areaIds: number[];
+
+  // pc_in_sun an area needs to count as sunny
+  threshold?: number;
+}
+
+interface SunLeftData {
+  isLoadingSunLeft: boolean;
+  isErrorSunLeft: boolean;
+  sunLeftByArea: Map<number, SunLeft>;
+}
+
+interface SunLeftResponse {
+  data: SunLeftData;
+}
+
+// Sun left from the selected timeslot for a set of areas, e.g. every area
+// we show (see useMapReadySunLeft)
+const useSunLeft = ({ areaIds, threshold }: SunLeftProps): SunLeftResponse => {
+  //
+
+  // Hooks
+  const {
+    data: { selectedTimeslot, forecastDay, julianWeek },
+  } = useSunEvals();
+
+  //
+
+  // Variables
+  const currentTime = getTimeSlotMinutes(selectedTimeslot || 0);
+  const sortedAreaIds = [...areaIds].sort((a, b) => a - b);
+
+  //
+
+  // Queries
+  const GET_SUN_EVALS_FOR_REST_OF_DAY_QUERY_KEY = [
+    "getSunEvalsForRestOfDay",
+    sortedAreaIds,
+    currentTime,
+    julianWeek,
+  ];
+
+  const {
+    data: { sunEvals = [] } = {},
+    isLoading: isLoadingSunLeft,
+    isError: isErrorSunLeft,
+  } = useQuery({
+    queryKey: GET_SUN_EVALS_FOR_REST_OF_DAY_QUERY_KEY,
+    queryFn: () =>
+      fetchSunEvalsForecast(forecastDay, {
+        areaIds: sortedAreaIds,
+        fromTime: currentTime,
+      }),
+    enabled: sortedAreaIds.length > 0,
+  });
+
+  const sunLeftByArea = useMemo(
+    () => calculateSunLeftByArea(sunEvals, currentTime, { threshold }),
+    [sunEvals, currentTime, threshold]
+  );
+
+  return {
+    data: {
+      isLoadingSunLeft,
+      isErrorSunLeft,
+      sunLeftByArea,
+    },
+  };
+};
+
+export default useSunLeft;
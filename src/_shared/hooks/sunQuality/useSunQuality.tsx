@@ -0,0 +1,206 @@
+import { useMemo } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+// Context
+import { useFiltersContext } from "../../providers/FiltersProvider";
+
+// Hooks
+import { useSupabase } from "../useSupabase";
+import useSunEvals from "../sunEvals/useSunEvals";
+
+// Types
+import { SunQualityThreshold } from "../../types";
+
+// Helpers
+import {
+  getSeasonForDate,
+  normalizeSunThresholds,
+  Season,
+  SUN_THRESHOLDS,
+  SunThresholds,
+} from "../../../utils/sunQuality";
+
+interface SaveSeasonThresholdsPayload {
+  season: Season;
+  thresholds: SunThresholds;
+}
+
+interface SunQualityData {
+  // Season of the forecast day
+  season: Season;
+
+  // What an admin has set per season, missing seasons use SUN_THRESHOLDS
+  seasonThresholds: Record<Season, SunThresholds>;
+
+  // The season's defaults, and the ones in use after the user's own
+  defaultThresholds: SunThresholds;
+  thresholds: SunThresholds;
+  isCustomThresholds: boolean;
+
+  // Loading
+  isLoadingSeasonThresholds: boolean;
+  isSavingSeasonThresholds: boolean;
+}
+
+interface SunQualityOperations {
+  // User
+  onChangeThresholds: (thresholds: Partial<SunThresholds>) => void;
+  onResetThresholds: () => void;
+
+  // Admin
+  onSaveSeasonThresholds: (payload: SaveSeasonThresholdsPayload) => void;
+}
+
+interface SunQualityResponse {
+  data: SunQualityData;
+  operations: SunQualityOperations;
+}
+
+const GET_SEASON_THRESHOLDS_QUERY_KEY = ["sunQualityThresholds"];
+
+// The sun quality thresholds in use: the user's own from the filters panel,
+// otherwise the admin defaults for the forecast day's season
+const useSunQuality = (): SunQualityResponse => {
+  //
+
+  // Context
+  const { filtersState, updateFiltersState } = useFiltersContext();
+
+  //
+
+  // Hooks
+  const queryClient = useQueryClient();
+  const { client: supabaseAuthClient } = useSupabase();
+  const {
+    data: { forecastDay },
+  } = useSunEvals();
+
+  //
+
+  // Query functions
+  const fetchSeasonThresholds = async (): Promise<SunQualityThreshold[]> => {
+    const { data, error } = await supabaseAuthClient
+      .from("sun_quality_threshold")
+      .select("*");
+
+    if (error) {
+      console.error("Error fetching sun quality thresholds:", error);
+      return [];
+    }
+
+    return data || [];
+  };
+
+  //
+
+  // Queries
+  const {
+    data: seasonThresholdRows,
+    isLoading: isLoadingSeasonThresholds,
+  } = useQuery({
+    queryKey: GET_SEASON_THRESHOLDS_QUERY_KEY,
+    queryFn: fetchSeasonThresholds,
+    staleTime: 60 * 60 * 1000,
+  });
+
+  const { mutate: saveSeasonThresholds, isPending: isSavingSeasonThresholds } =
+    useMutation({
+      mutationFn: async ({
+        season,
+        thresholds,
+      }: SaveSeasonThresholdsPayload) => {
+        const { GOOD, SOME } = normalizeSunThresholds(thresholds);
+
+        const { data, error } = await supabaseAuthClient
+          .from("sun_quality_threshold")
+          .upsert({
+            season,
+            good_from: GOOD,
+            some_from: SOME,
+            updated_at: new Date().toISOString(),
+          });
+        if (error) throw error;
+        return data;
+      },
+    });
+
+  //
+
+  // Variables
+  const season = getSeasonForDate(forecastDay);
+
+  const seasonThresholds = useMemo(() => {
+    const thresholdsBySeason: Record<Season, SunThresholds> = {
+      spring: SUN_THRESHOLDS,
+      summer: SUN_THRESHOLDS,
+      autumn: SUN_THRESHOLDS,
+      winter: SUN_THRESHOLDS,
+    };
+
+    (seasonThresholdRows || []).forEach((row) => {
+      thresholdsBySeason[row.season] = normalizeSunThresholds({
+        GOOD: Number(row.good_from),
+        SOME: Number(row.some_from),
+      });
+    });
+
+    return thresholdsBySeason;
+  }, [seasonThresholdRows]);
+
+  const defaultThresholds = seasonThresholds[season];
+
+  // Stored filters from before thresholds were added won't have the key
+  const { sunThresholds = null } = filtersState || {};
+
+  // Kept stable between renders so the markers scored with it are too
+  const thresholds = useMemo(
+    () =>
+      sunThresholds ? normalizeSunThresholds(sunThresholds) : defaultThresholds,
+    [sunThresholds, defaultThresholds]
+  );
+
+  //
+
+  // Handlers
+  const onChangeThresholds = (changes: Partial<SunThresholds>) => {
+    updateFiltersState({
+      sunThresholds: normalizeSunThresholds({ ...thresholds, ...changes }),
+    });
+  };
+
+  const onResetThresholds = () => {
+    updateFiltersState({ sunThresholds: null });
+  };
+
+  const onSaveSeasonThresholds = (payload: SaveSeasonThresholdsPayload) => {
+    saveSeasonThresholds(payload, {
+      onSuccess: () => {
+        queryClient.invalidateQueries({
+          queryKey: GET_SEASON_THRESHOLDS_QUERY_KEY,
+        });
+      },
+      onError: (error) => {
+        console.error("Error saving sun quality thresholds:", error);
+      },
+    });
+  };
+
+  return {
+    data: {
+      season,
+      seasonThresholds,
+      defaultThresholds,
+      thresholds,
+      isCustomThresholds: !!sunThresholds,
+      isLoadingSeasonThresholds,
+      isSavingSeasonThresholds,
+    },
+    operations: {
+      onChangeThresholds,
+      onResetThresholds,
+      onSaveSeasonThresholds,
+    },
+  };
+};
+
+export default useSunQuality;
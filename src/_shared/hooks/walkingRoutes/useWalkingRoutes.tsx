@@ -0,0 +1,114 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+
+// Context
+import { useGeoLocationContext } from "../../providers/useGeolocationContext";
+
+// Types
+import { PolygonCoordinate } from "../pubAreas/usePubAreas";
+
+// Helpers
+import {
+  DEFAULT_ROUTING_PROVIDER,
+  RoutingProvider,
+  WalkingRoute,
+} from "../../../utils/walkingRoutes";
+
+interface WalkingRoutesProps {
+  pubs: { id: number; latitude: number; longitude: number }[];
+
+  // Defaults to the straight line estimate
+  provider?: RoutingProvider;
+}
+
+interface WalkingRoutesData {
+  // The user's last known location, null until we have one
+  origin: PolygonCoordinate | null;
+  isLoadingWalkingRoutes: boolean;
+
+  // The routing provider couldn't give us routes
+  isErrorWalkingRoutes: boolean;
+  walkingRoutesByPub: Map<number, WalkingRoute>;
+}
+
+interface WalkingRoutesResponse {
+  data: WalkingRoutesData;
+}
+
+// Roughly 10m, so small GPS wobbles don't refetch every route
+const toOriginKey = (degrees: number) => Number(degrees.toFixed(4));
+
+// Walking distance and time from the user to each pub
+const useWalkingRoutes = ({
+  pubs,
+  provider = DEFAULT_ROUTING_PROVIDER,
+}: WalkingRoutesProps): WalkingRoutesResponse => {
+  //
+
+  // Context
+  const {
+    geoLocationState: { userLatitude, userLongitude },
+  } = useGeoLocationContext();
+
+  //
+
+  // Variables
+
+  // 0, 0 is the default before the browser has told us anything
+  const origin =
+    userLatitude || userLongitude
+      ? { lat: toOriginKey(userLatitude), lng: toOriginKey(userLongitude) }
+      : null;
+  const sortedPubs = [...pubs].sort((a, b) => a.id - b.id);
+
+  //
+
+  // Queries
+  const GET_WALKING_ROUTES_QUERY_KEY = [
+    "getWalkingRoutes",
+    provider.name,
+    origin?.lat,
+    origin?.lng,
+    sortedPubs.map(({ id }) => id),
+  ];
+
+  // Routes come back paired with their pub ids, so they always match the
+  // pubs they were asked for
+  const {
+    data: routesByPubId,
+    isLoading: isLoadingWalkingRoutes,
+    isError: isErrorWalkingRoutes,
+  } = useQuery({
+    queryKey: GET_WALKING_ROUTES_QUERY_KEY,
+    queryFn: async () => {
+      const routes = await provider.getWalkingRoutes(
+        origin as PolygonCoordinate,
+        sortedPubs.map(({ latitude, longitude }) => ({
+          lat: latitude,
+          lng: longitude,
+        }))
+      );
+
+      return sortedPubs.map(
+        ({ id }, index) => [id, routes[index]] as [number, WalkingRoute]
+      );
+    },
+    enabled: !!origin && sortedPubs.length > 0,
+  });
+
+  const walkingRoutesByPub = useMemo(
+    () => new Map((routesByPubId || []).filter(([, route]) => !!route)),
+    [routesByPubId]
+  );
+
+  return {
+    data: {
+      origin,
+      isLoadingWalkingRoutes,
+      isErrorWalkingRoutes,
+      walkingRoutesByPub,
+    },
+  };
+};
+
+export default useWalkingRoutes;
@@ -0,0 +1,55 @@
+import React, { useState, useEffect } from "react";
+
+// Context
+import { CrawlContext, CrawlState } from "./useCrawlContext";
+
+const LOCAL_STORAGE_KEY = "crawlState";
+
+const defaultState: CrawlState = {
+  crawlRequest: null,
+
+  // Timestamp for localStorage
+  timestamp: Date.now(),
+};
+
+export const CrawlProvider: React.FC<{ children: React.ReactNode }> = ({
+  children,
+}) => {
+  const [crawlState, setCrawlState] = useState<CrawlState>(() => {
+    // Try to load the state from localStorage on initial render
+    const storedState = localStorage.getItem(LOCAL_STORAGE_KEY);
+
+    if (storedState) {
+      const parsedState: CrawlState = JSON.parse(storedState);
+      const now = Date.now();
+      const oneHour = 60 * 60 * 1000; // 1 hour in milliseconds
+
+      // Check if the stored state is less than 1 hour old
+      if (now - parsedState.timestamp < oneHour) {
+        // If it's less than 1 hour old, use the stored state
+        return parsedState;
+      }
+    }
+
+    return defaultState;
+  });
+
+  useEffect(() => {
+    // Save to localStorage whenever the state changes, including the current timestamp
+    const stateToStore: CrawlState = {
+      ...crawlState,
+      timestamp: Date.now(),
+    };
+    localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(stateToStore));
+  }, [crawlState]);
+
+  const updateCrawlState = (newState: Partial<CrawlState>) => {
+    setCrawlState((prevState) => ({ ...prevState, ...newState }));
+  };
+
+  return (
+    <CrawlContext.Provider value={{ crawlState, updateCrawlState }}>
+      {children}
+    </CrawlContext.Provider>
+  );
+};
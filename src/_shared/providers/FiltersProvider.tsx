@@ -1,19 +1,37 @@
 import React, { createContext, useState, useContext, useEffect } from "react";
 
+// Types
+import { SunThresholds } from "../../utils/sunQuality";
+
 export interface FiltersState {
   // Filters options
   sunQualityOptions: SunQuality[];
   areaTypeOptions: AreaType[];
+  groupSizeOptions: number[];
 
   // Filters
   sunQualityFilters: SunQuality[];
   areaTypeFilters: AreaType[];
 
+  // Only areas seating at least this many, null for any size
+  groupSizeFilter: number | null;
+
+  // The user's own sun quality thresholds, null for the season's defaults
+  sunThresholds: SunThresholds | null;
+
+  // Only pubs the user can walk to before the sun goes, once we know where
+  // they are
+  reachableFilter: boolean;
+
   // View
   viewFilters: boolean;
 
   // List View
   viewAsList: boolean;
+  sortListByDistance: boolean;
+
+  // Crawl planner
+  viewCrawlPlanner: boolean;
 
   // Timestamp for localStorage
   timestamp: number;
@@ -60,6 +78,7 @@ const defaultState: FiltersState = {
     AreaType.BEER_GARDEN,
     AreaType.COURTYARD,
   ],
+  groupSizeOptions: [2, 4, 6, 8, 12],
 
   // Filters
   sunQualityFilters: [SunQuality.GOOD, SunQuality.SOME],
@@ -71,12 +90,19 @@ const defaultState: FiltersState = {
     AreaType.BEER_GARDEN,
     AreaType.COURTYARD,
   ],
+  groupSizeFilter: null,
+  sunThresholds: null,
+  reachableFilter: false,
 
   // View
   viewFilters: false,
 
   // View as list
   viewAsList: false,
+  sortListByDistance: false,
+
+  // Crawl planner
+  viewCrawlPlanner: false,
 
   // Timestamp for localStorage
   timestamp: Date.now(),
@@ -6,6 +6,7 @@ export interface PubState {
 
   // Map Bounds
   mapBounds: google.maps.LatLngBoundsLiteral;
+  mapZoom: number;
 }
 
 interface PubContextType {
@@ -25,6 +26,7 @@ const defaultState: PubState = {
     east: -0,
     west: -0,
   },
+  mapZoom: 15,
 };
 
 export const PubProvider: React.FC<{ children: React.ReactNode }> = ({
@@ -0,0 +1,30 @@
+import { createContext, useContext } from "react";
+
+// Types
+import { CrawlRequest } from "../../utils/crawlPlanner";
+
+export interface CrawlState {
+  // The crawl last planned, shown on the finder map until it's cleared
+  crawlRequest: CrawlRequest | null;
+
+  // Timestamp for localStorage
+  timestamp: number;
+}
+
+export interface CrawlContextType {
+  crawlState: CrawlState;
+  updateCrawlState: (newState: Partial<CrawlState>) => void;
+}
+
+export const CrawlContext = createContext<CrawlContextType | undefined>(
+  undefined
+);
+
+// Kept apart from CrawlProvider so that file only exports the component
+export const useCrawlContext = (): CrawlContextType => {
+  const context = useContext(CrawlContext);
+  if (!context) {
+    throw new Error("useCrawlContext must be used within a CrawlProvider");
+  }
+  return context;
+};
@@ -4,6 +4,9 @@ export interface SunEvalsState {
   // Sun evals details
   selectedTimeslot: number | null;
 
+  // Day (YYYY-MM-DD) to forecast, or null for today
+  forecastDate: string | null;
+
   // Filters
   sunQualitySelected: string[];
 
@@ -25,6 +28,7 @@ const LOCAL_STORAGE_KEY = "sunEvalsState";
 const defaultState: SunEvalsState = {
   // Sun evals details
   selectedTimeslot: null,
+  forecastDate: null,
 
   // Filters
   sunQualitySelected: ["good", "some"],
@@ -1,5 +1,6 @@
 import * as THREE from "three";
 import { PolygonCoordinate } from "../hooks/pubAreas/usePubAreas";
+import { Season } from "../../utils/sunQuality";
 
 // Types
 
@@ -54,9 +55,54 @@ export interface PubArea {
   created_at: string;
   floor_area: number;
   coordinates: PolygonCoordinate[];
-  vision_mask_points: { x: number; y: number }[];
+
+  // Seats set by hand, which win over the estimate
+  seating_capacity: number | null;
+
+  // Not a column: filled in from the floor area when areas are fetched, see
+  // estimateSeats
+  estimated_seats: number;
+
+  // Older areas still hold a bare ring of points, see parseVisionMask
+  vision_mask_points: StoredVisionMask | null;
+}
+
+// A point on the vision mask overlay, in canvas pixels. Stored masks use the
+// same shape in view coordinates, see NormalizedVisionMask.
+export interface VisionMaskPoint {
+  x: number;
+  y: number;
+}
+
+// One region of an area as seen from its camera, with anything inside the
+// holes (a tree, a pillar, an umbrella) left out of the sun percentage
+export interface VisionMaskPolygon {
+  outer: VisionMaskPoint[];
+  holes: VisionMaskPoint[][];
+}
+
+// A mask in canvas pixels, as it's edited and measured. Version 2 masks were
+// stored like this, in pixels of the 800x600 overlay.
+export interface VisionMask {
+  version: 2;
+  polygons: VisionMaskPolygon[];
 }
 
+// Version 3: points relative to the centre of the camera's view, in half view
+// heights, so they fit any canvas size (see toViewPoint)
+export interface NormalizedVisionMask {
+  version: 3;
+  polygons: VisionMaskPolygon[];
+}
+
+// Version 1 masks were a single outer ring with no holes
+export type LegacyVisionMask = VisionMaskPoint[];
+
+export type StoredVisionMask =
+  | NormalizedVisionMask
+  | VisionMask
+  | LegacyVisionMask;
+
 export interface PubLabel {
   id: number;
   name: string;
@@ -98,6 +144,20 @@ export interface SunEval {
   pub_id: number;
   area_id: number;
   date: string;
+
+  // Minutes after midnight (local time) the timeslot starts at
   time: number;
+  julian_week: number;
   pc_in_sun: number;
 }
+
+// A sun eval that has been measured but not yet saved
+export type DraftSunEval = Omit<SunEval, "id">;
+
+// Default sun quality thresholds an admin has set for a season
+export interface SunQualityThreshold {
+  season: Season;
+  good_from: number;
+  some_from: number;
+  updated_at: string;
+}
@@ -41,36 +41,6 @@ export const getSunEvalEmoji = (sunEval: SunEvaluation) => {
   return sunEvaluationEmoji;
 };
 
-export const roundUpCurrentTime = (formattedCurrentTime: string[]) => {
-  // Extract hours and minutes from the input array
-  const [hours, minutes] = formattedCurrentTime.map(Number);
-
-  // Calculate the total minutes
-  let totalMinutes = hours * 60 + minutes;
-
-  // Round up to the next 15-minute interval
-  totalMinutes = Math.ceil(totalMinutes / 15) * 15;
-
-  // Calculate new hours and minutes
-  const newHours = Math.floor(totalMinutes / 60) % 24;
-  const newMinutes = totalMinutes % 60;
-
-  // Format the result back to a string
-  const formattedReturnString = `${newHours.toString().padStart(2, "0")}-${newMinutes.toString().padStart(2, "0")}`;
-
-  // If this is below 10-00, return 10-00
-  if (newHours < 10 || (newHours === 10 && newMinutes === 0)) {
-    return "10-00";
-  }
-
-  // If this is above 19-00, return 19-00
-  if (newHours > 21 || (newHours === 21 && newMinutes > 0)) {
-    return "21-00";
-  }
-
-  return formattedReturnString;
-};
-
 export const formatAddressText = (addressText: string) => {
   const simplifiedAddress = addressText.replace("London", "");
 
@@ -252,44 +222,7 @@ export const encryptString = (inputString: string) => {
 
 //
 
-// Timeslots
-
-/**
- * Maps the current time to an integer index where:
- * - 12:00pm (noon) = 0
- * - 12:15pm = 1
- * - 12:30pm = 2
- * - And so on in 15-minute increments until 9:00pm
- *
- * @returns The time slot index (0-36) or -1 if outside the 12pm-9pm range
- */
-export const getCurrentTimeSlot = (): number => {
-  const currentTime = new Date();
-
-  const hours = currentTime.getHours();
-  const minutes = currentTime.getMinutes();
-
-  // Convert to 12-hour format for calculation
-  // 12pm (noon) = 12, 1pm = 13, 2pm = 14, ..., 9pm = 21
-
-  // If time is before noon (12pm) or after 9pm, return -1
-  if (hours < 12 || hours > 21 || (hours === 21 && minutes > 0)) {
-    return 0;
-  }
-
-  // Calculate slots since noon (12pm)
-  // Each hour has 4 slots (15-min increments)
-  const hoursSinceNoon = hours - 12;
-  const slotsByHour = hoursSinceNoon * 4;
-
-  // Calculate which 15-minute slot within the current hour
-  const slotInCurrentHour = Math.floor(minutes / 15);
-
-  // Combine to get the total slot number
-  const timeSlot = slotsByHour + slotInCurrentHour;
-
-  return timeSlot;
-};
+// Time
 
 /**
  * Gets the formatted time string (HH-MM) for the current time
@@ -308,24 +241,21 @@ export const getFormattedTimeString = () => {
   return `${formattedHours}-${formattedMinutes}`;
 };
 
-// Calculate current Julian week
-export const getCurrentJulianWeek = () => {
-  const now = new Date();
-  const year = now.getFullYear();
+//
 
-  // Get start of year
-  const startOfYear = new Date(year, 0, 1);
+// Dates
 
-  // Calculate days since start of year
-  const daysSinceStartOfYear = Math.floor(
-    (now.getTime() - startOfYear.getTime()) / (24 * 60 * 60 * 1000)
-  );
+// Format a date as YYYY-MM-DD in local time
+export const formatDate = (date: Date) =>
+  [
+    date.getFullYear(),
+    (date.getMonth() + 1).toString().padStart(2, "0"),
+    date.getDate().toString().padStart(2, "0"),
+  ].join("-");
 
-  // Calculate week number (1-based)
-  const weekNumber = Math.ceil(
-    (daysSinceStartOfYear + startOfYear.getDay() + 1) / 7
-  );
+// Read a YYYY-MM-DD date back as local midnight
+export const parseDate = (formattedDate: string) => {
+  const [year, month, day] = formattedDate.split("-").map(Number);
 
-  // Format as YYYYWW
-  return parseInt(`${year}${weekNumber.toString().padStart(2, "0")}`);
+  return new Date(year, month - 1, day);
 };
@@ -0,0 +1,92 @@
+import { useEffect, useState } from "react";
+
+// Hooks
+import useSunQuality from "../../../../_shared/hooks/sunQuality/useSunQuality";
+
+// Helpers
+import {
+  formatSeason,
+  Season,
+  SEASONS,
+  SunThresholds,
+} from "../../../../utils/sunQuality";
+
+// Default sun quality thresholds for each season, used by everyone who
+// hasn't set their own in the filters panel
+const SeasonThresholds = () => {
+  // Hooks
+  const {
+    data: { season: currentSeason, seasonThresholds, isSavingSeasonThresholds },
+    operations: { onSaveSeasonThresholds },
+  } = useSunQuality();
+
+  // State
+  const [draftThresholds, setDraftThresholds] =
+    useState<Record<Season, SunThresholds>>(seasonThresholds);
+
+  // Reset the drafts whenever the saved thresholds load or change
+  useEffect(() => {
+    setDraftThresholds(seasonThresholds);
+  }, [seasonThresholds]);
+
+  // Handlers
+  const handleChange = (
+    season: Season,
+    key: keyof SunThresholds,
+    value: string
+  ) => {
+    setDraftThresholds((prev) => ({
+      ...prev,
+      [season]: { ...prev[season], [key]: Number(value) },
+    }));
+  };
+
+  return (
+    <div className="space-y-3">
+      {SEASONS.map((season) => {
+        const draft = draftThresholds[season];
+        const saved = seasonThresholds[season];
+        const isChanged =
+          draft.GOOD !== saved.GOOD || draft.SOME !== saved.SOME;
+        const isInvalid = draft.SOME > draft.GOOD;
+
+        return (
+          <div key={season} className="flex items-center gap-3">
+            <span className="text-base font-medium w-24">
+              {formatSeason(season)}
+              {season === currentSeason && (
+                <span className="text-xs text-gray-500"> (now)</span>
+              )}
+            </span>
+
+            {(["GOOD", "SOME"] as const).map((key) => (
+              <label key={key} className="flex items-center gap-1 text-sm">
+                {key === "GOOD" ? "Good from" : "Some from"}
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={draft[key]}
+                  onChange={(e) => handleChange(season, key, e.target.value)}
+                  className="w-16 px-2 py-1 border rounded"
+                />
+              </label>
+            ))}
+
+            <button
+              disabled={!isChanged || isInvalid || isSavingSeasonThresholds}
+              onClick={() =>
+                onSaveSeasonThresholds({ season, thresholds: draft })
+              }
+              className="ml-auto px-3 py-1 bg-blue-600 text-white rounded text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Save
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default SeasonThresholds;
@@ -8,6 +8,7 @@ import { supabaseClient } from "../../_shared/hooks/useSupabaseAuth";
 
 // Components
 import ProgressBar from "./_shared/components/ProgressBar";
+import SeasonThresholds from "./_shared/components/SeasonThresholds";
 import { ChevronRight } from "lucide-react";
 
 const AdminOverview = () => {
@@ -192,6 +193,13 @@ const AdminOverview = () => {
                 />
               </div>
             </div>
+
+            <div className="p-4 bg-white rounded-lg shadow">
+              <h2 className="text-xl font-semibold mb-4">
+                Sun Quality Thresholds
+              </h2>
+              <SeasonThresholds />
+            </div>
           </div>
         </>
       ) : (
@@ -17,17 +17,26 @@ import {
 } from "../../../../scene/_shared/services/tilesRendererService";
 import CameraPositioner from "../../../../scene/_shared/services/cameraPositionerService";
 import { memoryManager } from "../../../../scene/_shared/services/MemoryManagementService";
+import { sunMeasurement } from "../../../../scene/_shared/services/sunMeasurementService";
+import { maskProjection } from "../../../../scene/_shared/services/maskProjectionService";
 
 // Hooks
 import usePubAreas from "../../../../../_shared/hooks/pubAreas/usePubAreas";
 import useMapSettings from "../../../../scene/_shared/hooks/useMapSettings";
 
+// Utils
+import { calculateSunPosition } from "../../../../../utils/sun";
+
 // Components
 import WhiteTilesMaterial from "../../../../scene/_shared/components/WhiteTilesMaterial";
 import TransparentShadowReceiver from "../../../../scene/_shared/components/TransparentShadowReceiver";
 
 const API_KEY = import.meta.env.VITE_GOOGLE_MAPS_API_KEY;
 
+// How far from the pub (scene units) the directional light sits. Must stay
+// inside the shadow camera's far plane.
+const SUN_DISTANCE = 300;
+
 // Define a type for the ref with enhanced camera tracking and control functionality
 export interface TilesSceneRef {
   getTilesService: () => TilesRendererService | null;
@@ -64,13 +73,10 @@ const ShadowEnabledTilesScene = forwardRef<
   // State
   const [tilesLoaded, setTilesLoaded] = useState(false);
   const [shadowOpacity, setShadowOpacity] = useState(0.9);
-  const [northOffset, setNorthOffset] = useState(1.5); // Offset angle in radians
-  const [heightOffset, setHeightOffset] = useState(-30); // Height offset in units
   const [sunPosition, setSunPosition] = useState<[number, number, number]>([
     100, 100, 50,
   ]);
 
-  const allowFineTunedControls = false; // Controls sun position adjustments
   const allowZoomControls = true; // Controls W/S zoom functionality
 
   // Refs for service instances
@@ -129,53 +135,6 @@ const ShadowEnabledTilesScene = forwardRef<
     onSetShowShadowReceivingTiles,
   ]);
 
-  // Calculate sun position based on time of day with north offset adjustment and seasonal variations
-  const calculateSunPosition = useCallback(
-    (timeOfDay: Date) => {
-      const hours = timeOfDay.getHours();
-      const minutes = timeOfDay.getMinutes();
-      const timeInHours = hours + minutes / 60;
-      const angle = ((timeInHours - 6) / 12) * Math.PI;
-
-      // Apply the north offset to the angle
-      const adjustedAngle = angle + northOffset;
-
-      // Calculate seasonal adjustment for sun height
-      // Day of year (0-365)
-      const start = new Date(timeOfDay.getFullYear(), 0, 0);
-      const diff = timeOfDay.getTime() - start.getTime();
-      const dayOfYear = Math.floor(diff / (1000 * 60 * 60 * 24));
-
-      // Seasonal adjustment - peaks at summer solstice (~day 172) and lowest at winter solstice (~day 355)
-      // This creates a sinusoidal variation throughout the year
-      const seasonalFactor = Math.sin(((dayOfYear - 80) / 365) * 2 * Math.PI);
-
-      // Apply seasonal adjustment to height
-      const baseHeight = 100;
-      const seasonalHeightVariation = 30; // How much the height varies by season
-      const adjustedHeight =
-        baseHeight + seasonalFactor * seasonalHeightVariation;
-
-      // Apply seasonal adjustment to radius (sun's path is wider in winter, narrower in summer)
-      const baseRadius = 200;
-      const seasonalRadiusVariation = 20;
-      const adjustedRadius =
-        baseRadius - seasonalFactor * seasonalRadiusVariation;
-
-      // Calculate position
-      const x = Math.cos(adjustedAngle) * adjustedRadius;
-      const z = Math.sin(adjustedAngle) * adjustedRadius;
-
-      // Apply height offset to the sun's vertical position
-      const calculatedHeight =
-        Math.sin(angle) * adjustedHeight + adjustedHeight;
-      const y = calculatedHeight + heightOffset; // Apply manual height offset
-
-      return [x, y, z] as [number, number, number];
-    },
-    [northOffset, heightOffset]
-  );
-
   const {
     data: { selectedPub },
   } = usePubAreas();
@@ -231,7 +190,7 @@ const ShadowEnabledTilesScene = forwardRef<
     [orbitControlsRef, cameraRef]
   );
 
-  // Handle keyboard events for adjusting north offset, height offset, and zoom
+  // Handle keyboard events for zoom
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
       // Handle zoom with W/S keys (always enabled if allowZoomControls is true)
@@ -244,22 +203,6 @@ const ShadowEnabledTilesScene = forwardRef<
           return;
         }
       }
-
-      // Only proceed with sun position adjustments if allowFineTunedControls is true
-      if (!allowFineTunedControls) return;
-
-      // Adjust north offset with A/D keys (changed from W/S)
-      if (event.key.toLowerCase() === "a") {
-        setNorthOffset((prev) => prev + 0.1); // Increase by 0.1 radians (approx. 5.7 degrees)
-      } else if (event.key.toLowerCase() === "d") {
-        setNorthOffset((prev) => prev - 0.1); // Decrease by 0.1 radians
-      }
-      // Adjust height offset with E/Q keys (changed D to Q)
-      else if (event.key.toLowerCase() === "e") {
-        setHeightOffset((prev) => prev + 10); // Increase height by 10 units
-      } else if (event.key.toLowerCase() === "q") {
-        setHeightOffset((prev) => prev - 10); // Decrease height by 10 units
-      }
     };
 
     // Add event listener
@@ -286,14 +229,44 @@ const ShadowEnabledTilesScene = forwardRef<
     }
   }, []);
 
-  // Update sun position and shadow opacity
+  // Update sun position and shadow opacity from the real sun at the pub
   useEffect(() => {
+    if (!selectedPub) return;
+
     const timeOfDay = new Date(rawTimeOfDay);
-    setSunPosition(calculateSunPosition(timeOfDay));
 
-    const hours = timeOfDay.getHours();
-    setShadowOpacity(hours >= 6 && hours <= 18 ? 0.9 : 0.7);
-  }, [rawTimeOfDay, calculateSunPosition]);
+    const { x, y, z, elevation } = calculateSunPosition(
+      timeOfDay,
+      selectedPub.latitude,
+      selectedPub.longitude,
+      { accuracy: "high" }
+    );
+
+    // The tiles are re-centred on the pub in an East-North-Up frame with
+    // Y up, which puts north along X and east along Z
+    const direction = new THREE.Vector3(z, y, x).normalize();
+
+    setSunPosition(
+      direction.multiplyScalar(SUN_DISTANCE).toArray() as [
+        number,
+        number,
+        number,
+      ]
+    );
+
+    setShadowOpacity(elevation > 0 ? 0.9 : 0.7);
+  }, [rawTimeOfDay, selectedPub]);
+
+  // Let the simulator measure sunlight from this scene's shadows
+  useEffect(() => {
+    if (!allowShadows) return;
+
+    sunMeasurement.initialize(renderer, scene, camera);
+
+    return () => {
+      sunMeasurement.dispose();
+    };
+  }, [allowShadows, renderer, scene, camera]);
 
   // Update white material when showWhiteTiles changes
   useEffect(() => {
@@ -352,6 +325,10 @@ const ShadowEnabledTilesScene = forwardRef<
 
           if (tilesRenderer) {
             memoryManager.initialize(tilesRenderer, camera);
+
+            // Let the vision mask page project floor plans into this view
+            maskProjection.initialize(renderer, camera, tilesRenderer);
+
             if (allowShadows) {
               tilesRendererService.setupShadowsForTiles();
             }
@@ -401,6 +378,8 @@ const ShadowEnabledTilesScene = forwardRef<
 
     return () => {
       // Cleanup on unmount
+      maskProjection.dispose();
+
       if (tilesRendererServiceRef.current) {
         tilesRendererServiceRef.current.dispose();
         tilesRendererServiceRef.current = null;
@@ -0,0 +1,115 @@
+// Hooks
+import useSimulationQueue from "../hooks/useSimulationQueue";
+
+// Types
+import { VisionMask } from "../../../../../_shared/types";
+
+// Helpers
+import { formatTimeSlot } from "../../../../../utils/timeSlots";
+
+interface SimulationQueuePanelProps {
+  getScreenMask: () => VisionMask;
+}
+
+const SimulationQueuePanel = ({ getScreenMask }: SimulationQueuePanelProps) => {
+  //
+
+  // Hooks
+  const {
+    data: { jobs, isRunning, currentJob, completedJobCount, failedJobs },
+    operations: {
+      onBuildQueue,
+      onStartQueue,
+      onPauseQueue,
+      onRetryFailedJobs,
+      onClearQueue,
+    },
+  } = useSimulationQueue({ getScreenMask });
+
+  //
+
+  // Variables
+  const hasJobs = jobs.length > 0;
+
+  return (
+    <div className="flex flex-col gap-2 p-2 text-xs bg-white border-t border-slate-200">
+      <div className="flex flex-row items-center justify-between">
+        <p className="font-semibold">
+          Batch simulation{" "}
+          <span id="queue-progress" className="font-normal text-slate-600">
+            {completedJobCount}/{jobs.length} done, {failedJobs.length} failed
+          </span>
+        </p>
+        {currentJob && (
+          <p className="text-slate-600">
+            p-{currentJob.pubId} a-{currentJob.areaId}{" "}
+            {formatTimeSlot(currentJob.timeSlot)}
+          </p>
+        )}
+      </div>
+
+      <div className="flex flex-row gap-2">
+        <button
+          className="px-2 py-1 border border-slate-300 rounded disabled:opacity-50"
+          onClick={onBuildQueue}
+          id="build-queue"
+          disabled={isRunning}
+          type="button"
+        >
+          Build queue
+        </button>
+        {isRunning ? (
+          <button
+            className="px-2 py-1 border border-slate-300 rounded"
+            onClick={onPauseQueue}
+            id="pause-queue"
+            type="button"
+          >
+            Pause
+          </button>
+        ) : (
+          <button
+            className="px-2 py-1 border border-slate-300 rounded disabled:opacity-50"
+            onClick={onStartQueue}
+            id="start-queue"
+            disabled={!hasJobs}
+            type="button"
+          >
+            {completedJobCount > 0 ? "Resume" : "Start"}
+          </button>
+        )}
+        <button
+          className="px-2 py-1 border border-slate-300 rounded disabled:opacity-50"
+          onClick={onRetryFailedJobs}
+          id="retry-failed-jobs"
+          disabled={failedJobs.length === 0}
+          type="button"
+        >
+          Retry failed
+        </button>
+        <button
+          className="px-2 py-1 border border-slate-300 rounded disabled:opacity-50"
+          onClick={onClearQueue}
+          id="clear-queue"
+          disabled={isRunning || !hasJobs}
+          type="button"
+        >
+          Clear
+        </button>
+      </div>
+
+      {failedJobs.length > 0 && (
+        <ul className="max-h-[120px] overflow-y-auto text-red-600">
+          {failedJobs.map((job) => (
+            <li key={job.id}>
+              p-{job.pubId} a-{job.areaId} w-{job.julianWeek}{" "}
+              {formatTimeSlot(job.timeSlot)}: {job.error}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SimulationQueuePanel;
@@ -0,0 +1,16 @@
+// Resolve after the browser has drawn `frames` more frames
+export const waitForFrames = (frames: number) =>
+  new Promise<void>((resolve) => {
+    const step = (remaining: number) => {
+      if (remaining === 0) return resolve();
+      requestAnimationFrame(() => step(remaining - 1));
+    };
+
+    step(frames);
+  });
+
+export const getErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error);
+
+export const wait = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
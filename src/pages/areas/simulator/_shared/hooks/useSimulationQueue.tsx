@@ -0,0 +1,402 @@
+import { useEffect, useRef, useState } from "react";
+
+// Context
+import {
+  SimulationJob,
+  useSimulationQueueContext,
+} from "../providers/useSimulationQueueContext";
+
+// Hooks
+import usePubAreas from "../../../../../_shared/hooks/pubAreas/usePubAreas";
+import useSunEvals from "../../../../../_shared/hooks/sunEvals/useSunEvals";
+import useMapSettings from "../../../../scene/_shared/hooks/useMapSettings";
+import useSunMeasurement from "./useSunMeasurement";
+
+// Types
+import { VisionMask } from "../../../../../_shared/types";
+
+// Utils
+import { formatDate, parseDate } from "../../../../../_shared/utils";
+import {
+  getTimeSlotMinutes,
+  LAST_TIME_SLOT,
+} from "../../../../../utils/timeSlots";
+import { getWeekKeyForDate } from "../../../../../utils/weekKeys";
+import { hasVisionMask } from "../../../../../utils/visionMask";
+
+// Helpers
+import { getErrorMessage, wait } from "../helpers";
+
+// Give the tiles time to stream in after the camera moves to a new area
+const AREA_SETTLE_MS = 2000;
+
+const getAreaWeekKey = ({ areaId, julianWeek }: SimulationJob) =>
+  `${areaId}-${julianWeek}`;
+
+const getPubWeekKey = ({ pubId, julianWeek }: SimulationJob) =>
+  `${pubId}-${julianWeek}`;
+
+// Every slot for an area/week has been measured, but not yet saved
+const findUnsavedAreaWeek = (jobs: SimulationJob[]) => {
+  const measuredJob = jobs.find(
+    (job) =>
+      job.status === "measured" &&
+      jobs
+        .filter((other) => getAreaWeekKey(other) === getAreaWeekKey(job))
+        .every(({ status }) => status === "measured" || status === "done")
+  );
+
+  return measuredJob ? getAreaWeekKey(measuredJob) : null;
+};
+
+// Every area and slot for a pub/week is saved, but the pub isn't marked yet
+const findCompletedPubWeek = (
+  jobs: SimulationJob[],
+  processedPubWeeks: string[]
+) => {
+  const completedJob = jobs.find(
+    (job) =>
+      !processedPubWeeks.includes(getPubWeekKey(job)) &&
+      jobs
+        .filter((other) => getPubWeekKey(other) === getPubWeekKey(job))
+        .every(({ status }) => status === "done")
+  );
+
+  return completedJob || null;
+};
+
+interface SimulationQueueProps {
+  // Vision mask for the selected area, in client coordinates
+  getScreenMask: () => VisionMask;
+}
+
+interface SimulationQueueData {
+  jobs: SimulationJob[];
+  isRunning: boolean;
+  currentJob: SimulationJob | null;
+
+  // Progress
+  completedJobCount: number;
+  failedJobs: SimulationJob[];
+}
+
+interface SimulationQueueOperations {
+  onBuildQueue: () => void;
+  onStartQueue: () => void;
+  onPauseQueue: () => void;
+  onRetryFailedJobs: () => void;
+  onClearQueue: () => void;
+}
+
+interface SimulationQueueResponse {
+  data: SimulationQueueData;
+  operations: SimulationQueueOperations;
+}
+
+// Runs the queue while mounted, so only mount it once (on the simulator page)
+const useSimulationQueue = ({
+  getScreenMask,
+}: SimulationQueueProps): SimulationQueueResponse => {
+  //
+
+  // Context
+  const {
+    simulationQueueState,
+    updateSimulationQueueState,
+    updateSimulationJobs,
+  } = useSimulationQueueContext();
+
+  //
+
+  // Hooks
+  const {
+    data: {
+      selectedPubId,
+      selectedPub,
+      selectedPubArea,
+      areasForPub,
+      allAvailableAreas,
+      simulationReadyPubs,
+      isLoadingAreasForPub,
+    },
+    operations: {
+      onUpdatePubAreaDetails,
+      onSelectPubArea,
+      onSetPubProcessedForWeek,
+    },
+  } = usePubAreas();
+
+  const {
+    operations: { onSaveSunEvals },
+  } = useSunEvals();
+
+  const {
+    data: { isLoading: isLoadingTiles },
+  } = useMapSettings();
+
+  const {
+    operations: { onMeasureTimeSlot },
+  } = useSunMeasurement({ getScreenMask });
+
+  //
+
+  // State
+  const [currentJob, setCurrentJob] = useState<SimulationJob | null>(null);
+
+  // Refs
+  const isProcessingRef = useRef(false);
+  const lastMeasuredAreaIdRef = useRef<number | null>(null);
+
+  //
+
+  // Variables
+  const { jobs, isRunning, processedPubWeeks = [] } = simulationQueueState;
+
+  const nextPendingJob = jobs.find(({ status }) => status === "pending");
+  const unsavedAreaWeek = findUnsavedAreaWeek(jobs);
+  const completedPubWeek = findCompletedPubWeek(jobs, processedPubWeeks);
+
+  const completedJobCount = jobs.filter(
+    ({ status }) => status === "done"
+  ).length;
+  const failedJobs = jobs.filter(({ status }) => status === "failed");
+
+  //
+
+  // Job updates
+  const setJobs = (
+    jobIds: string[],
+    changes: Partial<Pick<SimulationJob, "status" | "pcInSun" | "error">>
+  ) => {
+    updateSimulationJobs((previousJobs) =>
+      previousJobs.map((job) =>
+        jobIds.includes(job.id) ? { ...job, ...changes } : job
+      )
+    );
+  };
+
+  const runTask = async (task: () => Promise<void>) => {
+    isProcessingRef.current = true;
+
+    try {
+      await task();
+    } finally {
+      isProcessingRef.current = false;
+      setCurrentJob(null);
+    }
+  };
+
+  //
+
+  // Tasks
+  const measureJob = async (job: SimulationJob) => {
+    setCurrentJob(job);
+
+    try {
+      if (lastMeasuredAreaIdRef.current !== job.areaId) {
+        await wait(AREA_SETTLE_MS);
+        lastMeasuredAreaIdRef.current = job.areaId;
+      }
+
+      const pcInSun = await onMeasureTimeSlot(
+        job.timeSlot,
+        parseDate(job.date)
+      );
+
+      if (pcInSun === null) {
+        throw new Error("Nothing was rendered inside the vision mask");
+      }
+
+      setJobs([job.id], {
+        status: "measured",
+        pcInSun: Math.round(pcInSun * 100) / 100,
+        error: null,
+      });
+    } catch (error) {
+      setJobs([job.id], { status: "failed", error: getErrorMessage(error) });
+    }
+  };
+
+  const saveAreaWeek = async (areaWeek: string) => {
+    const areaWeekJobs = jobs.filter((job) => getAreaWeekKey(job) === areaWeek);
+    const jobIds = areaWeekJobs.map(({ id }) => id);
+
+    try {
+      await onSaveSunEvals(
+        areaWeekJobs.map((job) => ({
+          pub_id: job.pubId,
+          area_id: job.areaId,
+          date: job.date,
+          time: getTimeSlotMinutes(job.timeSlot),
+          julian_week: job.julianWeek,
+          pc_in_sun: job.pcInSun || 0,
+        }))
+      );
+
+      setJobs(jobIds, { status: "done", error: null });
+    } catch (error) {
+      setJobs(jobIds, {
+        status: "failed",
+        error: `Saving sun evals failed: ${getErrorMessage(error)}`,
+      });
+    }
+  };
+
+  const markPubProcessed = async (job: SimulationJob) => {
+    try {
+      await onSetPubProcessedForWeek(job.pubId, job.julianWeek);
+
+      updateSimulationQueueState({
+        processedPubWeeks: [...processedPubWeeks, getPubWeekKey(job)],
+      });
+    } catch (error) {
+      const pubWeekJobIds = jobs
+        .filter((other) => getPubWeekKey(other) === getPubWeekKey(job))
+        .map(({ id }) => id);
+
+      setJobs(pubWeekJobIds, {
+        status: "failed",
+        error: `Marking pub processed failed: ${getErrorMessage(error)}`,
+      });
+    }
+  };
+
+  //
+
+  // Effects
+
+  // Work through the queue one task at a time. Each step either moves the
+  // scene towards the next job (pub, then area) or runs a task, and the
+  // resulting state change re-runs this effect for the next step.
+  useEffect(() => {
+    if (!isRunning || isProcessingRef.current) return;
+
+    // Finish off anything already measured before measuring more
+    if (unsavedAreaWeek) {
+      runTask(() => saveAreaWeek(unsavedAreaWeek));
+      return;
+    }
+
+    if (completedPubWeek) {
+      runTask(() => markPubProcessed(completedPubWeek));
+      return;
+    }
+
+    if (!nextPendingJob) {
+      updateSimulationQueueState({ isRunning: false });
+      return;
+    }
+
+    if (selectedPubId !== nextPendingJob.pubId) {
+      onUpdatePubAreaDetails({
+        selectedPubId: nextPendingJob.pubId,
+        selectedPubArea: null,
+      });
+      return;
+    }
+
+    if (!selectedPub || isLoadingAreasForPub) return;
+
+    if (selectedPubArea?.id !== nextPendingJob.areaId) {
+      const area = areasForPub.find(({ id }) => id === nextPendingJob.areaId);
+
+      if (area) {
+        onSelectPubArea(area);
+      } else {
+        setJobs([nextPendingJob.id], {
+          status: "failed",
+          error: "Area no longer exists for this pub",
+        });
+      }
+      return;
+    }
+
+    if (isLoadingTiles) return;
+
+    runTask(() => measureJob(nextPendingJob));
+  });
+
+  //
+
+  // Handlers
+  const onBuildQueue = () => {
+    const day = new Date();
+    const julianWeek = getWeekKeyForDate(day);
+
+    const newJobs = simulationReadyPubs.flatMap((pub) =>
+      allAvailableAreas
+        .filter(
+          (area) =>
+            area.pub_id === pub.id && hasVisionMask(area.vision_mask_points)
+        )
+        .flatMap((area) =>
+          Array.from({ length: LAST_TIME_SLOT + 1 }, (_, timeSlot) => ({
+            id: `${pub.id}-${area.id}-${julianWeek}-${timeSlot}`,
+            pubId: pub.id,
+            areaId: area.id,
+            julianWeek,
+            date: formatDate(day),
+            timeSlot,
+            status: "pending" as const,
+            pcInSun: null,
+            error: null,
+          }))
+        )
+    );
+
+    lastMeasuredAreaIdRef.current = null;
+
+    updateSimulationQueueState({
+      jobs: newJobs,
+      isRunning: false,
+      processedPubWeeks: [],
+    });
+  };
+
+  const onStartQueue = () => {
+    updateSimulationQueueState({ isRunning: true });
+  };
+
+  const onPauseQueue = () => {
+    updateSimulationQueueState({ isRunning: false });
+  };
+
+  const onRetryFailedJobs = () => {
+    updateSimulationJobs((previousJobs) =>
+      previousJobs.map((job) =>
+        job.status === "failed"
+          ? { ...job, status: "pending", pcInSun: null, error: null }
+          : job
+      )
+    );
+  };
+
+  const onClearQueue = () => {
+    updateSimulationQueueState({
+      jobs: [],
+      isRunning: false,
+      processedPubWeeks: [],
+    });
+  };
+
+  return {
+    data: {
+      jobs,
+      isRunning,
+      currentJob,
+
+      // Progress
+      completedJobCount,
+      failedJobs,
+    },
+    operations: {
+      onBuildQueue,
+      onStartQueue,
+      onPauseQueue,
+      onRetryFailedJobs,
+      onClearQueue,
+    },
+  };
+};
+
+export default useSimulationQueue;
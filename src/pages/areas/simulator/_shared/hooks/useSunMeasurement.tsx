@@ -0,0 +1,184 @@
+import { useState } from "react";
+
+// Hooks
+import usePubAreas from "../../../../../_shared/hooks/pubAreas/usePubAreas";
+import useSunEvals from "../../../../../_shared/hooks/sunEvals/useSunEvals";
+import useMapSettings from "../../../../scene/_shared/hooks/useMapSettings";
+
+// Services
+import { sunMeasurement } from "../../../../scene/_shared/services/sunMeasurementService";
+
+// Types
+import { DraftSunEval, VisionMask } from "../../../../../_shared/types";
+
+// Utils
+import { formatDate } from "../../../../../_shared/utils";
+import {
+  getDateForTimeSlot,
+  getTimeSlotMinutes,
+  LAST_TIME_SLOT,
+} from "../../../../../utils/timeSlots";
+import { getWeekKeyForDate } from "../../../../../utils/weekKeys";
+import {
+  calculateSolarEvents,
+  isSunUp,
+} from "../../../../../utils/solarEvents";
+
+// Helpers
+import { getErrorMessage, waitForFrames } from "../helpers";
+
+// Frames to wait after moving the sun so the light and shadows have re-rendered
+const FRAMES_TO_SETTLE = 3;
+
+interface SunMeasurementProps {
+  // Vision mask for the selected area, in client coordinates
+  getScreenMask: () => VisionMask;
+}
+
+interface SunMeasurementData {
+  isMeasuring: boolean;
+  currentPcInSun: number | null;
+  measuredSunEvals: DraftSunEval[];
+
+  // Why the last day measured or save failed, null if it didn't
+  measureError: string | null;
+  saveError: string | null;
+}
+
+interface SunMeasurementOperations {
+  onMeasureCurrentTime: () => number | null;
+  onMeasureTimeSlot: (timeSlot: number, day: Date) => Promise<number | null>;
+  onMeasureDay: () => Promise<DraftSunEval[]>;
+  onSaveMeasuredSunEvals: () => Promise<void>;
+}
+
+interface SunMeasurementResponse {
+  data: SunMeasurementData;
+  operations: SunMeasurementOperations;
+}
+
+const useSunMeasurement = ({
+  getScreenMask,
+}: SunMeasurementProps): SunMeasurementResponse => {
+  //
+
+  // State
+  const [isMeasuring, setIsMeasuring] = useState(false);
+  const [currentPcInSun, setCurrentPcInSun] = useState<number | null>(null);
+  const [measuredSunEvals, setMeasuredSunEvals] = useState<DraftSunEval[]>([]);
+  const [measureError, setMeasureError] = useState<string | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  //
+
+  // Hooks
+  const {
+    data: { selectedPub, selectedPubArea },
+  } = usePubAreas();
+
+  const {
+    operations: { onSaveSunEvals },
+  } = useSunEvals();
+
+  const {
+    data: { timeOfDay },
+    operations: { onSetTimeOfDay },
+  } = useMapSettings();
+
+  //
+
+  // Handlers
+  const onMeasureCurrentTime = () => {
+    const measurement = sunMeasurement.measure(getScreenMask());
+    const pcInSun = measurement ? measurement.pcInSun : null;
+
+    setCurrentPcInSun(pcInSun);
+
+    return pcInSun;
+  };
+
+  const onMeasureTimeSlot = async (timeSlot: number, day: Date) => {
+    if (!selectedPub || !sunMeasurement.isReady()) return null;
+
+    const slotTime = getDateForTimeSlot(timeSlot, day);
+    const solarEvents = calculateSolarEvents(
+      day,
+      selectedPub.latitude,
+      selectedPub.longitude
+    );
+
+    // No need to render once the sun has set
+    if (!isSunUp(slotTime, solarEvents)) return 0;
+
+    onSetTimeOfDay(slotTime);
+    await waitForFrames(FRAMES_TO_SETTLE);
+
+    return onMeasureCurrentTime();
+  };
+
+  const onMeasureDay = async () => {
+    if (!selectedPub || !selectedPubArea || !sunMeasurement.isReady()) {
+      return [];
+    }
+
+    setIsMeasuring(true);
+    setMeasureError(null);
+
+    const day = new Date(timeOfDay);
+    const sunEvals: DraftSunEval[] = [];
+
+    try {
+      for (let timeSlot = 0; timeSlot <= LAST_TIME_SLOT; timeSlot++) {
+        const pcInSun = (await onMeasureTimeSlot(timeSlot, day)) ?? 0;
+
+        sunEvals.push({
+          pub_id: selectedPub.id,
+          area_id: selectedPubArea.id,
+          date: formatDate(day),
+          time: getTimeSlotMinutes(timeSlot),
+          julian_week: getWeekKeyForDate(day),
+          pc_in_sun: Math.round(pcInSun * 100) / 100,
+        });
+      }
+    } catch (error) {
+      console.error("Error measuring sun for the day:", error);
+      setMeasureError(getErrorMessage(error));
+      return [];
+    } finally {
+      setIsMeasuring(false);
+    }
+
+    setMeasuredSunEvals(sunEvals);
+
+    return sunEvals;
+  };
+
+  const onSaveMeasuredSunEvals = async () => {
+    setSaveError(null);
+
+    try {
+      await onSaveSunEvals(measuredSunEvals);
+    } catch (error) {
+      console.error("Error saving measured sun evals:", error);
+      setSaveError(getErrorMessage(error));
+    }
+  };
+
+  return {
+    data: {
+      isMeasuring,
+      currentPcInSun,
+      measuredSunEvals,
+      measureError,
+      saveError,
+    },
+    operations: {
+      onMeasureCurrentTime,
+      onMeasureTimeSlot,
+      onMeasureDay,
+      onSaveMeasuredSunEvals,
+    },
+  };
+};
+
+export default useSunMeasurement;
@@ -0,0 +1,85 @@
+import React, { useState, useEffect } from "react";
+
+// Context
+import {
+  SimulationQueueContext,
+  SimulationQueueState,
+  SimulationJob,
+} from "./useSimulationQueueContext";
+
+const LOCAL_STORAGE_KEY = "simulationQueueState";
+
+const defaultState: SimulationQueueState = {
+  jobs: [],
+  isRunning: false,
+  processedPubWeeks: [],
+
+  // Timestamp for localStorage
+  timestamp: Date.now(),
+};
+
+export const SimulationQueueProvider: React.FC<{
+  children: React.ReactNode;
+}> = ({ children }) => {
+  const [simulationQueueState, setSimulationQueueState] =
+    useState<SimulationQueueState>(() => {
+      const storedState = localStorage.getItem(LOCAL_STORAGE_KEY);
+
+      if (storedState) {
+        const parsedState: SimulationQueueState = JSON.parse(storedState);
+        const now = Date.now();
+        const oneHour = 60 * 60 * 1000; // 1 hour in milliseconds
+
+        // Unfinished queues never expire, so a closed tab can pick them back
+        // up however long it's been. Finished ones go after an hour.
+        const isQueueFinished = parsedState.jobs.every(
+          ({ status }) => status === "done"
+        );
+
+        if (!isQueueFinished || now - parsedState.timestamp < oneHour) {
+          // Nothing is running after a reload, so the queue waits to be resumed
+          return { ...parsedState, isRunning: false };
+        }
+      }
+
+      return defaultState;
+    });
+
+  useEffect(() => {
+    // Save to localStorage whenever the state changes, including the current timestamp
+    const stateToStore: SimulationQueueState = {
+      ...simulationQueueState,
+      timestamp: Date.now(),
+    };
+    localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(stateToStore));
+  }, [simulationQueueState]);
+
+  const updateSimulationQueueState = (
+    newState: Partial<SimulationQueueState>
+  ) => {
+    setSimulationQueueState((prevState) => ({ ...prevState, ...newState }));
+  };
+
+  // Job updates can land after several awaits, so always apply them to the
+  // latest jobs rather than a captured copy
+  const updateSimulationJobs = (
+    updater: (jobs: SimulationJob[]) => SimulationJob[]
+  ) => {
+    setSimulationQueueState((prevState) => ({
+      ...prevState,
+      jobs: updater(prevState.jobs),
+    }));
+  };
+
+  return (
+    <SimulationQueueContext.Provider
+      value={{
+        simulationQueueState,
+        updateSimulationQueueState,
+        updateSimulationJobs,
+      }}
+    >
+      {children}
+    </SimulationQueueContext.Provider>
+  );
+};
@@ -0,0 +1,54 @@
+import { createContext, useContext } from "react";
+
+// Types
+
+// pending -> measured -> done (saved), or failed at either step
+export type SimulationJobStatus = "pending" | "measured" | "done" | "failed";
+
+export interface SimulationJob {
+  id: string;
+  pubId: number;
+  areaId: number;
+  julianWeek: number;
+
+  // Day (YYYY-MM-DD) the week is simulated on
+  date: string;
+  timeSlot: number;
+
+  status: SimulationJobStatus;
+  pcInSun: number | null;
+  error: string | null;
+}
+
+export interface SimulationQueueState {
+  jobs: SimulationJob[];
+  isRunning: boolean;
+
+  // `${pubId}-${julianWeek}` keys already marked as processed on the pub
+  processedPubWeeks: string[];
+
+  // Timestamp for localStorage
+  timestamp: number;
+}
+
+export interface SimulationQueueContextType {
+  simulationQueueState: SimulationQueueState;
+  updateSimulationQueueState: (newState: Partial<SimulationQueueState>) => void;
+  updateSimulationJobs: (
+    updater: (jobs: SimulationJob[]) => SimulationJob[]
+  ) => void;
+}
+
+export const SimulationQueueContext = createContext<
+  SimulationQueueContextType | undefined
+>(undefined);
+
+export const useSimulationQueueContext = (): SimulationQueueContextType => {
+  const context = useContext(SimulationQueueContext);
+  if (!context) {
+    throw new Error(
+      "useSimulationQueueContext must be used within a SimulationQueueProvider"
+    );
+  }
+  return context;
+};
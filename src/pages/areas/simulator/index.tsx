@@ -2,17 +2,41 @@ import { useRef, useEffect } from "react";
 
 // Components
 import SimplePhotorealisticTilesMap from "../identifier/_shared/components/SimplePhotorealisticTilesMap";
+import SimulationQueuePanel from "./_shared/components/SimulationQueuePanel";
 
 // Hooks
 import usePubAreas from "../../../_shared/hooks/pubAreas/usePubAreas";
 import useMapSettings from "../../scene/_shared/hooks/useMapSettings";
+import useSunMeasurement from "./_shared/hooks/useSunMeasurement";
+
+// Services
+import { maskProjection } from "../../scene/_shared/services/maskProjectionService";
+
+// Utils
+import { calculateSolarEvents, isSunUp } from "../../../utils/solarEvents";
+import {
+  getDateForTimeSlot,
+  getMinutesOfDay,
+  TIME_SLOT_CONFIG,
+  TIME_SLOT_MINUTES,
+} from "../../../utils/timeSlots";
+import {
+  createVisionMask,
+  denormalizeVisionMask,
+  fillVisionMask,
+  getCanvasView,
+  mapVisionMask,
+  parseVisionMask,
+  VISION_MASK_CANVAS_HEIGHT,
+  VISION_MASK_CANVAS_WIDTH,
+} from "../../../utils/visionMask";
 
 // Icons
 import { ChevronLeft, ChevronRight } from "lucide-react";
 
 // Constants
-export const CANVAS_WIDTH = 800;
-export const CANVAS_HEIGHT = 600;
+const CANVAS_WIDTH = VISION_MASK_CANVAS_WIDTH;
+const CANVAS_HEIGHT = VISION_MASK_CANVAS_HEIGHT;
 
 const PubAreaSimulator = () => {
   //
@@ -32,24 +56,50 @@ const PubAreaSimulator = () => {
   // Refs
   const overlayRef = useRef<HTMLCanvasElement>(null);
 
+  // Convert the vision mask from overlay canvas to client coordinates
+  const getScreenMask = () => {
+    const canvas = overlayRef.current;
+    if (!canvas) return createVisionMask();
+
+    const mask = denormalizeVisionMask(
+      parseVisionMask(selectedPubArea?.vision_mask_points),
+      getCanvasView(canvas, maskProjection.getViewRect())
+    );
+    const rect = canvas.getBoundingClientRect();
+
+    return mapVisionMask(mask, ({ x, y }) => ({
+      x: rect.left + (x * rect.width) / CANVAS_WIDTH,
+      y: rect.top + (y * rect.height) / CANVAS_HEIGHT,
+    }));
+  };
+
+  const {
+    data: {
+      isMeasuring,
+      currentPcInSun,
+      measuredSunEvals,
+      measureError,
+      saveError,
+    },
+    operations: { onMeasureCurrentTime, onMeasureDay, onSaveMeasuredSunEvals },
+  } = useSunMeasurement({ getScreenMask });
+
   // Automation button handlers
   const handleResetTime = () => {
-    const noon = new Date();
-    noon.setHours(12, 0, 0, 0);
-    onSetTimeOfDay(noon);
+    onSetTimeOfDay(getDateForTimeSlot(0));
   };
 
   const handleIncTime = () => {
     let current =
       timeOfDay instanceof Date ? new Date(timeOfDay) : new Date(timeOfDay);
-    current = new Date(current.getTime() + 15 * 60 * 1000);
+    current = new Date(current.getTime() + TIME_SLOT_MINUTES * 60 * 1000);
     onSetTimeOfDay(current);
   };
 
   const handleDecTime = () => {
     let current =
       timeOfDay instanceof Date ? new Date(timeOfDay) : new Date(timeOfDay);
-    current = new Date(current.getTime() - 15 * 60 * 1000);
+    current = new Date(current.getTime() - TIME_SLOT_MINUTES * 60 * 1000);
     onSetTimeOfDay(current);
   };
 
@@ -66,16 +116,35 @@ const PubAreaSimulator = () => {
   //
 
   // Variables
-  const visionMaskPoints = selectedPubArea?.vision_mask_points || [];
+  const visionMaskPoints = selectedPubArea?.vision_mask_points;
 
   const isOnLastArea =
     selectedPubArea &&
     selectedPubArea?.id === areasForPub[areasForPub.length - 1]?.id;
 
   const decTimeDisabled =
-    timeOfDay instanceof Date && timeOfDay.getHours() === 12;
+    timeOfDay instanceof Date &&
+    getMinutesOfDay(timeOfDay) <= TIME_SLOT_CONFIG.startMinutes;
+
+  // Stop stepping forward once the next slot is after sunset at the pub
+  const solarEvents = selectedPub
+    ? calculateSolarEvents(
+        new Date(timeOfDay),
+        selectedPub.latitude,
+        selectedPub.longitude
+      )
+    : null;
+
+  const nextTimeOfDay = new Date(
+    new Date(timeOfDay).getTime() + TIME_SLOT_MINUTES * 60 * 1000
+  );
+  const isNextSlotAfterSunset =
+    !!solarEvents && !isSunUp(nextTimeOfDay, solarEvents);
+
   const incTimeDisabled =
-    timeOfDay instanceof Date && timeOfDay.getHours() === 21;
+    (timeOfDay instanceof Date &&
+      getMinutesOfDay(timeOfDay) >= TIME_SLOT_CONFIG.endMinutes) ||
+    isNextSlotAfterSunset;
 
   //
 
@@ -93,20 +162,18 @@ const PubAreaSimulator = () => {
     ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
     ctx.restore();
 
-    // If we have a polygon, cut a hole in the mask
-    if (visionMaskPoints.length > 1) {
-      ctx.save();
-      // Set compositing to punch out the polygon area
-      ctx.globalCompositeOperation = "destination-out";
-      ctx.beginPath();
-      ctx.moveTo(visionMaskPoints[0].x, visionMaskPoints[0].y);
-      for (let i = 1; i < visionMaskPoints.length; i++) {
-        ctx.lineTo(visionMaskPoints[i].x, visionMaskPoints[i].y);
-      }
-      ctx.closePath();
-      ctx.fill();
-      ctx.restore();
-    }
+    // Cut the mask's polygons out of the overlay, leaving their holes covered
+    ctx.save();
+    // Set compositing to punch out the polygon area
+    ctx.globalCompositeOperation = "destination-out";
+    fillVisionMask(
+      ctx,
+      denormalizeVisionMask(
+        parseVisionMask(visionMaskPoints),
+        getCanvasView(canvas, maskProjection.getViewRect())
+      )
+    );
+    ctx.restore();
   }, [visionMaskPoints]);
 
   return (
@@ -164,6 +231,11 @@ const PubAreaSimulator = () => {
               {selectedPubArea?.id ? `a-${selectedPubArea?.id}` : "a-null"}
             </p>
             <p className="font-medium whitespace-nowrap">{formattedTime}</p>
+            <p id="current-pc-in-sun" className="whitespace-nowrap">
+              {currentPcInSun === null
+                ? "sun-null"
+                : `sun-${currentPcInSun.toFixed(1)}`}
+            </p>
           </div>
 
           {/* Automation buttons for system interaction */}
@@ -196,6 +268,33 @@ const PubAreaSimulator = () => {
               Inc Time
               <ChevronRight className="w-4 h-4" />
             </button>
+            <button
+              className="flex flex-row items-center whitespace-nowrap"
+              onClick={onMeasureCurrentTime}
+              id="measure-time"
+              disabled={isMeasuring}
+              type="button"
+            >
+              Measure
+            </button>
+            <button
+              className="flex flex-row items-center whitespace-nowrap"
+              onClick={onMeasureDay}
+              id="measure-day"
+              disabled={isMeasuring}
+              type="button"
+            >
+              Measure Day
+            </button>
+            <button
+              className="flex flex-row items-center whitespace-nowrap"
+              onClick={onSaveMeasuredSunEvals}
+              id="save-sun-evals"
+              disabled={isMeasuring || measuredSunEvals.length === 0}
+              type="button"
+            >
+              Save Evals
+            </button>
             {!isOnLastArea && (
               <button
                 className="flex flex-row items-center whitespace-nowrap"
@@ -217,8 +316,20 @@ const PubAreaSimulator = () => {
               Next pub <ChevronRight className="w-4 h-4" />
             </button>
           </div>
+
+          {/* Failures for the automation to pick up, and anyone watching */}
+          {(measureError || saveError) && (
+            <div className="flex flex-col gap-1 p-1 text-red-600">
+              {measureError && (
+                <p id="measure-error">Measuring failed: {measureError}</p>
+              )}
+              {saveError && <p id="save-error">Saving failed: {saveError}</p>}
+            </div>
+          )}
         </div>
       </div>
+
+      <SimulationQueuePanel getScreenMask={getScreenMask} />
     </div>
   );
 };
@@ -6,6 +6,9 @@ import {
   useImperativeHandle,
 } from "react";
 
+// Utils
+import { getPolygonArea } from "../../../../../utils/geodesic";
+
 // API key from environment variables
 const GOOGLE_MAPS_API_KEY = import.meta.env.VITE_GOOGLE_MAPS_API_KEY;
 
@@ -19,7 +22,7 @@ declare global {
 // Add script to load Google Maps API
 const loadGoogleMapsScript = () => {
   const script = document.createElement("script");
-  script.src = `https://maps.googleapis.com/maps/api/js?key=${GOOGLE_MAPS_API_KEY}&libraries=drawing,geometry&callback=Function.prototype`;
+  script.src = `https://maps.googleapis.com/maps/api/js?key=${GOOGLE_MAPS_API_KEY}&libraries=drawing&callback=Function.prototype`;
   script.async = true;
   script.defer = true;
   document.head.appendChild(script);
@@ -33,9 +36,32 @@ interface PolygonCoordinate {
   lng: number;
 }
 
+const getPolygonCoordinates = (
+  shape: google.maps.Polygon
+): PolygonCoordinate[] =>
+  shape
+    .getPath()
+    .getArray()
+    .map((point) => ({ lat: point.lat(), lng: point.lng() }));
+
+// Outside the component so the map isn't rebuilt on every render
+const DEFAULT_CENTER = { lat: 51.5074, lng: -0.1278 };
+
+const POLYGON_OPTIONS = {
+  fillColor: "#4285F4",
+  fillOpacity: 0.3,
+  strokeWeight: 2,
+  strokeColor: "#4285F4",
+  clickable: true,
+  editable: true,
+};
+
 interface MapDrawingComponentProps {
   onAreaChange?: (area: number) => void;
   onPolygonComplete?: (coordinates: PolygonCoordinate[]) => void;
+
+  // A vertex was moved, added or removed, or a saved polygon was loaded
+  onPolygonChange?: (coordinates: PolygonCoordinate[]) => void;
   initialCenter?: { lat: number; lng: number };
   initialZoom?: number;
   height?: string;
@@ -45,6 +71,7 @@ interface MapDrawingComponentProps {
 export interface MapDrawingRef {
   clearShape: () => void;
   getShapeCoordinates: () => PolygonCoordinate[] | null;
+  loadShape: (coordinates: PolygonCoordinate[]) => void;
   calculateCurrentArea: () => number;
   isMapReady: boolean;
   getMap: () => google.maps.Map | null;
@@ -57,7 +84,8 @@ const MapDrawingComponent = forwardRef<MapDrawingRef, MapDrawingComponentProps>(
     {
       onAreaChange,
       onPolygonComplete,
-      initialCenter = { lat: 51.5074, lng: -0.1278 },
+      onPolygonChange,
+      initialCenter = DEFAULT_CENTER,
       initialZoom = 18,
       height = "500px",
       className = "",
@@ -74,14 +102,16 @@ const MapDrawingComponent = forwardRef<MapDrawingRef, MapDrawingComponentProps>(
     const loadingDivRef = useRef<HTMLDivElement | null>(null);
     const isMountedRef = useRef(true);
 
+    // A polygon asked for before the map was ready, drawn once it is
+    const pendingShapeRef = useRef<PolygonCoordinate[] | null>(null);
+
     // Calculate area for a polygon
     const calculateArea = useCallback(
       (shape: google.maps.Polygon): number => {
-        if (!shape || !window.google || !window.google.maps) return 0;
+        if (!shape) return 0;
 
         try {
-          const path = shape.getPath();
-          const area = window.google.maps.geometry.spherical.computeArea(path);
+          const area = getPolygonArea(getPolygonCoordinates(shape));
 
           if (onAreaChange && isMountedRef.current) {
             onAreaChange(area);
@@ -101,24 +131,97 @@ const MapDrawingComponent = forwardRef<MapDrawingRef, MapDrawingComponentProps>(
       if (!shapeRef.current) return null;
 
       try {
-        const path = shapeRef.current.getPath();
-        const coordinates: PolygonCoordinate[] = [];
-
-        for (let i = 0; i < path.getLength(); i++) {
-          const point = path.getAt(i);
-          coordinates.push({
-            lat: point.lat(),
-            lng: point.lng(),
-          });
-        }
-
-        return coordinates;
+        return getPolygonCoordinates(shapeRef.current);
       } catch (e) {
         console.error("Error getting coordinates:", e);
         return null;
       }
     }, []);
 
+    // Make a polygon the current shape and keep the parent up to date as its
+    // vertices are edited
+    const attachShape = useCallback(
+      (shape: google.maps.Polygon) => {
+        // Clear previous shape
+        if (shapeRef.current && shapeRef.current !== shape) {
+          shapeRef.current.setMap(null);
+        }
+
+        shapeRef.current = shape;
+
+        // Calculate area
+        calculateArea(shape);
+
+        const path = shape.getPath();
+        const pathUpdateHandler = () => {
+          if (isMountedRef.current) {
+            // Recalculate area
+            calculateArea(shape);
+
+            // Update coordinates in parent if available
+            const updatedCoordinates = getShapeCoordinates();
+            if (updatedCoordinates && onPolygonChange) {
+              onPolygonChange(updatedCoordinates);
+            }
+          }
+        };
+
+        // Listen for shape editing events
+        window.google.maps.event.addListener(path, "set_at", pathUpdateHandler);
+        window.google.maps.event.addListener(
+          path,
+          "insert_at",
+          pathUpdateHandler
+        );
+        window.google.maps.event.addListener(
+          path,
+          "remove_at",
+          pathUpdateHandler
+        );
+      },
+      [calculateArea, getShapeCoordinates, onPolygonChange]
+    );
+
+    // Draw an editable polygon, e.g. a saved or imported one, and zoom to it
+    const drawShape = useCallback(
+      (coordinates: PolygonCoordinate[]) => {
+        const map = mapInstanceRef.current;
+        if (!map) return;
+
+        const shape = new window.google.maps.Polygon({
+          ...POLYGON_OPTIONS,
+          paths: coordinates,
+          map,
+        });
+
+        attachShape(shape);
+        drawingManagerRef.current?.setDrawingMode(null);
+
+        const bounds = new window.google.maps.LatLngBounds();
+        coordinates.forEach((coordinate) => bounds.extend(coordinate));
+        map.fitBounds(bounds);
+
+        if (onPolygonChange) {
+          onPolygonChange(coordinates);
+        }
+      },
+      [attachShape, onPolygonChange]
+    );
+
+    const loadShape = useCallback(
+      (coordinates: PolygonCoordinate[]) => {
+        if (coordinates.length < 3) return;
+
+        if (!mapInstanceRef.current) {
+          pendingShapeRef.current = coordinates;
+          return;
+        }
+
+        drawShape(coordinates);
+      },
+      [drawShape]
+    );
+
     // Clear the current shape
     const clearShape = useCallback(() => {
       if (shapeRef.current) {
@@ -233,19 +336,17 @@ const MapDrawingComponent = forwardRef<MapDrawingRef, MapDrawingComponentProps>(
               position: window.google.maps.ControlPosition.TOP_CENTER,
               drawingModes: [window.google.maps.drawing.OverlayType.POLYGON],
             },
-            polygonOptions: {
-              fillColor: "#4285F4",
-              fillOpacity: 0.3,
-              strokeWeight: 2,
-              strokeColor: "#4285F4",
-              clickable: true,
-              editable: true,
-            },
+            polygonOptions: POLYGON_OPTIONS,
           });
 
           drawingManager.setMap(map);
           drawingManagerRef.current = drawingManager;
 
+          if (pendingShapeRef.current) {
+            drawShape(pendingShapeRef.current);
+            pendingShapeRef.current = null;
+          }
+
           // Handle shape drawing completion
           window.google.maps.event.addListener(
             drawingManager,
@@ -259,17 +360,8 @@ const MapDrawingComponent = forwardRef<MapDrawingRef, MapDrawingComponentProps>(
               if (
                 event.type === window.google.maps.drawing.OverlayType.POLYGON
               ) {
-                // Clear previous shape
-                if (shapeRef.current) {
-                  shapeRef.current.setMap(null);
-                }
-
                 // Store the new shape
-                const newShape = event.overlay as google.maps.Polygon;
-                shapeRef.current = newShape;
-
-                // Calculate area
-                calculateArea(newShape);
+                attachShape(event.overlay as google.maps.Polygon);
 
                 // Get and store the coordinates
                 const coordinates = getShapeCoordinates();
@@ -278,38 +370,6 @@ const MapDrawingComponent = forwardRef<MapDrawingRef, MapDrawingComponentProps>(
                 if (coordinates && onPolygonComplete) {
                   onPolygonComplete(coordinates);
                 }
-
-                // Add listeners for shape editing
-                const path = newShape.getPath();
-                const pathUpdateHandler = () => {
-                  if (isMountedRef.current) {
-                    // Recalculate area
-                    calculateArea(newShape);
-
-                    // Update coordinates in parent if available
-                    const updatedCoordinates = getShapeCoordinates();
-                    if (updatedCoordinates && onPolygonComplete) {
-                      onPolygonComplete(updatedCoordinates);
-                    }
-                  }
-                };
-
-                // Listen for shape editing events
-                window.google.maps.event.addListener(
-                  path,
-                  "set_at",
-                  pathUpdateHandler
-                );
-                window.google.maps.event.addListener(
-                  path,
-                  "insert_at",
-                  pathUpdateHandler
-                );
-                window.google.maps.event.addListener(
-                  path,
-                  "remove_at",
-                  pathUpdateHandler
-                );
               }
             }
           );
@@ -364,7 +424,8 @@ const MapDrawingComponent = forwardRef<MapDrawingRef, MapDrawingComponentProps>(
     }, [
       initialCenter,
       initialZoom,
-      calculateArea,
+      attachShape,
+      drawShape,
       getShapeCoordinates,
       onPolygonComplete,
     ]);
@@ -375,6 +436,7 @@ const MapDrawingComponent = forwardRef<MapDrawingRef, MapDrawingComponentProps>(
       () => ({
         clearShape,
         getShapeCoordinates,
+        loadShape,
         calculateCurrentArea: () =>
           shapeRef.current ? calculateArea(shapeRef.current) : 0,
         // More reliable map ready check
@@ -387,7 +449,14 @@ const MapDrawingComponent = forwardRef<MapDrawingRef, MapDrawingComponentProps>(
         setCenter,
         setZoom,
       }),
-      [clearShape, getShapeCoordinates, calculateArea, setCenter, setZoom]
+      [
+        clearShape,
+        getShapeCoordinates,
+        loadShape,
+        calculateArea,
+        setCenter,
+        setZoom,
+      ]
     );
 
     return (
@@ -1,4 +1,4 @@
-import React, { useMemo, useEffect } from "react";
+import React, { useMemo, useEffect, useState } from "react";
 
 // Types
 import { PubArea } from "../../../../../_shared/types";
@@ -17,20 +17,25 @@ import {
 interface SavedAreaProps {
   areas: PubArea[];
   onSelectArea: (areaId: number) => void;
+  onEditArea: (areaId: number) => void;
   selectedAreaId: number | null;
 }
 
 const SavedAreas: React.FC<SavedAreaProps> = ({
   areas,
   onSelectArea,
+  onEditArea,
   selectedAreaId,
 }) => {
   // Hooks
   const {
-    data: { selectedPub, isSettingPubAreasMeasured },
-    operations: { onSetPubAreasMeasuredForPub },
+    data: { selectedPub, isSettingPubAreasMeasured, isSavingSeatingCapacity },
+    operations: { onSetPubAreasMeasuredForPub, onSaveSeatingCapacity },
   } = usePubAreas();
 
+  // Counted seats for the selected area, blank to use the estimate
+  const [seatingCapacityInput, setSeatingCapacityInput] = useState("");
+
   // Variables
   const { has_areas_measured = false } = selectedPub || {};
 
@@ -85,6 +90,27 @@ const SavedAreas: React.FC<SavedAreaProps> = ({
     }
   }, [areas.length]);
 
+  const selectedSeatingCapacity =
+    areas.find(({ id }) => id === selectedAreaId)?.seating_capacity ?? null;
+
+  useEffect(() => {
+    setSeatingCapacityInput(selectedSeatingCapacity?.toString() || "");
+  }, [selectedAreaId, selectedSeatingCapacity]);
+
+  //
+
+  // Handlers
+
+  const handleSaveSeatingCapacity = (areaId: number) => {
+    const seats = seatingCapacityInput.trim()
+      ? Math.max(0, Math.round(Number(seatingCapacityInput)))
+      : null;
+
+    if (seats !== null && !Number.isFinite(seats)) return;
+
+    onSaveSeatingCapacity({ pub_area_id: areaId, seating_capacity: seats });
+  };
+
   return (
     <div className="bg-white p-4 rounded-lg shadow-md">
       <div className="flex justify-between items-center mb-3">
@@ -166,14 +192,52 @@ const SavedAreas: React.FC<SavedAreaProps> = ({
                         </p>
                       </div>
 
+                      <p className="text-xs text-gray-500 mt-1">
+                        {area.seating_capacity != null
+                          ? `${area.seating_capacity} seats (counted)`
+                          : `~${area.estimated_seats} seats (estimated)`}
+                      </p>
+
                       <p className="text-xs text-gray-400 mt-1">
                         Added on {formatDate(area.created_at)}
                       </p>
                     </div>
                   </div>
+                  {selectedAreaId === area.id && (
+                    <div
+                      className="mt-2 flex items-center gap-2"
+                      onClick={(e) => e.stopPropagation()}
+                    >
+                      <input
+                        type="number"
+                        min={0}
+                        step={1}
+                        value={seatingCapacityInput}
+                        onChange={(e) =>
+                          setSeatingCapacityInput(e.target.value)
+                        }
+                        placeholder={`~${area.estimated_seats}`}
+                        className="w-20 px-2 py-1 text-xs border rounded"
+                      />
+                      <button
+                        disabled={isSavingSeatingCapacity}
+                        onClick={() => handleSaveSeatingCapacity(area.id)}
+                        className="text-xs text-blue-600 hover:text-blue-800 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {isSavingSeatingCapacity ? "Saving..." : "Set Seats"}
+                      </button>
+                    </div>
+                  )}
                   {selectedAreaId === area.id && (
                     <div className="mt-2 flex justify-end">
-                      <button className="text-xs text-blue-600 hover:text-blue-800 mr-3">
+                      <button
+                        disabled={(area.coordinates?.length || 0) < 3}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onEditArea(area.id);
+                        }}
+                        className="text-xs text-blue-600 hover:text-blue-800 mr-3 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
                         Edit
                       </button>
                       <button className="text-xs text-red-600 hover:text-red-800">
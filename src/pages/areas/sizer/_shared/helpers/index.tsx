@@ -62,6 +62,22 @@ export const getAreaTypeIcon = (type: string) => {
   }
 };
 
+// Save a generated file, e.g. exported areas
+export const downloadFile = (
+  fileName: string,
+  contents: string,
+  type = "application/json"
+) => {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const link = document.createElement("a");
+
+  link.href = url;
+  link.download = fileName;
+  link.click();
+
+  URL.revokeObjectURL(url);
+};
+
 // Get appropriate status indicator for individual area
 export const getAreaMeasurementStatus = (area: PubArea) => {
   if (area.floor_area) {
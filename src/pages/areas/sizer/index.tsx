@@ -1,4 +1,4 @@
-import React, { useRef, useState, useEffect } from "react";
+import React, { useRef, useState, useEffect, useCallback } from "react";
 
 // Components
 import MapDrawingComponent, {
@@ -17,6 +17,16 @@ import usePubs from "../../../_shared/hooks/pubs/usePubs";
 // Types
 import { Pub } from "../../../_shared/types";
 
+// Helpers
+import { downloadFile } from "./_shared/helpers";
+import {
+  createPubAreasFeatureCollection,
+  parsePolygonFile,
+  POLYGON_IMPORT_ERROR_MESSAGES,
+  PolygonImportError,
+} from "../../../utils/geoFormats";
+import { measurePolygon } from "../../../utils/geodesic";
+
 const PubAreaSizer: React.FC = () => {
   // State
   const [area, setArea] = useState<number>(0);
@@ -26,6 +36,14 @@ const PubAreaSizer: React.FC = () => {
   >(null);
   const [showStaticMap, setShowStaticMap] = useState<boolean>(false);
 
+  // A saved or imported polygon waiting to be drawn on the editable map
+  const [shapeToLoad, setShapeToLoad] = useState<PolygonCoordinate[] | null>(
+    null
+  );
+  const [importError, setImportError] = useState<PolygonImportError | null>(
+    null
+  );
+
   // Refs
   const mapRef = useRef<MapDrawingRef>(null);
 
@@ -39,23 +57,35 @@ const PubAreaSizer: React.FC = () => {
     data: { pubs = [] },
   } = usePubs();
 
-  // Handle area changes from the map
-  const handleAreaChange = (newArea: number): void => {
+  // Handle area changes from the map. The map is rebuilt whenever its
+  // callbacks change, so they're kept stable.
+  const handleAreaChange = useCallback((newArea: number): void => {
     setArea(newArea);
-  };
+  }, []);
 
   // Handle polygon completion
-  const handlePolygonComplete = (coordinates: PolygonCoordinate[]): void => {
-    if (coordinates.length === 0) {
-      setCurrentPolygon(null);
-      return;
-    }
+  const handlePolygonComplete = useCallback(
+    (coordinates: PolygonCoordinate[]): void => {
+      if (coordinates.length === 0) {
+        setCurrentPolygon(null);
+        return;
+      }
 
-    setCurrentPolygon(coordinates);
+      setCurrentPolygon(coordinates);
 
-    // Show the polygon
-    toggleMapView();
-  };
+      // Show the polygon
+      setShowStaticMap(true);
+    },
+    []
+  );
+
+  // Handle vertex edits, staying on the editable map
+  const handlePolygonChange = useCallback(
+    (coordinates: PolygonCoordinate[]): void => {
+      setCurrentPolygon(coordinates);
+    },
+    []
+  );
 
   // Handle pub selection from list
   const handleSelectPub = (pub: Pub): void => {
@@ -111,6 +141,56 @@ const PubAreaSizer: React.FC = () => {
     }
   };
 
+  // Re-open a saved area's polygon so its vertices can be moved
+  const handleEditArea = (areaId: number): void => {
+    handleSelectArea(areaId);
+
+    const selectedArea = areasForPub.find((area) => area.id === areaId);
+    if (selectedArea?.coordinates?.length) {
+      setShapeToLoad(selectedArea.coordinates);
+    }
+  };
+
+  // Load a polygon from a GeoJSON or KML file, ready to adjust and save
+  const handleImportFile = async (
+    e: React.ChangeEvent<HTMLInputElement>
+  ): Promise<void> => {
+    const file = e.target.files?.[0];
+
+    // Let the same file be picked again
+    e.target.value = "";
+
+    if (!file) return;
+
+    const { coordinates, error } = parsePolygonFile(
+      await file.text(),
+      file.name
+    );
+
+    setImportError(error);
+    if (error) return;
+
+    setShowStaticMap(false);
+    setShapeToLoad(coordinates);
+  };
+
+  // Download every area of the pub as a GeoJSON FeatureCollection
+  const handleExportAreas = (): void => {
+    if (!selectedPub) return;
+
+    const featureCollection = createPubAreasFeatureCollection(
+      selectedPub,
+      areasForPub
+    );
+    const fileName = `${selectedPub.name.toLowerCase().replace(/[^a-z0-9]+/g, "-")}-areas.geojson`;
+
+    downloadFile(
+      fileName,
+      JSON.stringify(featureCollection, null, 2),
+      "application/geo+json"
+    );
+  };
+
   const onGoToNextPub = () => {
     // Second filter: Only show pubs that need measurement (optional)
     const unMeaseredPubs = pubs.filter(
@@ -128,6 +208,13 @@ const PubAreaSizer: React.FC = () => {
   // Variables
   const { has_areas_measured = false } = selectedPub || {};
 
+  const measurement = currentPolygon ? measurePolygon(currentPolygon) : null;
+  const isSaveDisabled =
+    !selectedAreaId ||
+    area === 0 ||
+    !currentPolygon ||
+    !!measurement?.isSelfIntersecting;
+
   // Check map readiness on mount
   useEffect(() => {
     const checkMapReady = setInterval(() => {
@@ -145,6 +232,14 @@ const PubAreaSizer: React.FC = () => {
     return () => clearInterval(checkMapReady);
   }, [selectedPub]);
 
+  // Draw a waiting polygon once the editable map is showing
+  useEffect(() => {
+    if (!shapeToLoad || showStaticMap || !mapRef.current) return;
+
+    mapRef.current.loadShape(shapeToLoad);
+    setShapeToLoad(null);
+  }, [shapeToLoad, showStaticMap]);
+
   // Clear the current area
   const clearArea = (): void => {
     if (mapRef.current) {
@@ -157,17 +252,17 @@ const PubAreaSizer: React.FC = () => {
 
   // Toggle between editable and static map views
   const toggleMapView = (): void => {
+    // The editable map starts empty, so bring the polygon back with it
+    if (showStaticMap && currentPolygon) {
+      setShapeToLoad(currentPolygon);
+    }
+
     setShowStaticMap(!showStaticMap);
   };
 
   // Save the current area measurement to the selected pub area
   const handleSaveFloorArea = () => {
-    if (
-      !selectedAreaId ||
-      area === 0 ||
-      !currentPolygon ||
-      currentPolygon.length < 3
-    ) {
+    if (isSaveDisabled || !currentPolygon || currentPolygon.length < 3) {
       return;
     }
 
@@ -209,6 +304,17 @@ const PubAreaSizer: React.FC = () => {
             {currentPolygon && (
               <div className="text-xs text-gray-500 mb-3">
                 <p>Shape has {currentPolygon.length} points</p>
+                {measurement && (
+                  <p className="mt-1">
+                    Perimeter {measurement.perimeter.toFixed(1)} m
+                  </p>
+                )}
+                {measurement?.isSelfIntersecting && (
+                  <p className="mt-1 text-red-600">
+                    The edges cross each other, move the points so they don't
+                    before saving
+                  </p>
+                )}
                 <p className="mt-1 text-green-600">
                   Polygon is visible on the map
                 </p>
@@ -230,34 +336,61 @@ const PubAreaSizer: React.FC = () => {
               >
                 Clear
               </button>
-              {has_areas_measured ? (
+              <button
+                onClick={handleSaveFloorArea}
+                disabled={isSaveDisabled}
+                className={`px-4 py-2 bg-blue-600 text-white rounded cursor-pointer hover:bg-blue-700 flex-1 ${
+                  isSaveDisabled ? "opacity-50 cursor-not-allowed" : ""
+                }`}
+              >
+                Save Area
+              </button>
+              {has_areas_measured && (
                 <button
                   onClick={onGoToNextPub}
                   className={`px-4 py-2 bg-blue-600 text-white rounded cursor-pointer hover:bg-blue-700 flex-1`}
                 >
                   Next Pub
                 </button>
-              ) : (
-                <button
-                  onClick={handleSaveFloorArea}
-                  disabled={!selectedAreaId || area === 0 || !currentPolygon}
-                  className={`px-4 py-2 bg-blue-600 text-white rounded cursor-pointer hover:bg-blue-700 flex-1 ${
-                    !selectedAreaId || area === 0 || !currentPolygon
-                      ? "opacity-50 cursor-not-allowed"
-                      : ""
-                  }`}
-                >
-                  Save Area
-                </button>
               )}
             </div>
           </div>
 
+          {/* Import / export panel */}
+          <div className="bg-white p-4 rounded-lg shadow-md">
+            <h2 className="text-lg font-semibold mb-2">Import / Export</h2>
+
+            <label className="block px-4 py-2 mb-2 border border-gray-300 text-gray-700 text-center rounded cursor-pointer hover:bg-gray-50">
+              Import Polygon (GeoJSON/KML)
+              <input
+                type="file"
+                accept=".geojson,.json,.kml,application/geo+json,application/vnd.google-earth.kml+xml"
+                onChange={handleImportFile}
+                className="hidden"
+              />
+            </label>
+
+            {importError && (
+              <p className="text-sm text-red-600 mb-2">
+                {POLYGON_IMPORT_ERROR_MESSAGES[importError]}
+              </p>
+            )}
+
+            <button
+              onClick={handleExportAreas}
+              disabled={!selectedPub || areasForPub.length === 0}
+              className="w-full px-4 py-2 border border-gray-300 text-gray-700 rounded cursor-pointer hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Export Areas (GeoJSON)
+            </button>
+          </div>
+
           {/* Saved areas list */}
           {selectedPub && (
             <SavedAreas
               areas={areasForPub}
               onSelectArea={handleSelectArea}
+              onEditArea={handleEditArea}
               selectedAreaId={selectedAreaId}
             />
           )}
@@ -284,6 +417,7 @@ const PubAreaSizer: React.FC = () => {
               ref={mapRef}
               onAreaChange={handleAreaChange}
               onPolygonComplete={handlePolygonComplete}
+              onPolygonChange={handlePolygonChange}
               height="800px"
               initialZoom={15}
             />
@@ -0,0 +1,228 @@
+// Types
+import { VisionMask, VisionMaskPoint } from "../../../../../_shared/types";
+import { MaskProjectionError } from "../../../../scene/_shared/services/maskProjectionService";
+import {
+  VISION_MASK_CANVAS_HEIGHT,
+  VISION_MASK_CANVAS_WIDTH,
+} from "../../../../../utils/visionMask";
+
+// How close (in pixels) the pointer needs to be to grab a vertex or an edge
+export const VERTEX_HIT_RADIUS = 8;
+export const EDGE_HIT_TOLERANCE = 6;
+
+// A ring of the mask: a polygon's outer ring, or one of its holes
+export interface RingRef {
+  polygonIndex: number;
+  holeIndex: number | null;
+}
+
+export interface VertexRef {
+  ring: RingRef;
+  index: number;
+}
+
+export interface EdgeHit {
+  ring: RingRef;
+
+  // The vertex the edge starts at, so a new vertex belongs at index + 1
+  index: number;
+  point: VisionMaskPoint;
+}
+
+//
+
+// Rings
+
+export const isSameRing = (a: RingRef | null, b: RingRef | null) =>
+  !!a &&
+  !!b &&
+  a.polygonIndex === b.polygonIndex &&
+  a.holeIndex === b.holeIndex;
+
+export const getRing = (
+  mask: VisionMask,
+  { polygonIndex, holeIndex }: RingRef
+): VisionMaskPoint[] | undefined => {
+  const polygon = mask.polygons[polygonIndex];
+  if (!polygon) return undefined;
+
+  return holeIndex === null ? polygon.outer : polygon.holes[holeIndex];
+};
+
+// Copy of the mask with one ring swapped out
+export const setRing = (
+  mask: VisionMask,
+  { polygonIndex, holeIndex }: RingRef,
+  ring: VisionMaskPoint[]
+): VisionMask => ({
+  ...mask,
+  polygons: mask.polygons.map((polygon, index) => {
+    if (index !== polygonIndex) return polygon;
+
+    return holeIndex === null
+      ? { ...polygon, outer: ring }
+      : {
+          ...polygon,
+          holes: polygon.holes.map((hole, i) =>
+            i === holeIndex ? ring : hole
+          ),
+        };
+  }),
+});
+
+// Copy of the mask without a ring. Removing an outer ring takes its holes too.
+export const removeRing = (
+  mask: VisionMask,
+  { polygonIndex, holeIndex }: RingRef
+): VisionMask => ({
+  ...mask,
+  polygons:
+    holeIndex === null
+      ? mask.polygons.filter((_, index) => index !== polygonIndex)
+      : mask.polygons.map((polygon, index) =>
+          index === polygonIndex
+            ? {
+                ...polygon,
+                holes: polygon.holes.filter((_, i) => i !== holeIndex),
+              }
+            : polygon
+        ),
+});
+
+// Every ring in drawing order, outer ring first then its holes
+export const getRingRefs = (mask: VisionMask): RingRef[] =>
+  mask.polygons.flatMap(({ holes }, polygonIndex) => [
+    { polygonIndex, holeIndex: null },
+    ...holes.map((_, holeIndex) => ({ polygonIndex, holeIndex })),
+  ]);
+
+export const getRingLabel = ({ polygonIndex, holeIndex }: RingRef) =>
+  holeIndex === null
+    ? `Polygon ${polygonIndex + 1}`
+    : `Hole ${holeIndex + 1} in polygon ${polygonIndex + 1}`;
+
+//
+
+// Hit testing
+
+const getDistance = (a: VisionMaskPoint, b: VisionMaskPoint) =>
+  Math.hypot(a.x - b.x, a.y - b.y);
+
+// Closest point to `point` on the segment from `start` to `end`
+const getClosestPointOnSegment = (
+  point: VisionMaskPoint,
+  start: VisionMaskPoint,
+  end: VisionMaskPoint
+): VisionMaskPoint => {
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  const lengthSquared = dx * dx + dy * dy;
+
+  if (lengthSquared === 0) return start;
+
+  const t = Math.max(
+    0,
+    Math.min(
+      1,
+      ((point.x - start.x) * dx + (point.y - start.y) * dy) / lengthSquared
+    )
+  );
+
+  return { x: start.x + t * dx, y: start.y + t * dy };
+};
+
+// The vertex under the pointer in any ring, or null. The nearest one wins
+// when vertices overlap.
+export const findVertexAt = (
+  mask: VisionMask,
+  point: VisionMaskPoint,
+  radius = VERTEX_HIT_RADIUS
+): VertexRef | null => {
+  let closestVertex: VertexRef | null = null;
+  let closestDistance = radius;
+
+  getRingRefs(mask).forEach((ring) => {
+    getRing(mask, ring)?.forEach((vertex, index) => {
+      const distance = getDistance(vertex, point);
+
+      if (distance <= closestDistance) {
+        closestVertex = { ring, index };
+        closestDistance = distance;
+      }
+    });
+  });
+
+  return closestVertex;
+};
+
+// The edge under the pointer in any ring, including the closing edge from a
+// ring's last vertex back to its first
+export const findEdgeAt = (
+  mask: VisionMask,
+  point: VisionMaskPoint,
+  tolerance = EDGE_HIT_TOLERANCE
+): EdgeHit | null => {
+  let closestEdge: EdgeHit | null = null;
+  let closestDistance = tolerance;
+
+  getRingRefs(mask).forEach((ring) => {
+    const points = getRing(mask, ring) || [];
+
+    points.forEach((start, index) => {
+      // Only a closed ring has an edge back to the start
+      if (index === points.length - 1 && points.length < 3) return;
+
+      const end = points[(index + 1) % points.length];
+      const closestPoint = getClosestPointOnSegment(point, start, end);
+      const distance = getDistance(closestPoint, point);
+
+      if (distance <= closestDistance) {
+        closestEdge = { ring, index, point: closestPoint };
+        closestDistance = distance;
+      }
+    });
+  });
+
+  return closestEdge;
+};
+
+// Pointer position relative to the overlay canvas
+export const getCanvasPoint = (
+  e: React.MouseEvent<HTMLCanvasElement>
+): VisionMaskPoint => {
+  const rect = e.currentTarget.getBoundingClientRect();
+
+  return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+};
+
+// Client pixels (as the scene projects to) onto the overlay canvas, and back
+export const toOverlayPoint = (
+  { x, y }: VisionMaskPoint,
+  rect: DOMRect
+): VisionMaskPoint => ({
+  x: ((x - rect.left) * VISION_MASK_CANVAS_WIDTH) / rect.width,
+  y: ((y - rect.top) * VISION_MASK_CANVAS_HEIGHT) / rect.height,
+});
+
+export const toClientPoint = (
+  { x, y }: VisionMaskPoint,
+  rect: DOMRect
+): VisionMaskPoint => ({
+  x: rect.left + (x * rect.width) / VISION_MASK_CANVAS_WIDTH,
+  y: rect.top + (y * rect.height) / VISION_MASK_CANVAS_HEIGHT,
+});
+
+export const areMasksEqual = (a: VisionMask, b: VisionMask) =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+//
+
+// Projection
+
+export const PROJECTION_ERROR_MESSAGES: Record<MaskProjectionError, string> = {
+  "not-ready": "The 3D view is still loading",
+  "not-enough-points": "This area hasn't been sized yet",
+  "no-ground":
+    "Couldn't find the ground under the floor plan, try again once the tiles have loaded",
+  "out-of-view": "The floor plan isn't in view from this camera",
+};
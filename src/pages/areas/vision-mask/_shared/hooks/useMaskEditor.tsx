@@ -0,0 +1,328 @@
+import { useCallback, useState } from "react";
+
+// Types
+import { VisionMask, VisionMaskPoint } from "../../../../../_shared/types";
+
+// Helpers
+import {
+  areMasksEqual,
+  getRing,
+  isSameRing,
+  removeRing,
+  RingRef,
+  setRing,
+  VertexRef,
+} from "../helpers";
+import { createVisionMask } from "../../../../../utils/visionMask";
+
+// Undo steps kept per area
+const MAX_HISTORY = 100;
+
+interface MaskHistory {
+  // Every committed version of the mask, oldest first
+  versions: VisionMask[];
+  currentIndex: number;
+}
+
+interface MaskDrag {
+  vertex: VertexRef;
+  mask: VisionMask;
+}
+
+interface MaskEditorData {
+  mask: VisionMask;
+
+  // The ring new points are added to
+  activeRing: RingRef | null;
+  selectedVertex: VertexRef | null;
+  draggingVertex: VertexRef | null;
+  canUndo: boolean;
+  canRedo: boolean;
+
+  // The mask differs from the one it was loaded with
+  isDirty: boolean;
+}
+
+interface MaskEditorOperations {
+  onLoadMask: (mask: VisionMask) => void;
+  onReplaceMask: (mask: VisionMask) => void;
+  onAddPoint: (point: VisionMaskPoint) => void;
+  onInsertPoint: (vertex: VertexRef, point: VisionMaskPoint) => void;
+  onDeletePoint: (vertex: VertexRef) => void;
+  onSelectPoint: (vertex: VertexRef | null) => void;
+  onStartPolygon: () => void;
+  onStartHole: () => void;
+  onDeleteRing: (ring: RingRef) => void;
+  onStartDrag: (vertex: VertexRef) => void;
+  onDrag: (point: VisionMaskPoint) => void;
+  onEndDrag: () => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  onReset: () => void;
+}
+
+interface MaskEditorResponse {
+  data: MaskEditorData;
+  operations: MaskEditorOperations;
+}
+
+const createHistory = (mask: VisionMask): MaskHistory => ({
+  versions: [mask],
+  currentIndex: 0,
+});
+
+// The ring to add points to, falling back to the last polygon when the
+// chosen one has gone (e.g. after an undo)
+const resolveActiveRing = (
+  mask: VisionMask,
+  activeRing: RingRef | null
+): RingRef | null => {
+  if (activeRing && getRing(mask, activeRing)) return activeRing;
+  if (!mask.polygons.length) return null;
+
+  return { polygonIndex: mask.polygons.length - 1, holeIndex: null };
+};
+
+// Editable vision mask with undo/redo. Masks can have several polygons, each
+// with holes. A drag only becomes an undo step once it's dropped somewhere new.
+const useMaskEditor = (): MaskEditorResponse => {
+  //
+
+  // State
+  const [loadedMask, setLoadedMask] = useState<VisionMask>(createVisionMask());
+  const [history, setHistory] = useState<MaskHistory>(
+    createHistory(createVisionMask())
+  );
+  const [chosenRing, setChosenRing] = useState<RingRef | null>(null);
+  const [selectedVertex, setSelectedVertex] = useState<VertexRef | null>(null);
+  const [drag, setDrag] = useState<MaskDrag | null>(null);
+
+  //
+
+  // Variables
+  const committedMask = history.versions[history.currentIndex];
+  const mask = drag ? drag.mask : committedMask;
+  const activeRing = resolveActiveRing(committedMask, chosenRing);
+
+  const canUndo = history.currentIndex > 0;
+  const canRedo = history.currentIndex < history.versions.length - 1;
+  const isDirty = !areMasksEqual(committedMask, loadedMask);
+
+  //
+
+  // Helpers
+  const commitMask = useCallback((newMask: VisionMask) => {
+    setHistory(({ versions, currentIndex }) => {
+      // Anything that was undone can't be redone after a new edit
+      const newVersions = [...versions.slice(0, currentIndex + 1), newMask];
+      const trimmedVersions = newVersions.slice(-MAX_HISTORY);
+
+      return {
+        versions: trimmedVersions,
+        currentIndex: trimmedVersions.length - 1,
+      };
+    });
+  }, []);
+
+  //
+
+  // Handlers
+  const onLoadMask = useCallback((newMask: VisionMask) => {
+    setLoadedMask(newMask);
+    setHistory(createHistory(newMask));
+    setChosenRing(null);
+    setSelectedVertex(null);
+    setDrag(null);
+  }, []);
+
+  // Swap in a whole new mask (e.g. one proposed from the floor plan) as a
+  // single undo step
+  const onReplaceMask = useCallback(
+    (newMask: VisionMask) => {
+      commitMask(newMask);
+      setChosenRing(null);
+      setSelectedVertex(null);
+    },
+    [commitMask]
+  );
+
+  const onAddPoint = (point: VisionMaskPoint) => {
+    // The first point of an empty mask starts its first polygon
+    if (!activeRing) {
+      commitMask(createVisionMask([{ outer: [point], holes: [] }]));
+      setChosenRing({ polygonIndex: 0, holeIndex: null });
+      setSelectedVertex({
+        ring: { polygonIndex: 0, holeIndex: null },
+        index: 0,
+      });
+      return;
+    }
+
+    const ring = getRing(committedMask, activeRing) || [];
+
+    commitMask(setRing(committedMask, activeRing, [...ring, point]));
+    setSelectedVertex({ ring: activeRing, index: ring.length });
+  };
+
+  const onInsertPoint = (
+    { ring: ringRef, index }: VertexRef,
+    point: VisionMaskPoint
+  ) => {
+    const ring = getRing(committedMask, ringRef) || [];
+
+    commitMask(
+      setRing(committedMask, ringRef, [
+        ...ring.slice(0, index),
+        point,
+        ...ring.slice(index),
+      ])
+    );
+    setChosenRing(ringRef);
+    setSelectedVertex({ ring: ringRef, index });
+  };
+
+  // Deleting a ring's last point removes the ring
+  const onDeletePoint = ({ ring: ringRef, index }: VertexRef) => {
+    const ring = getRing(committedMask, ringRef) || [];
+    const newRing = ring.filter((_, i) => i !== index);
+
+    commitMask(
+      newRing.length
+        ? setRing(committedMask, ringRef, newRing)
+        : removeRing(committedMask, ringRef)
+    );
+    setSelectedVertex(null);
+  };
+
+  const onSelectPoint = (vertex: VertexRef | null) => {
+    setSelectedVertex(vertex);
+    if (vertex) setChosenRing(vertex.ring);
+  };
+
+  const onStartPolygon = () => {
+    commitMask({
+      ...committedMask,
+      polygons: [...committedMask.polygons, { outer: [], holes: [] }],
+    });
+    setChosenRing({
+      polygonIndex: committedMask.polygons.length,
+      holeIndex: null,
+    });
+    setSelectedVertex(null);
+  };
+
+  // Holes go in the polygon being edited
+  const onStartHole = () => {
+    if (!activeRing) return;
+
+    const { polygonIndex } = activeRing;
+    const polygon = committedMask.polygons[polygonIndex];
+
+    commitMask({
+      ...committedMask,
+      polygons: committedMask.polygons.map((other, index) =>
+        index === polygonIndex
+          ? { ...other, holes: [...other.holes, []] }
+          : other
+      ),
+    });
+    setChosenRing({ polygonIndex, holeIndex: polygon.holes.length });
+    setSelectedVertex(null);
+  };
+
+  const onDeleteRing = (ring: RingRef) => {
+    commitMask(removeRing(committedMask, ring));
+    if (isSameRing(ring, activeRing)) setChosenRing(null);
+    setSelectedVertex(null);
+  };
+
+  const onStartDrag = (vertex: VertexRef) => {
+    setDrag({ vertex, mask: committedMask });
+    setChosenRing(vertex.ring);
+    setSelectedVertex(vertex);
+  };
+
+  const onDrag = (point: VisionMaskPoint) => {
+    if (!drag) return;
+
+    const { ring: ringRef, index } = drag.vertex;
+    const ring = getRing(drag.mask, ringRef) || [];
+
+    setDrag({
+      ...drag,
+      mask: setRing(
+        drag.mask,
+        ringRef,
+        ring.map((vertex, i) => (i === index ? point : vertex))
+      ),
+    });
+  };
+
+  const onEndDrag = () => {
+    if (!drag) return;
+
+    if (!areMasksEqual(drag.mask, committedMask)) {
+      commitMask(drag.mask);
+    }
+
+    setDrag(null);
+  };
+
+  const onUndo = useCallback(() => {
+    setDrag(null);
+    setSelectedVertex(null);
+    setHistory(({ versions, currentIndex }) => ({
+      versions,
+      currentIndex: Math.max(0, currentIndex - 1),
+    }));
+  }, []);
+
+  const onRedo = useCallback(() => {
+    setDrag(null);
+    setSelectedVertex(null);
+    setHistory(({ versions, currentIndex }) => ({
+      versions,
+      currentIndex: Math.min(versions.length - 1, currentIndex + 1),
+    }));
+  }, []);
+
+  // Clearing the mask is an edit like any other, so it can be undone
+  const onReset = () => {
+    if (!committedMask.polygons.length) return;
+
+    commitMask(createVisionMask());
+    setChosenRing(null);
+    setSelectedVertex(null);
+  };
+
+  return {
+    data: {
+      mask,
+      activeRing,
+      selectedVertex,
+      draggingVertex: drag?.vertex ?? null,
+      canUndo,
+      canRedo,
+      isDirty,
+    },
+    operations: {
+      onLoadMask,
+      onReplaceMask,
+      onAddPoint,
+      onInsertPoint,
+      onDeletePoint,
+      onSelectPoint,
+      onStartPolygon,
+      onStartHole,
+      onDeleteRing,
+      onStartDrag,
+      onDrag,
+      onEndDrag,
+      onUndo,
+      onRedo,
+      onReset,
+    },
+  };
+};
+
+export default useMaskEditor;
@@ -2,14 +2,72 @@ import { useNavigate } from "@tanstack/react-router";
 import React, { useRef, useEffect, useState, useCallback } from "react";
 
 // Icons
-import { Check, ChevronLeft, ChevronRight, Circle } from "lucide-react";
+import {
+  Check,
+  ChevronLeft,
+  ChevronRight,
+  Circle,
+  Redo2,
+  TriangleAlert,
+  Undo2,
+} from "lucide-react";
 
 // Components
 import SimplePhotorealisticTilesMap from "../identifier/_shared/components/SimplePhotorealisticTilesMap";
 
-// Constants
-import { CANVAS_HEIGHT, CANVAS_WIDTH } from "../simulator";
+// Hooks
 import usePubAreas from "../../../_shared/hooks/pubAreas/usePubAreas";
+import useMapSettings from "../../scene/_shared/hooks/useMapSettings";
+import useMaskEditor from "./_shared/hooks/useMaskEditor";
+
+// Helpers
+import {
+  findEdgeAt,
+  findVertexAt,
+  getCanvasPoint,
+  getRing,
+  getRingLabel,
+  getRingRefs,
+  isSameRing,
+  PROJECTION_ERROR_MESSAGES,
+  toClientPoint,
+  toOverlayPoint,
+} from "./_shared/helpers";
+import {
+  cleanVisionMask,
+  createVisionMask,
+  DEFAULT_VISION_MASK_VIEW,
+  denormalizeVisionMask,
+  fillVisionMask,
+  getCanvasView,
+  getVisionMaskPointCount,
+  hasVisionMask,
+  normalizeVisionMask,
+  parseVisionMask,
+  traceVisionMaskRing,
+  VISION_MASK_CANVAS_HEIGHT,
+  VISION_MASK_CANVAS_WIDTH,
+} from "../../../utils/visionMask";
+import {
+  checkVisionMask,
+  getVisionMaskSamplePoints,
+  hasVisionMaskErrors,
+  isVisionMaskValid,
+  VisionMaskIssue,
+} from "../../../utils/visionMaskChecks";
+
+// Services
+import {
+  maskProjection,
+  MaskProjectionError,
+} from "../../scene/_shared/services/maskProjectionService";
+
+// Types
+import { VisionMaskPoint } from "../../../_shared/types";
+
+// Constants
+const CANVAS_WIDTH = VISION_MASK_CANVAS_WIDTH;
+const CANVAS_HEIGHT = VISION_MASK_CANVAS_HEIGHT;
 
 const PubAreaVisionMask = () => {
   //
@@ -26,25 +84,118 @@ const PubAreaVisionMask = () => {
     },
   } = usePubAreas();
 
+  const {
+    data: { isLoading },
+  } = useMapSettings();
+
+  const {
+    data: {
+      mask,
+      activeRing,
+      selectedVertex,
+      draggingVertex,
+      canUndo,
+      canRedo,
+      isDirty,
+    },
+    operations: {
+      onLoadMask,
+      onReplaceMask,
+      onAddPoint,
+      onInsertPoint,
+      onDeletePoint,
+      onSelectPoint,
+      onStartPolygon,
+      onStartHole,
+      onDeleteRing,
+      onStartDrag,
+      onDrag,
+      onEndDrag,
+      onUndo,
+      onRedo,
+      onReset,
+    },
+  } = useMaskEditor();
+
   // Refs
   const overlayRef = useRef<HTMLCanvasElement>(null);
 
+  // The last area a mask was proposed for, so it's only done once per visit
+  const proposedAreaIdRef = useRef<number | null>(null);
+
   // State
-  const [points, setPoints] = useState<{ x: number; y: number }[]>([]);
+  const [cursor, setCursor] = useState("crosshair");
+  const [projectionError, setProjectionError] =
+    useState<MaskProjectionError | null>(null);
+  const [maskIssues, setMaskIssues] = useState<VisionMaskIssue[]>([]);
+
+  // Warnings only need confirming once, a second save goes ahead
+  const [isWarningAcknowledged, setIsWarningAcknowledged] = useState(false);
 
   //
 
   // Variables
-  const isSaveDisabled = points.length < 3;
+  const isSaveDisabled = !hasVisionMask(mask);
+
+  // The cached copy of the area, which picks up masks saved this session
+  const savedMask = areasForPub.find(
+    (area) => area.id === selectedPubArea?.id
+  )?.vision_mask_points;
 
-  // make disabled unless all have area.vision_mask_points?.length
+  // make disabled unless all have a vision mask that passes the checks
   const isNextPubDisabled = areasForPub.some((area) => {
-    return !area.vision_mask_points?.length;
+    return !isVisionMaskValid(area.vision_mask_points);
   });
 
+  // A hole can only go in a polygon that's been closed off
+  const activePolygon = activeRing
+    ? mask.polygons[activeRing.polygonIndex]
+    : null;
+  const isAddHoleDisabled = !activePolygon || activePolygon.outer.length < 3;
+
+  const floorCoordinates = selectedPubArea?.coordinates;
+  const isGenerateDisabled = (floorCoordinates?.length || 0) < 3;
+
+  // Where the camera's view lies on the overlay, as stored masks are relative
+  // to it
+  const getOverlayView = useCallback(() => {
+    const overlay = overlayRef.current;
+    if (!overlay) return DEFAULT_VISION_MASK_VIEW;
+
+    return getCanvasView(overlay, maskProjection.getViewRect());
+  }, []);
+
   //
 
   // Effects
+
+  // Start from the area's saved mask so it can be tweaked rather than redrawn
+  useEffect(() => {
+    onLoadMask(
+      denormalizeVisionMask(
+        parseVisionMask(savedMask || selectedPubArea?.vision_mask_points),
+        getOverlayView()
+      )
+    );
+  }, [
+    selectedPubArea?.id,
+    selectedPubArea?.vision_mask_points,
+    savedMask,
+    onLoadMask,
+    getOverlayView,
+  ]);
+
+  // A message from another area doesn't apply here
+  useEffect(() => {
+    setProjectionError(null);
+  }, [selectedPubArea?.id]);
+
+  // Any edit needs checking again
+  useEffect(() => {
+    setMaskIssues([]);
+    setIsWarningAcknowledged(false);
+  }, [mask]);
+
   useEffect(() => {
     const canvas = overlayRef.current;
     if (!canvas) return;
@@ -58,69 +209,266 @@ const PubAreaVisionMask = () => {
     ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
     ctx.restore();
 
-    // If we have a polygon, cut a hole in the mask
-    if (points.length > 1) {
-      ctx.save();
-      // Set compositing to punch out the polygon area
-      ctx.globalCompositeOperation = "destination-out";
+    // Cut the polygons out of the overlay, leaving their holes covered
+    ctx.save();
+    // Set compositing to punch out the polygon area
+    ctx.globalCompositeOperation = "destination-out";
+    fillVisionMask(ctx, mask);
+    ctx.restore();
+
+    // Outline every ring so its edges can be grabbed, holes in blue and the
+    // ring being edited thicker
+    ctx.save();
+    getRingRefs(mask).forEach((ringRef) => {
+      ctx.strokeStyle = ringRef.holeIndex === null ? "#ff0000" : "#00b3ff";
+      ctx.lineWidth = isSameRing(ringRef, activeRing) ? 2 : 1;
       ctx.beginPath();
-      ctx.moveTo(points[0].x, points[0].y);
-      for (let i = 1; i < points.length; i++) {
-        ctx.lineTo(points[i].x, points[i].y);
-      }
-      ctx.closePath();
-      ctx.fill();
-      ctx.restore();
-    }
+      traceVisionMaskRing(ctx, getRing(mask, ringRef) || []);
+      ctx.stroke();
+    });
+    ctx.restore();
 
-    // Draw points on top
+    // Draw points on top, with the selected one picked out
     ctx.save();
     ctx.globalCompositeOperation = "source-over";
-    ctx.fillStyle = "#ff0000";
-    for (const pt of points) {
-      ctx.beginPath();
-      ctx.arc(pt.x, pt.y, 5, 0, Math.PI * 2);
-      ctx.fill();
-    }
+    getRingRefs(mask).forEach((ringRef) => {
+      getRing(mask, ringRef)?.forEach((pt, index) => {
+        const isSelected =
+          isSameRing(ringRef, selectedVertex?.ring || null) &&
+          index === selectedVertex?.index;
+
+        ctx.fillStyle = isSelected
+          ? "#ffc400"
+          : ringRef.holeIndex === null
+            ? "#ff0000"
+            : "#00b3ff";
+        ctx.beginPath();
+        ctx.arc(pt.x, pt.y, isSelected ? 7 : 5, 0, Math.PI * 2);
+        ctx.fill();
+      });
+    });
     ctx.restore();
-  }, [points]);
+  }, [mask, activeRing, selectedVertex]);
 
   // Handlers
-  const handleOverlayClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
-    const rect = e.currentTarget.getBoundingClientRect();
-    const x = e.clientX - rect.left;
-    const y = e.clientY - rect.top;
-    setPoints([...points, { x, y }]);
+
+  // Propose a mask by projecting the sized floor polygon through the camera
+  const handleGenerateMask = useCallback(() => {
+    const overlay = overlayRef.current;
+    if (!overlay) return;
+
+    const { points, error } = maskProjection.projectFloorPolygon(
+      floorCoordinates || []
+    );
+
+    setProjectionError(error);
+    if (error) return;
+
+    // The projection is in client pixels, so map it onto the overlay canvas
+    const rect = overlay.getBoundingClientRect();
+
+    onReplaceMask(
+      createVisionMask([
+        {
+          outer: points.map((point) => toOverlayPoint(point, rect)),
+          holes: [],
+        },
+      ])
+    );
+  }, [floorCoordinates, onReplaceMask]);
+
+  // Hint at what a click will do
+  const getOverlayCursor = (point: VisionMaskPoint) => {
+    if (findVertexAt(mask, point)) return "move";
+    if (findEdgeAt(mask, point)) return "copy";
+    return "crosshair";
   };
 
-  // Define handleReset with useCallback to avoid dependency issues
-  const handleReset = useCallback(() => setPoints([]), []);
+  // Grab a vertex, split an edge, or add a vertex to the ring being edited
+  const handleOverlayMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (e.button !== 0) return;
 
-  const handleSaveMask = useCallback(() => {
-    // Save the mask
-    onSaveMask(points);
+    const point = getCanvasPoint(e);
+    const vertex = findVertexAt(mask, point);
 
-    // Reset points
-    handleReset();
-  }, [onSaveMask, points, handleReset]);
+    if (vertex) {
+      if (e.altKey) {
+        onDeletePoint(vertex);
+      } else {
+        onStartDrag(vertex);
+      }
+      return;
+    }
+
+    const edge = findEdgeAt(mask, point);
+
+    if (edge) {
+      onInsertPoint({ ring: edge.ring, index: edge.index + 1 }, edge.point);
+    } else {
+      onAddPoint(point);
+    }
+  };
+
+  const handleOverlayMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const point = getCanvasPoint(e);
+
+    if (draggingVertex) {
+      onDrag(point);
+    } else {
+      setCursor(getOverlayCursor(point));
+    }
+  };
+
+  // Right click deletes the vertex under the pointer
+  const handleOverlayContextMenu = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    e.preventDefault();
+
+    const vertex = findVertexAt(mask, getCanvasPoint(e));
+
+    if (vertex) {
+      onDeletePoint(vertex);
+    }
+  };
+
+  const handleSaveMask = useCallback(() => {
+    const cleanedMask = cleanVisionMask(mask);
+    const rect = overlayRef.current?.getBoundingClientRect();
+
+    // Check where the mask sits in the scene too, when the tiles can tell us
+    const areaClientPoint =
+      rect && selectedPubArea
+        ? maskProjection.projectLatLng(
+            selectedPubArea.latitude,
+            selectedPubArea.longitude
+          )
+        : null;
+
+    const surfaces = rect
+      ? maskProjection.sampleSurfaces(
+          getVisionMaskSamplePoints(cleanedMask).map((point) =>
+            toClientPoint(point, rect)
+          )
+        )
+      : null;
+
+    const issues = checkVisionMask(cleanedMask, {
+      canvasWidth: CANVAS_WIDTH,
+      canvasHeight: CANVAS_HEIGHT,
+      areaPoint:
+        rect && areaClientPoint ? toOverlayPoint(areaClientPoint, rect) : null,
+      surfaces,
+    });
+
+    setMaskIssues(issues);
+
+    if (hasVisionMaskErrors(issues)) return;
+    if (issues.length && !isWarningAcknowledged) {
+      setIsWarningAcknowledged(true);
+      return;
+    }
 
-  // Keyboard event handler for 'S' key to save mask
+    // Save the mask, the next area's mask is loaded once it's selected
+    onSaveMask(normalizeVisionMask(cleanedMask, getOverlayView()));
+  }, [
+    onSaveMask,
+    mask,
+    selectedPubArea,
+    isWarningAcknowledged,
+    getOverlayView,
+  ]);
+
+  // Keyboard shortcuts: A saves, Z skips an untouched area, N starts a new
+  // polygon, H a hole in the current one, G proposes a mask from the floor
+  // plan, Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z or Ctrl/Cmd+Y redoes, Delete
+  // removes the selected vertex
   const handleKeyDown = useCallback(
     (e: KeyboardEvent) => {
-      // Check if 'S' key is pressed and mask is valid (at least 3 points)
-      if (e.key.toLowerCase() === "a" && !isSaveDisabled) {
+      const key = e.key.toLowerCase();
+
+      if (e.ctrlKey || e.metaKey) {
+        if (key === "z") {
+          e.preventDefault();
+          if (e.shiftKey) {
+            onRedo();
+          } else {
+            onUndo();
+          }
+        }
+
+        if (key === "y") {
+          e.preventDefault();
+          onRedo();
+        }
+
+        return;
+      }
+
+      if ((key === "delete" || key === "backspace") && selectedVertex) {
+        e.preventDefault();
+        onDeletePoint(selectedVertex);
+      }
+
+      if (key === "n") {
+        onStartPolygon();
+      }
+
+      if (key === "h" && !isAddHoleDisabled) {
+        onStartHole();
+      }
+
+      if (key === "g" && !isGenerateDisabled) {
+        handleGenerateMask();
+      }
+
+      if (key === "escape") {
+        onSelectPoint(null);
+      }
+
+      // Check if 'A' key is pressed and mask is valid (at least one polygon)
+      if (key === "a" && !isSaveDisabled) {
         handleSaveMask();
       }
 
-      if (e.key.toLowerCase() === "z") {
-        if (!points.length) {
+      if (key === "z") {
+        if (!isDirty) {
           onGoToNextArea();
         }
       }
     },
-    [isSaveDisabled, handleSaveMask]
+    [
+      isSaveDisabled,
+      isAddHoleDisabled,
+      isGenerateDisabled,
+      isDirty,
+      selectedVertex,
+      handleSaveMask,
+      handleGenerateMask,
+      onDeletePoint,
+      onGoToNextArea,
+      onRedo,
+      onSelectPoint,
+      onStartHole,
+      onStartPolygon,
+      onUndo,
+    ]
   );
 
+  // Areas without a mask get one proposed as soon as the tiles are in
+  useEffect(() => {
+    if (isLoading || !selectedPubArea || isGenerateDisabled) return;
+    if (hasVisionMask(savedMask)) return;
+    if (proposedAreaIdRef.current === selectedPubArea.id) return;
+
+    proposedAreaIdRef.current = selectedPubArea.id;
+    handleGenerateMask();
+  }, [
+    isLoading,
+    selectedPubArea,
+    isGenerateDisabled,
+    savedMask,
+    handleGenerateMask,
+  ]);
+
   // Set up keyboard event listener
   useEffect(() => {
     window.addEventListener("keydown", handleKeyDown);
@@ -136,8 +484,8 @@ const PubAreaVisionMask = () => {
     onGoToNextPub();
 
     // Reset points
-    handleReset();
-  }, [onGoToNextPub, handleReset]);
+    onLoadMask(createVisionMask());
+  }, [onGoToNextPub, onLoadMask]);
 
   return (
     <div className="w-full h-[100vh] bg-black text-white p-4 rounded">
@@ -186,9 +534,13 @@ const PubAreaVisionMask = () => {
               top: 0,
               pointerEvents: "auto",
               zIndex: 2,
-              cursor: "crosshair",
+              cursor: draggingVertex ? "grabbing" : cursor,
             }}
-            onClick={handleOverlayClick}
+            onMouseDown={handleOverlayMouseDown}
+            onMouseMove={handleOverlayMouseMove}
+            onMouseUp={onEndDrag}
+            onMouseLeave={onEndDrag}
+            onContextMenu={handleOverlayContextMenu}
           />
         </div>
 
@@ -197,11 +549,17 @@ const PubAreaVisionMask = () => {
 
           {areasForPub.map(({ id, name, vision_mask_points }) => (
             <div key={id} className="flex flex-row items-center gap-2">
-              {vision_mask_points ? <Check /> : <Circle />}
+              {isVisionMaskValid(vision_mask_points) ? (
+                <Check />
+              ) : hasVisionMask(vision_mask_points) ? (
+                <TriangleAlert className="text-red-400" />
+              ) : (
+                <Circle />
+              )}
               <p>
                 {name}
-                {vision_mask_points?.length
-                  ? ` (${vision_mask_points?.length})`
+                {hasVisionMask(vision_mask_points)
+                  ? ` (${getVisionMaskPointCount(vision_mask_points)})`
                   : ""}
               </p>
             </div>
@@ -220,22 +578,48 @@ const PubAreaVisionMask = () => {
       <div className="mt-2 text-sm">{selectedPubArea?.name}</div>
 
       <div className="mt-2 text-sm">
-        {selectedPubArea?.vision_mask_points?.length
-          ? `Mask Saved (${selectedPubArea?.vision_mask_points?.length} points)`
+        {hasVisionMask(savedMask)
+          ? `Mask Saved (${getVisionMaskPointCount(savedMask)} points)`
           : "No Mask"}
+        {isDirty ? " - unsaved changes" : ""}
       </div>
 
+      <div className="mt-2 text-sm">
+        Editing: {activeRing ? getRingLabel(activeRing) : "Polygon 1"}
+      </div>
+
+      {projectionError && (
+        <div className="mt-2 text-sm text-red-400">
+          {PROJECTION_ERROR_MESSAGES[projectionError]}
+        </div>
+      )}
+
+      {maskIssues.map(({ code, severity, message }) => (
+        <div
+          key={code}
+          className={`mt-2 text-sm ${severity === "error" ? "text-red-400" : "text-amber-400"}`}
+        >
+          {message}
+        </div>
+      ))}
+
+      <p className="mt-2 text-xs text-gray-400">
+        Click to add a point, click an edge to insert one, drag to move, right
+        click or alt-click to delete. Holes (in blue) are left out of the sun
+        percentage. Ctrl/Cmd+Z to undo, Ctrl/Cmd+Shift+Z to redo.
+      </p>
+
       <div className="mt-2 flex flex-row items-center gap-2">
         <button
           onClick={onGoToPreviousArea}
-          disabled={!!points.length}
+          disabled={isDirty}
           className="px-4 py-1 bg-gray-700 rounded cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
         >
           Previous Area
         </button>
         <button
           onClick={onGoToNextArea}
-          disabled={!!points.length}
+          disabled={isDirty}
           className="px-4 py-1 bg-gray-700 rounded cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
         >
           Next Area
@@ -243,7 +627,52 @@ const PubAreaVisionMask = () => {
       </div>
       <div className="mt-2 flex flex-row items-center gap-2">
         <button
-          onClick={handleReset}
+          onClick={onUndo}
+          disabled={!canUndo}
+          aria-label="Undo"
+          className="px-2 py-1 bg-gray-700 rounded cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Undo2 className="w-5 h-5" />
+        </button>
+        <button
+          onClick={onRedo}
+          disabled={!canRedo}
+          aria-label="Redo"
+          className="px-2 py-1 bg-gray-700 rounded cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Redo2 className="w-5 h-5" />
+        </button>
+
+        <button
+          onClick={handleGenerateMask}
+          disabled={isGenerateDisabled}
+          className="px-4 py-1 bg-gray-700 rounded cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Generate From Floor Plan
+        </button>
+        <button
+          onClick={onStartPolygon}
+          className="px-4 py-1 bg-gray-700 rounded cursor-pointer"
+        >
+          New Polygon
+        </button>
+        <button
+          onClick={onStartHole}
+          disabled={isAddHoleDisabled}
+          className="px-4 py-1 bg-gray-700 rounded cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Add Hole
+        </button>
+        <button
+          onClick={() => activeRing && onDeleteRing(activeRing)}
+          disabled={!activeRing}
+          className="px-4 py-1 bg-gray-700 rounded cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Delete {activeRing?.holeIndex === null ? "Polygon" : "Hole"}
+        </button>
+
+        <button
+          onClick={onReset}
           className="px-4 py-1 bg-gray-700 rounded cursor-pointer"
         >
           Reset Mask
@@ -254,7 +683,11 @@ const PubAreaVisionMask = () => {
           disabled={isSaveDisabled}
           className="px-4 py-1 bg-gray-700 rounded disabled:opacity-50 cursor-pointer"
         >
-          {isSavingVisionMask ? "Saving..." : "Save Vision Mask"}
+          {isSavingVisionMask
+            ? "Saving..."
+            : isWarningAcknowledged
+              ? "Save Anyway"
+              : "Save Vision Mask"}
         </button>
       </div>
     </div>
@@ -0,0 +1,247 @@
+import { useState } from "react";
+import { CalendarPlus, Footprints, Share2, Sun, Trash2 } from "lucide-react";
+
+// Hooks
+import usePubs from "../../../../../_shared/hooks/pubs/usePubs";
+import useSunEvals from "../../../../../_shared/hooks/sunEvals/useSunEvals";
+import useCrawlPlanner from "../../hooks/useCrawlPlanner";
+
+// Context
+import { useGeoLocationContext } from "../../../../../_shared/providers/useGeolocationContext";
+
+// Helpers
+import {
+  formatTimeOfDay,
+  formatTimeSlot,
+  getTimeSlotMinutes,
+  LAST_TIME_SLOT,
+  TIME_SLOT_CONFIG,
+} from "../../../../../utils/timeSlots";
+import { getLatestCrawlStartTime } from "../../../../../utils/crawlPlanner";
+import { formatForecastDay } from "../../helpers";
+
+const STOP_OPTIONS = [2, 3, 4, 5, 6];
+const MAX_WALK_OPTIONS = [5, 10, 15, 20, 30];
+
+// Only starts that leave time for at least one stop
+const LATEST_START_TIME = getLatestCrawlStartTime();
+const START_TIME_SLOTS = Array.from(
+  { length: LAST_TIME_SLOT + 1 },
+  (_, i) => i
+).filter((timeSlot) => getTimeSlotMinutes(timeSlot) <= LATEST_START_TIME);
+const LAST_START_TIME_SLOT = START_TIME_SLOTS[START_TIME_SLOTS.length - 1];
+
+const CrawlPlanner = () => {
+  //
+
+  // Hooks
+  const {
+    data: { mapBounds },
+  } = usePubs();
+  const {
+    data: { selectedTimeslot, forecastDay },
+  } = useSunEvals();
+  const {
+    data: { crawlRequest, crawlPlan, isPlanningCrawl, crawlError },
+    operations: { onPlanCrawl, onClearCrawl, onShareCrawl, onExportCrawl },
+  } = useCrawlPlanner();
+
+  const {
+    geoLocationState: { userLatitude, userLongitude },
+  } = useGeoLocationContext();
+
+  //
+
+  // State
+  const [startTimeSlot, setStartTimeSlot] = useState(
+    Math.min(selectedTimeslot || 0, LAST_START_TIME_SLOT)
+  );
+  const [stops, setStops] = useState(crawlRequest?.stops || 3);
+  const [maxWalkMinutes, setMaxWalkMinutes] = useState(
+    crawlRequest?.maxWalkMinutes || 15
+  );
+
+  //
+
+  // Variables
+  const hasUserLocation = !!(userLatitude || userLongitude);
+
+  // Shared crawls can still ask for a start the options no longer offer
+  const isTooLateToStart =
+    !!crawlRequest && crawlRequest.startTime > LATEST_START_TIME;
+
+  //
+
+  // Handlers
+
+  // From the user if we know where they are, otherwise the middle of the map
+  const handlePlanCrawl = () => {
+    onPlanCrawl({
+      start: hasUserLocation
+        ? { lat: userLatitude, lng: userLongitude }
+        : {
+            lat: (mapBounds.north + mapBounds.south) / 2,
+            lng: (mapBounds.east + mapBounds.west) / 2,
+          },
+      startTime: getTimeSlotMinutes(startTimeSlot),
+      stops,
+      maxWalkMinutes,
+    });
+  };
+
+  //
+
+  // Render
+  return (
+    <div className="flex flex-col gap-2 pt-4">
+      <p className="text-lg font-black font-poppins">Plan a Sunny Crawl</p>
+      <p className="text-xs font-normal text-slate-600 mb-2">
+        Hop between pubs to stay in the sun{" "}
+        <strong>{formatForecastDay(forecastDay).toLowerCase()}</strong>,
+        starting from{" "}
+        {hasUserLocation ? "your location" : "the middle of the map"}
+      </p>
+
+      <div className="relative flex flex-col items-start justify-start h-[calc(75vh-70px)] border-t border-slate-200 overflow-y-auto pb-20 pt-4 gap-4">
+        <div className="flex flex-row flex-wrap gap-3 text-xs font-poppins">
+          <label className="flex flex-col gap-1 font-bold">
+            Start
+            <select
+              value={startTimeSlot}
+              onChange={(e) => setStartTimeSlot(Number(e.target.value))}
+              className="border-2 border-slate-800 rounded-[20px] px-3 py-2 font-normal"
+            >
+              {START_TIME_SLOTS.map((timeSlot) => (
+                <option key={timeSlot} value={timeSlot}>
+                  {formatTimeSlot(timeSlot)}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="flex flex-col gap-1 font-bold">
+            Stops
+            <select
+              value={stops}
+              onChange={(e) => setStops(Number(e.target.value))}
+              className="border-2 border-slate-800 rounded-[20px] px-3 py-2 font-normal"
+            >
+              {STOP_OPTIONS.map((option) => (
+                <option key={option} value={option}>
+                  {option}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="flex flex-col gap-1 font-bold">
+            Longest walk
+            <select
+              value={maxWalkMinutes}
+              onChange={(e) => setMaxWalkMinutes(Number(e.target.value))}
+              className="border-2 border-slate-800 rounded-[20px] px-3 py-2 font-normal"
+            >
+              {MAX_WALK_OPTIONS.map((option) => (
+                <option key={option} value={option}>
+                  {option} min
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <button
+          onClick={handlePlanCrawl}
+          disabled={isPlanningCrawl}
+          className="flex flex-row items-center justify-center gap-2 rounded-[30px] bg-[#2962FF] text-white px-4 py-3 text-xs font-bold font-poppins disabled:opacity-50"
+        >
+          <Sun className="w-4 h-4" />
+          {isPlanningCrawl ? "Planning..." : "Plan Crawl"}
+        </button>
+
+        {crawlError && (
+          <p className="text-xs text-red-600">
+            Couldn't plan the crawl: {crawlError.message}
+          </p>
+        )}
+
+        {crawlRequest &&
+          !isPlanningCrawl &&
+          !crawlError &&
+          !crawlPlan &&
+          (isTooLateToStart ? (
+            <p className="text-xs text-slate-600">
+              Too late to fit a stop in before{" "}
+              {formatTimeOfDay(TIME_SLOT_CONFIG.endMinutes)}, try an earlier
+              start
+            </p>
+          ) : (
+            <p className="text-xs text-slate-600">
+              No pubs in walking distance, try a longer walk or move the map
+            </p>
+          ))}
+
+        {crawlPlan && (
+          <>
+            <p className="text-xs font-normal">
+              <strong>{crawlPlan.totalSunMinutes} min</strong> in the sun,{" "}
+              {crawlPlan.totalWalkMinutes} min walking
+            </p>
+
+            <ol className="flex flex-col w-full">
+              {crawlPlan.stops.map(
+                (
+                  { pub, walkMinutes, arrival, departure, sunMinutes },
+                  index
+                ) => (
+                  <li
+                    key={pub.id}
+                    className="flex flex-col gap-1 border-b border-slate-200 py-3"
+                  >
+                    <p className="text-xs text-slate-500 flex items-center gap-1">
+                      <Footprints className="w-3 h-3" />
+                      {walkMinutes} min walk
+                    </p>
+                    <p className="text-sm font-black font-poppins">
+                      {index + 1}. {pub.name}
+                    </p>
+                    <p className="text-xs text-slate-600">
+                      {formatTimeOfDay(arrival)} - {formatTimeOfDay(departure)},{" "}
+                      {sunMinutes} min of sun
+                    </p>
+                  </li>
+                )
+              )}
+            </ol>
+
+            <div className="flex flex-row flex-wrap gap-2">
+              <button
+                onClick={onShareCrawl}
+                className="flex flex-row items-center gap-2 border-2 border-slate-800 rounded-[30px] px-3 py-2 text-xs font-bold font-poppins"
+              >
+                <Share2 className="w-4 h-4" />
+                Share
+              </button>
+              <button
+                onClick={onExportCrawl}
+                className="flex flex-row items-center gap-2 border-2 border-slate-800 rounded-[30px] px-3 py-2 text-xs font-bold font-poppins"
+              >
+                <CalendarPlus className="w-4 h-4" />
+                Add to Calendar
+              </button>
+              <button
+                onClick={onClearCrawl}
+                className="flex flex-row items-center gap-2 border-2 border-slate-400 text-slate-600 rounded-[30px] px-3 py-2 text-xs font-bold font-poppins"
+              >
+                <Trash2 className="w-4 h-4" />
+                Clear
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CrawlPlanner;
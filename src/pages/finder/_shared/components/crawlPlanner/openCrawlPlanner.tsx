@@ -0,0 +1,28 @@
+import { Route } from "lucide-react";
+
+// Hooks
+import useFilters from "../../../../../_shared/hooks/filters/useFilters";
+
+const OpenCrawlPlannerButton = () => {
+  //
+
+  // Hooks
+  const {
+    operations: { onToggleViewCrawlPlanner },
+  } = useFilters();
+
+  //
+
+  // Render
+  return (
+    <button
+      onClick={onToggleViewCrawlPlanner}
+      className="fixed flex flex-row items-center justify-center border-2 gap-2 w-32 top-[114px] right-2 rounded-[30px] bg-white p-3 border-slate-800 text-xs font-bold font-poppins z-[1000]"
+    >
+      <Route className="w-4 h-4" />
+      Plan Crawl
+    </button>
+  );
+};
+
+export default OpenCrawlPlannerButton;
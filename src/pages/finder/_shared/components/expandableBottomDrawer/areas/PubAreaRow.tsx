@@ -5,17 +5,21 @@ import DynamicSunIcon from "../../../../../../_shared/components/dynamicSunIcon"
 
 // Types
 import { SimplePubAreaWithSunPc } from "../../../../../../_shared/hooks/mapMarkers/useMapMarkers";
+import { SunLeft } from "../../../../../../utils/sunLeft";
 
 // Helpers
 import { formatSunPercentage } from "../../../../../../_shared/helpers";
-import { formatHumanizedAreaSize } from "../../../helpers";
+import { formatHumanizedAreaSize, formatRealTime } from "../../../helpers";
 import { formatAreaType } from "../../../../../lists/_shared";
+import { formatTimeOfDay } from "../../../../../../utils/timeSlots";
 
 interface PubAreaRowProps {
   area: SimplePubAreaWithSunPc;
+  sunLeft: SunLeft | null;
+  isLoadingSunLeft: boolean;
 }
 
-const PubAreaRow = ({ area }: PubAreaRowProps) => {
+const PubAreaRow = ({ area, sunLeft, isLoadingSunLeft }: PubAreaRowProps) => {
   //
 
   // State
@@ -80,6 +84,18 @@ const PubAreaRow = ({ area }: PubAreaRowProps) => {
 
   //
 
+  // Variables
+  // Don't claim there's no more sun before the evals have loaded
+  const sunLeftText = isLoadingSunLeft
+    ? "Checking sun left..."
+    : !sunLeft?.nextSunnyWindow
+      ? "No more sun today"
+      : sunLeft.minutesOfSunLeft > 0
+        ? formatRealTime(sunLeft.minutesOfSunLeft)
+        : `Sun from ${formatTimeOfDay(sunLeft.nextSunnyWindow.start)}`;
+
+  //
+
   // Render
   return (
     <div className="flex flex-row items-center justify-between bg-slate-50 p-3 rounded-md text-xs">
@@ -96,6 +112,8 @@ const PubAreaRow = ({ area }: PubAreaRowProps) => {
             {currentText}
           </span>
         </p>
+
+        <p className="text-slate-600">{sunLeftText}</p>
       </div>
       <div className="font-bold font-poppins">
         <div className="flex items-center gap-1">
@@ -3,14 +3,22 @@ import { useMemo } from "react";
 // Types
 import { SimplePubAreaWithSunPc } from "../../../../../../_shared/hooks/mapMarkers/useMapMarkers";
 
+import { SunLeft } from "../../../../../../utils/sunLeft";
+
 // Components
 import PubAreaRow from "./PubAreaRow";
 
 interface PubAreasOverviewProps {
   pubAreas: SimplePubAreaWithSunPc[];
+  sunLeftByArea: Map<number, SunLeft>;
+  isLoadingSunLeft: boolean;
 }
 
-const PubAreasOverview = ({ pubAreas }: PubAreasOverviewProps) => {
+const PubAreasOverview = ({
+  pubAreas,
+  sunLeftByArea,
+  isLoadingSunLeft,
+}: PubAreasOverviewProps) => {
   //
 
   // Variables
@@ -26,7 +34,12 @@ const PubAreasOverview = ({ pubAreas }: PubAreasOverviewProps) => {
       {orderedPubAreas && orderedPubAreas.length > 0 ? (
         <div className="space-y-2">
           {orderedPubAreas.map((area) => (
-            <PubAreaRow key={area.id} area={area} />
+            <PubAreaRow
+              key={area.id}
+              area={area}
+              sunLeft={sunLeftByArea.get(area.id) || null}
+              isLoadingSunLeft={isLoadingSunLeft}
+            />
           ))}
         </div>
       ) : (
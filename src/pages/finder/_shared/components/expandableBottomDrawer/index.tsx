@@ -12,18 +12,20 @@ import ViewPubDetails from "./viewPubDetails";
 import TimeSliderInternals from "../timeSlider/SliderInternals";
 import SelectFilterOptions from "../../components/filters/selectFilterOptions";
 import ViewPubsInMapBoundsAsList from "../listView/pubsInMapBounds";
+import CrawlPlanner from "../crawlPlanner";
 
 const ExpandableBottomDrawer = () => {
   // State for animations
   const [isContentVisible, setIsContentVisible] = useState(true);
   const [isExpanded, setIsExpanded] = useState(false);
   const [activeContent, setActiveContent] = useState<
-    "pub" | "slider" | "filters" | "pubsInMapBounds" | null
+    "pub" | "slider" | "filters" | "pubsInMapBounds" | "crawlPlanner" | null
   >(null);
 
   const prevSelectedPubRef = useRef<Pub | null>(null);
   const prevViewFiltersRef = useRef<boolean>(false);
   const prevShowPubsInMapBoundsRef = useRef<boolean>(false);
+  const prevViewCrawlPlannerRef = useRef<boolean>(false);
 
   // Hooks
   const {
@@ -31,7 +33,7 @@ const ExpandableBottomDrawer = () => {
   } = usePubAreas();
 
   const {
-    data: { viewFilters, viewAsList },
+    data: { viewFilters, viewAsList, viewCrawlPlanner },
   } = useFilters();
 
   // Animation timing constants
@@ -45,6 +47,8 @@ const ExpandableBottomDrawer = () => {
       const hasPub = selectedPub !== null;
       const hadPubsInMapBounds = prevShowPubsInMapBoundsRef.current;
       const hasPubsInMapBounds = viewAsList;
+      const hadCrawlPlanner = prevViewCrawlPlannerRef.current;
+      const hasCrawlPlanner = viewCrawlPlanner;
 
       const hadFilters = prevViewFiltersRef.current;
       const hasFilters = viewFilters;
@@ -53,19 +57,23 @@ const ExpandableBottomDrawer = () => {
       if (
         hadPub === hasPub &&
         hadFilters === hasFilters &&
-        hadPubsInMapBounds === hasPubsInMapBounds
+        hadPubsInMapBounds === hasPubsInMapBounds &&
+        hadCrawlPlanner === hasCrawlPlanner
       ) {
         return;
       }
 
       // Determine the transition type
       const transitionType =
-        !hadPub && !hadFilters && (hasPub || hasFilters || hasPubsInMapBounds)
+        !hadPub &&
+        !hadFilters &&
+        (hasPub || hasFilters || hasPubsInMapBounds || hasCrawlPlanner)
           ? "expand"
-          : (hadPub || hadFilters || hadPubsInMapBounds) &&
+          : (hadPub || hadFilters || hadPubsInMapBounds || hadCrawlPlanner) &&
               !hasPub &&
               !hasFilters &&
-              !hasPubsInMapBounds
+              !hasPubsInMapBounds &&
+              !hasCrawlPlanner
             ? "collapse"
             : "update";
 
@@ -85,18 +93,27 @@ const ExpandableBottomDrawer = () => {
                 newContent = "filters";
               } else if (hasPub) {
                 newContent = "pub";
+              } else if (hasCrawlPlanner) {
+                newContent = "crawlPlanner";
               } else if (hasPubsInMapBounds) {
                 newContent = "pubsInMapBounds";
               }
 
               // Update content type
               setActiveContent(
-                newContent as "pub" | "slider" | "filters" | "pubsInMapBounds"
+                newContent as
+                  | "pub"
+                  | "slider"
+                  | "filters"
+                  | "pubsInMapBounds"
+                  | "crawlPlanner"
               );
 
               // Update height if needed
               if (transitionType !== "update") {
-                setIsExpanded(hasPub || hasFilters || hasPubsInMapBounds);
+                setIsExpanded(
+                  hasPub || hasFilters || hasPubsInMapBounds || hasCrawlPlanner
+                );
               }
 
               // Step 3: After height transition completes (if any), show content
@@ -133,6 +150,7 @@ const ExpandableBottomDrawer = () => {
       prevSelectedPubRef.current = selectedPub;
       prevViewFiltersRef.current = viewFilters;
       prevShowPubsInMapBoundsRef.current = viewAsList;
+      prevViewCrawlPlannerRef.current = viewCrawlPlanner;
     } catch (error) {
       console.error("Error in transition effect:", error);
       // Reset to a safe state
@@ -140,7 +158,7 @@ const ExpandableBottomDrawer = () => {
       setActiveContent("slider");
       setIsExpanded(false);
     }
-  }, [selectedPub, viewFilters, viewAsList]);
+  }, [selectedPub, viewFilters, viewAsList, viewCrawlPlanner]);
 
   // Initialize states based on initial values
   useEffect(() => {
@@ -148,9 +166,12 @@ const ExpandableBottomDrawer = () => {
     const hasPub = !!selectedPub;
     const hasFilters = viewFilters;
     const hasPubsInMapBounds = viewAsList;
+    const hasCrawlPlanner = viewCrawlPlanner;
 
     // Determine initial expanded state and content type
-    setIsExpanded(hasPub || hasFilters || hasPubsInMapBounds);
+    setIsExpanded(
+      hasPub || hasFilters || hasPubsInMapBounds || hasCrawlPlanner
+    );
 
     // Priority: filters > pub > slider
     let initialContent = "slider";
@@ -158,12 +179,19 @@ const ExpandableBottomDrawer = () => {
       initialContent = "filters";
     } else if (hasPub) {
       initialContent = "pub";
+    } else if (hasCrawlPlanner) {
+      initialContent = "crawlPlanner";
     } else if (hasPubsInMapBounds) {
       initialContent = "pubsInMapBounds";
     }
 
     setActiveContent(
-      initialContent as "pub" | "slider" | "filters" | "pubsInMapBounds"
+      initialContent as
+        | "pub"
+        | "slider"
+        | "filters"
+        | "pubsInMapBounds"
+        | "crawlPlanner"
     );
     setIsContentVisible(true); // Start with content visible
 
@@ -171,6 +199,7 @@ const ExpandableBottomDrawer = () => {
     prevSelectedPubRef.current = selectedPub;
     prevViewFiltersRef.current = viewFilters;
     prevShowPubsInMapBoundsRef.current = viewAsList;
+    prevViewCrawlPlannerRef.current = viewCrawlPlanner;
   }, []);
 
   return (
@@ -185,6 +214,7 @@ const ExpandableBottomDrawer = () => {
         {activeContent === "slider" && <TimeSliderInternals />}
         {activeContent === "filters" && <SelectFilterOptions />}
         {activeContent === "pubsInMapBounds" && <ViewPubsInMapBoundsAsList />}
+        {activeContent === "crawlPlanner" && <CrawlPlanner />}
       </div>
     </div>
   );
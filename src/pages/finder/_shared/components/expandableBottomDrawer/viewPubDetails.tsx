@@ -7,9 +7,6 @@ import useSunEvals from "../../../../../_shared/hooks/sunEvals/useSunEvals";
 import useHeroMetrics from "../../../../../_shared/hooks/heroMetrics/useHeroMetrics";
 import { usePubAreasContext } from "../../../../../_shared/providers/PubAreasProvider";
 
-// Constants
-import { SUN_THRESHOLDS } from "../../../../../_shared/hooks/mapMarkers/useMapMarkers";
-
 // Components
 import LocationDetails from "./LocationDetails";
 import TimeLeftInTheSun from "./TImeLeftInTheSun";
@@ -17,9 +14,22 @@ import PubAreasOverview from "./areas/PubAreasOverview";
 import DynamicSunIconWithBorder from "../../../../../_shared/components/DynamicSunIconWithBorder";
 
 // Helpers
-import { formatTimeSlot } from "../../helpers";
 import { formatShortAddress } from "../../../../lists/pubs/_shared/helpers";
 import { formatSunPercentage } from "../../../../../_shared/helpers";
+import {
+  formatTimeOfDay,
+  getDateForMinutes,
+  getTimeSlotMinutes,
+  TIME_SLOT_CONFIG,
+} from "../../../../../utils/timeSlots";
+import {
+  calculateSunLeftByArea,
+  getBestSunLeft,
+} from "../../../../../utils/sunLeft";
+import {
+  calculateSolarEvents,
+  isSunUp,
+} from "../../../../../utils/solarEvents";
 
 // Icons
 import { ChevronRight, ExternalLink, X } from "lucide-react";
@@ -45,7 +55,12 @@ const ViewPubDetails = () => {
   } = useHeroMetrics();
 
   const {
-    data: { sunEvalsForAllPubAreas = [], selectedTimeslot = 0 },
+    data: {
+      sunEvalsForAllPubAreas = [],
+      selectedTimeslot = 0,
+      forecastDay,
+      isLoadingSunEvalsForAllPubAreas: isLoadingSunLeft,
+    },
   } = useSunEvals();
 
   const navigate = useNavigate();
@@ -83,56 +98,63 @@ const ViewPubDetails = () => {
 
   const { bestSunPercent = 0, pubAreas = [] } = selectedPubMarker || {};
 
-  // Calculate the sun eval with the pc_in_sun above SOME_SUN threshold and the highest time value
-  const latestSomeSunEval = useMemo(() => {
-    if (!sunEvalsForAllPubAreas || sunEvalsForAllPubAreas.length === 0) {
-      return null;
-    }
+  // Sunrise/sunset for the forecast day at the pub
+  const solarEvents = useMemo(() => {
+    if (!selectedPub) return null;
 
-    // Find the first evaluation with some sun to use as initial value
-    const initialEval = sunEvalsForAllPubAreas.find(
-      (sunEval) => sunEval.pc_in_sun >= SUN_THRESHOLDS.SOME
+    return calculateSolarEvents(
+      forecastDay,
+      selectedPub.latitude,
+      selectedPub.longitude
     );
+  }, [selectedPub, forecastDay]);
 
-    // If no evals have sun, return null
-    if (!initialEval) {
-      return null;
-    }
+  // Only count timeslots while the sun is actually above the horizon
+  const daylightSunEvals = useMemo(() => {
+    if (!solarEvents) return sunEvalsForAllPubAreas;
 
-    return sunEvalsForAllPubAreas.reduce((prev, current) => {
-      if (
-        current.pc_in_sun >= SUN_THRESHOLDS.SOME &&
-        current.time > prev.time
-      ) {
-        return current;
-      }
-      return prev;
-    }, initialEval);
-  }, [sunEvalsForAllPubAreas]);
+    return sunEvalsForAllPubAreas.filter((sunEval) =>
+      isSunUp(getDateForMinutes(sunEval.time, forecastDay), solarEvents)
+    );
+  }, [sunEvalsForAllPubAreas, solarEvents, forecastDay]);
 
   const highestSunPcEval = useMemo(() => {
-    if (!sunEvalsForAllPubAreas || sunEvalsForAllPubAreas.length === 0) {
+    if (!daylightSunEvals || daylightSunEvals.length === 0) {
       return null;
     }
 
-    return sunEvalsForAllPubAreas.reduce((prev, current) => {
+    return daylightSunEvals.reduce((prev, current) => {
       if (current.pc_in_sun > prev.pc_in_sun) {
         return current;
       }
       return prev;
-    }, sunEvalsForAllPubAreas[0]);
-  }, [sunEvalsForAllPubAreas]);
+    }, daylightSunEvals[0]);
+  }, [daylightSunEvals]);
+
+  // Sun left from the selected timeslot for each area
+  const sunLeftByArea = useMemo(
+    () =>
+      calculateSunLeftByArea(
+        daylightSunEvals,
+        getTimeSlotMinutes(selectedTimeslot || 0)
+      ),
+    [daylightSunEvals, selectedTimeslot]
+  );
 
-  // Find how many minutes left in the sun between now (selectedTimeslot) and the latestSomeSunEval's time
-  const minutesLeftInSun = useMemo(() => {
-    if (!latestSomeSunEval) return null;
-    // Calculate the difference in timeslots
-    const timeslotDifference = latestSomeSunEval.time - (selectedTimeslot || 0);
+  // Only the areas shown count towards the pub's sun left
+  const bestSunLeft = useMemo(
+    () =>
+      getBestSunLeft(
+        pubAreas.flatMap((area) => sunLeftByArea.get(area.id) || [])
+      ),
+    [sunLeftByArea, pubAreas]
+  );
 
-    // Each timeslot represents 15 minutes
-    const minutesLeft = timeslotDifference * 15;
-    return minutesLeft > 0 ? minutesLeft : null;
-  }, [latestSomeSunEval, selectedTimeslot]);
+  const {
+    minutesOfSunLeft = 0,
+    nextSunnyWindow = null,
+    endOfSun = null,
+  } = bestSunLeft || {};
 
   return (
     <div
@@ -179,24 +201,55 @@ const ViewPubDetails = () => {
                 </p>
               </div>
               <p className="text-xs text-slate-600">
-                Peak: {formatTimeSlot(highestSunPcEval?.time || 0)} (
-                {formatSunPercentage(highestSunPcEval?.pc_in_sun || 0)}%)
+                Peak:{" "}
+                {formatTimeOfDay(
+                  highestSunPcEval?.time || TIME_SLOT_CONFIG.startMinutes
+                )}{" "}
+                ({formatSunPercentage(highestSunPcEval?.pc_in_sun || 0)}%)
               </p>
             </div>
             <div className="flex flex-col p-3 bg-slate-50 rounded-md gap-2">
-              <h4 className="font-bold mb-1">In the sun until</h4>
+              <h4 className="font-bold mb-1">
+                {minutesOfSunLeft > 0 ? "In the sun until" : "Next sun"}
+              </h4>
               <div className="flex items-center gap-1">
                 <p className="text-sm font-bold font-poppins whitespace-nowrap overflow-hidden">
-                  {formatTimeSlot(latestSomeSunEval?.time || 0)}
+                  {isLoadingSunLeft
+                    ? "..."
+                    : !nextSunnyWindow
+                      ? "No more sun today"
+                      : formatTimeOfDay(
+                          minutesOfSunLeft > 0
+                            ? nextSunnyWindow.end
+                            : nextSunnyWindow.start
+                        )}
                 </p>
               </div>
-              {(latestSomeSunEval?.time || 0) > 0 && (
-                <TimeLeftInTheSun minutesLeftInSun={minutesLeftInSun || 0} />
+              {minutesOfSunLeft > 0 && (
+                <TimeLeftInTheSun minutesLeftInSun={minutesOfSunLeft} />
+              )}
+              {endOfSun !== null && endOfSun !== nextSunnyWindow?.end && (
+                <p className="text-xs text-slate-600">
+                  Last sun ends {formatTimeOfDay(endOfSun)}
+                </p>
+              )}
+              {solarEvents?.sunset && (
+                <p className="text-xs text-slate-600">
+                  Sunset:{" "}
+                  {solarEvents.sunset.toLocaleTimeString([], {
+                    hour: "2-digit",
+                    minute: "2-digit",
+                  })}
+                </p>
               )}
             </div>
           </div>
 
-          <PubAreasOverview pubAreas={pubAreas} />
+          <PubAreasOverview
+            pubAreas={pubAreas}
+            sunLeftByArea={sunLeftByArea}
+            isLoadingSunLeft={isLoadingSunLeft}
+          />
 
           <LocationDetails />
         </div>
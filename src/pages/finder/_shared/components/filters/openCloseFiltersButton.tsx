@@ -8,15 +8,19 @@ const OpenCloseFiltersButton = () => {
 
   // Hooks
   const {
-    data: { viewFilters, viewAsList },
-    operations: { onToggleViewFilters, onToggleViewAsList },
+    data: { viewFilters, viewAsList, viewCrawlPlanner },
+    operations: {
+      onToggleViewFilters,
+      onToggleViewAsList,
+      onToggleViewCrawlPlanner,
+    },
   } = useFilters();
 
   //
 
   // Variables
 
-  const showCloseButton = viewFilters || viewAsList;
+  const showCloseButton = viewFilters || viewAsList || viewCrawlPlanner;
 
   //
 
@@ -24,6 +28,8 @@ const OpenCloseFiltersButton = () => {
   const handleClickToOpenOrCloseFilters = () => {
     if (viewAsList) {
       onToggleViewAsList();
+    } else if (viewCrawlPlanner) {
+      onToggleViewCrawlPlanner();
     } else {
       onToggleViewFilters();
     }
@@ -1,9 +1,16 @@
 // Hooks
 import useFilters from "../../../../../_shared/hooks/filters/useFilters";
 import useHeroMetrics from "../../../../../_shared/hooks/heroMetrics/useHeroMetrics";
+import useSunQuality from "../../../../../_shared/hooks/sunQuality/useSunQuality";
+
+// Context
+import { useGeoLocationContext } from "../../../../../_shared/providers/useGeolocationContext";
 
 // Enums
-import { AreaType } from "../../../../../_shared/providers/FiltersProvider";
+import {
+  AreaType,
+  SunQuality,
+} from "../../../../../_shared/providers/FiltersProvider";
 
 // Helpers
 import {
@@ -11,10 +18,11 @@ import {
   getSunPercentageFromOption,
 } from "../../helpers";
 import { formatAreaType } from "../../../../lists/_shared";
+import { formatSeason } from "../../../../../utils/sunQuality";
 
 // Components
 import DynamicSunIconWithBorder from "../../../../../_shared/components/DynamicSunIconWithBorder";
-import { Check, Circle } from "lucide-react";
+import { Check, Circle, Footprints, Users } from "lucide-react";
 
 const SelectFilterOptions = () => {
   //
@@ -25,10 +33,13 @@ const SelectFilterOptions = () => {
       // Options
       sunQualityOptions = [],
       areaTypeOptions = [],
+      groupSizeOptions = [],
 
       // Filters
       sunQualityFilters = [],
       areaTypeFilters = [],
+      groupSizeFilter = null,
+      reachableFilter = false,
 
       // Pubs filtered by sun quality
       pubsToShowAfterFilteringBySunQuality = [],
@@ -37,19 +48,37 @@ const SelectFilterOptions = () => {
       // Areas filtered by area type
       areaTypesToShowAfterFilteringByAreaType = [],
     },
-    operations: { onSunQualityFilterClick, onAreaTypeFilterClick },
+    operations: {
+      onSunQualityFilterClick,
+      onAreaTypeFilterClick,
+      onGroupSizeFilterClick,
+      onToggleReachableFilter,
+    },
   } = useFilters();
 
+  const {
+    geoLocationState: { userLatitude, userLongitude },
+  } = useGeoLocationContext();
+
   const {
     data: { goodSunCount = 0, someSunCount = 0, noneSunCount = 0 },
   } = useHeroMetrics();
 
+  const {
+    data: { season, thresholds, isCustomThresholds },
+    operations: { onChangeThresholds, onResetThresholds },
+  } = useSunQuality();
+
   //
 
   // Variables
 
   const showingAllPubs = sunQualityFilters.length === sunQualityOptions.length;
-  const showingAllAreas = areaTypeFilters.length === areaTypeOptions.length;
+  const showingAllAreas =
+    areaTypeFilters.length === areaTypeOptions.length && !groupSizeFilter;
+
+  // Walks need the user's location
+  const hasUserLocation = !!(userLatitude || userLongitude);
 
   //
 
@@ -102,6 +131,59 @@ const SelectFilterOptions = () => {
           <strong>{pubsToShowAfterFilteringBySunQuality.length} pubs</strong>
         </p>
 
+        <div className="flex flex-row items-center justify-between w-full mt-4 mb-4">
+          <p className="text-xs font-bold">Sun Quality Thresholds</p>
+
+          {isCustomThresholds ? (
+            <button
+              onClick={onResetThresholds}
+              className="text-xs font-normal font-poppins underline cursor-pointer"
+            >
+              Reset to {formatSeason(season)} defaults
+            </button>
+          ) : (
+            <p className="text-xs font-normal font-poppins text-slate-500">
+              {formatSeason(season)} defaults
+            </p>
+          )}
+        </div>
+
+        <div className="flex flex-col gap-3 w-full">
+          {[
+            {
+              key: "GOOD" as const,
+              label: formatSunQualityFilterOption(SunQuality.GOOD),
+            },
+            {
+              key: "SOME" as const,
+              label: formatSunQualityFilterOption(SunQuality.SOME),
+            },
+          ].map(({ key, label }) => (
+            <label
+              key={key}
+              className="flex flex-row items-center justify-between gap-4 w-full"
+            >
+              <p className="text-xs font-bold font-poppins w-24">{label}</p>
+
+              <input
+                type="range"
+                min={0}
+                max={100}
+                step={5}
+                value={thresholds[key]}
+                onChange={(e) =>
+                  onChangeThresholds({ [key]: Number(e.target.value) })
+                }
+                className="flex-1 accent-amber-400"
+              />
+
+              <p className="text-xs font-normal font-poppins w-16 text-right">
+                from {thresholds[key]}
+              </p>
+            </label>
+          ))}
+        </div>
+
         <p className="text-xs font-bold mt-4 mb-4">Area Type</p>
 
         <div className="flex flex-row items-center justify-start gap-2 flex-wrap">
@@ -136,6 +218,61 @@ const SelectFilterOptions = () => {
           })}
         </div>
 
+        <p className="text-xs font-bold mt-4 mb-4">Group Size</p>
+
+        <div className="flex flex-row items-center justify-start gap-2 flex-wrap">
+          {groupSizeOptions.map((option) => {
+            const isSelected = groupSizeFilter === option;
+
+            const areasWithRoom =
+              areaTypesToShowAfterFilteringBySunQuality.filter(
+                ({ estimated_seats }) => estimated_seats >= option
+              );
+
+            return (
+              <button
+                key={option}
+                onClick={() => onGroupSizeFilterClick(option)}
+                className={`flex flex-row items-center transition-all rounded-[20px] duration-300 cursor-pointer justify-center gap-2 border-2 p-3 ${isSelected ? "border-gray-800 opacity-100 " : "border-gray-600 opacity-30"}`}
+              >
+                {isSelected ? (
+                  <Check className="w-4 h-4" />
+                ) : (
+                  <Users className="w-4 h-4" />
+                )}
+                <p className="text-xs font-bold font-poppins">{option}+</p>
+
+                <p className="text-xs font-normal font-poppins">
+                  ({areasWithRoom.length} Areas)
+                </p>
+              </button>
+            );
+          })}
+        </div>
+
+        <p className="text-xs font-bold mt-4 mb-4">Walking Distance</p>
+
+        <button
+          onClick={onToggleReachableFilter}
+          disabled={!hasUserLocation}
+          className={`flex flex-row items-center transition-all rounded-[20px] duration-300 cursor-pointer justify-center gap-2 border-2 p-3 disabled:cursor-not-allowed ${reachableFilter && hasUserLocation ? "border-gray-800 opacity-100 " : "border-gray-600 opacity-30"}`}
+        >
+          {reachableFilter && hasUserLocation ? (
+            <Check className="w-4 h-4" />
+          ) : (
+            <Footprints className="w-4 h-4" />
+          )}
+          <p className="text-xs font-bold font-poppins">
+            Reachable before the sun goes
+          </p>
+        </button>
+
+        {!hasUserLocation && (
+          <p className="text-xs font-normal mt-2 text-slate-600">
+            Share your location to see how far each pub is
+          </p>
+        )}
+
         <p className="text-xs font-normal mt-2">
           {showingAllAreas ? (
             "Showing all Areas"
@@ -1,60 +1,22 @@
 import DynamicSunIcon from "../../../../../_shared/components/dynamicSunIcon";
 import { MapReadyMarker } from "../../../../../_shared/hooks/mapMarkers/useMapMarkers";
-import { useGeoLocationContext } from "../../../../../_shared/providers/useGeolocationContext";
-import { useMemo } from "react";
 import { formatAreaType } from "../../../../lists/_shared";
 import { formatShortAddress } from "../../../../lists/pubs/_shared/helpers";
 import { ExternalLink } from "lucide-react";
 import { formatSunPercentage } from "../../../../../_shared/helpers";
+import { formatRealTime } from "../../helpers";
+import {
+  formatDistance,
+  formatWalkingTime,
+} from "../../../../../utils/walkingRoutes";
 
 interface PubListRowProps {
   marker: MapReadyMarker;
+  minutesOfSunLeft: number;
 }
 
-// Utility function to calculate distance between two coordinates in kilometers
-const calculateDistance = (
-  lat1: number,
-  lon1: number,
-  lat2: number,
-  lon2: number
-): number => {
-  const R = 6371; // Radius of the Earth in kilometers
-  const dLat = (lat2 - lat1) * (Math.PI / 180);
-  const dLon = (lon2 - lon1) * (Math.PI / 180);
-  const a =
-    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos(lat1 * (Math.PI / 180)) *
-      Math.cos(lat2 * (Math.PI / 180)) *
-      Math.sin(dLon / 2) *
-      Math.sin(dLon / 2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  return R * c;
-};
-
-// Utility function to format distance
-const formatDistance = (distance: number): string => {
-  if (distance < 1) {
-    return `${Math.round(distance * 1000)}m`;
-  }
-  return `${distance.toFixed(1)}km`;
-};
-
-const PubListRow = ({ marker }: PubListRowProps) => {
-  const { geoLocationState } = useGeoLocationContext();
-  const { userLatitude, userLongitude } = geoLocationState;
-
-  // Calculate distance from user to pub
-  const distance = useMemo(() => {
-    if (userLatitude && userLongitude) {
-      return calculateDistance(
-        userLatitude,
-        userLongitude,
-        marker.pub.latitude,
-        marker.pub.longitude
-      );
-    }
-    return null;
-  }, [userLatitude, userLongitude, marker.pub.latitude, marker.pub.longitude]);
+const PubListRow = ({ marker, minutesOfSunLeft }: PubListRowProps) => {
+  const { walkingRoute } = marker;
 
   return (
     <div className="flex flex-col gap-4 w-full border-b border-slate-200 pb-4 pt-8">
@@ -75,10 +37,15 @@ const PubListRow = ({ marker }: PubListRowProps) => {
             </a>
           </div>
         </div>
-        {distance !== null && (
-          <p className="text-xs font-normal text-slate-600">
-            {formatDistance(distance)}
-          </p>
+        {walkingRoute && (
+          <div className="flex flex-col items-end">
+            <p className="text-xs font-normal text-slate-600">
+              {formatDistance(walkingRoute.distance)}
+            </p>
+            <p className="text-xs font-normal text-slate-500">
+              {formatWalkingTime(walkingRoute.walkingMinutes)}
+            </p>
+          </div>
         )}
       </div>
 
@@ -95,6 +62,9 @@ const PubListRow = ({ marker }: PubListRowProps) => {
         <p className="text-xs font-medium ml-4">
           {formatSunPercentage(marker.bestSunPercent)}% sun
         </p>
+        <p className="text-xs font-normal text-slate-600 ml-auto">
+          {formatRealTime(minutesOfSunLeft)}
+        </p>
       </div>
 
       {/* Area names */}
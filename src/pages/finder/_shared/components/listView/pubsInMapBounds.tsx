@@ -2,11 +2,14 @@ import { useMemo } from "react";
 
 // Hooks
 import useMapMarkers from "../../../../../_shared/hooks/mapMarkers/useMapMarkers";
+import useMapReadySunLeft from "../../../../../_shared/hooks/sunLeft/useMapReadySunLeft";
+import useFilters from "../../../../../_shared/hooks/filters/useFilters";
 
 // Components
 import PubListRow from "./pubListRow";
 import useSunEvals from "../../../../../_shared/hooks/sunEvals/useSunEvals";
-import { formatTimeSlot } from "../../helpers";
+import { formatTimeSlot } from "../../../../../utils/timeSlots";
+import { getBestSunLeft } from "../../../../../utils/sunLeft";
 
 const ViewPubsInMapBoundsAsList = () => {
   //
@@ -18,29 +21,86 @@ const ViewPubsInMapBoundsAsList = () => {
   const {
     data: { mapReadyMarkers = [] },
   } = useMapMarkers();
+  const {
+    data: { sortListByDistance },
+    operations: { onToggleSortListByDistance },
+  } = useFilters();
+
+  const {
+    data: { sunLeftByArea },
+  } = useMapReadySunLeft();
 
   //
 
   // Variables
 
+  // Walks are only known once we have the user's location
+  const hasWalkingRoutes = mapReadyMarkers.some(
+    ({ walkingRoute }) => !!walkingRoute
+  );
+  const isSortedByDistance = sortListByDistance && hasWalkingRoutes;
+
+  // Best sun score first, then the most sun left. Or nearest first, with
+  // pubs we couldn't route to at the end.
   const sortedMarkers = useMemo(() => {
-    return mapReadyMarkers.sort((a, b) => b.bestSunPercent - a.bestSunPercent);
-  }, [mapReadyMarkers]);
+    return mapReadyMarkers
+      .map((marker) => ({
+        marker,
+        minutesOfSunLeft:
+          getBestSunLeft(
+            marker.pubAreas.flatMap(({ id }) => sunLeftByArea.get(id) || [])
+          )?.minutesOfSunLeft || 0,
+      }))
+      .sort((a, b) => {
+        if (isSortedByDistance) {
+          // NaN when neither has a route, which falls through to the sun
+          const byDistance =
+            (a.marker.walkingRoute?.distance ?? Infinity) -
+            (b.marker.walkingRoute?.distance ?? Infinity);
+
+          if (byDistance) return byDistance;
+        }
+
+        return (
+          b.marker.sunScore - a.marker.sunScore ||
+          b.minutesOfSunLeft - a.minutesOfSunLeft
+        );
+      });
+  }, [mapReadyMarkers, sunLeftByArea, isSortedByDistance]);
 
   //
 
   // Render
   return (
     <div className="flex flex-col gap-2 pt-4">
-      <p className="text-lg font-black font-poppins">Your sunniest Pubs</p>
+      <div className="flex items-center justify-between">
+        <p className="text-lg font-black font-poppins">
+          {isSortedByDistance ? "Your nearest Pubs" : "Your sunniest Pubs"}
+        </p>
+        {hasWalkingRoutes && (
+          <button
+            onClick={onToggleSortListByDistance}
+            className="text-xs font-bold font-poppins border-2 border-slate-800 rounded-[30px] px-3 py-1"
+          >
+            {isSortedByDistance ? "Sort by sun" : "Sort by distance"}
+          </button>
+        )}
+      </div>
       <p className="text-xs font-normal text-slate-600 mb-2">
-        Showing sunniest to least sunny for{" "}
-        <strong>{formatTimeSlot(selectedTimeslot || 0)}</strong> today
+        Showing{" "}
+        {isSortedByDistance ? "nearest to furthest" : "sunniest to least sunny"}{" "}
+        for <strong>{formatTimeSlot(selectedTimeslot || 0)}</strong> today
       </p>
 
       <div className="relative flex flex-col items-start justify-start h-[calc(75vh-70px)] border-t border-slate-200 overflow-y-auto pb-20 pt-2">
-        {sortedMarkers.map((marker) => {
-          return <PubListRow key={marker.pub.id} marker={marker} />;
+        {sortedMarkers.map(({ marker, minutesOfSunLeft }) => {
+          return (
+            <PubListRow
+              key={marker.pub.id}
+              marker={marker}
+              minutesOfSunLeft={minutesOfSunLeft}
+            />
+          );
         })}
       </div>
     </div>
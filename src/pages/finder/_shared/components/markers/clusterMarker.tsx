@@ -0,0 +1,54 @@
+import { OverlayView, useGoogleMap } from "@react-google-maps/api";
+
+// Enums
+import { SunQuality } from "../../../../../_shared/providers/FiltersProvider";
+
+// Types
+import { MarkerCluster } from "../../../../../_shared/hooks/mapMarkers/useMapMarkers";
+
+// Helpers
+import { getPixelPositionOffset } from "../../helpers";
+
+interface ClusterMarkerProps {
+  cluster: MarkerCluster;
+}
+
+// Several pubs too close to tell apart at this zoom, click to zoom in on them
+const ClusterMarker = ({ cluster }: ClusterMarkerProps) => {
+  // Variables
+  const { center, bounds, markers, sunQuality } = cluster;
+
+  // Hooks
+  const map = useGoogleMap();
+
+  const handleClick = () => {
+    map?.fitBounds(bounds, 60);
+  };
+
+  return (
+    <OverlayView
+      position={center}
+      mapPaneName={OverlayView.OVERLAY_MOUSE_TARGET}
+      getPixelPositionOffset={getPixelPositionOffset}
+    >
+      <div
+        className="w-[44px] h-[44px] bg-white rounded-full flex items-center justify-center cursor-pointer text-sm font-semibold"
+        onClick={handleClick}
+        style={{
+          border: `3px solid ${
+            sunQuality === SunQuality.GOOD
+              ? "#FFCC00"
+              : sunQuality === SunQuality.SOME
+                ? "#FFE580"
+                : "#b7b7b7"
+          }`,
+        }}
+        aria-label={`${markers.length} pubs`}
+      >
+        {markers.length}
+      </div>
+    </OverlayView>
+  );
+};
+
+export default ClusterMarker;
@@ -0,0 +1,63 @@
+import { OverlayView, Polyline } from "@react-google-maps/api";
+
+// Hooks
+import useCrawlPlanner from "../../hooks/useCrawlPlanner";
+
+// Helpers
+import { formatTimeOfDay } from "../../../../../utils/timeSlots";
+
+// Centres the stop's label on the pub, it's about 96 x 36 pixels
+const getStopLabelOffset = () => ({
+  x: -48,
+  y: -18,
+});
+
+// The planned crawl on the map: the walk between stops, and when to be at
+// each one
+const CrawlRoute = () => {
+  //
+
+  // Hooks
+  const {
+    data: { crawlRequest, crawlPlan },
+  } = useCrawlPlanner();
+
+  if (!crawlRequest || !crawlPlan) return null;
+
+  return (
+    <>
+      <Polyline
+        path={[
+          crawlRequest.start,
+          ...crawlPlan.stops.map(({ pub }) => pub.location),
+        ]}
+        options={{
+          strokeColor: "#2962FF",
+          strokeOpacity: 0.8,
+          strokeWeight: 4,
+          clickable: false,
+        }}
+      />
+
+      {crawlPlan.stops.map(({ pub, arrival, departure }, index) => (
+        <OverlayView
+          key={pub.id}
+          position={pub.location}
+          mapPaneName={OverlayView.FLOAT_PANE}
+          getPixelPositionOffset={getStopLabelOffset}
+        >
+          <div className="w-[96px] flex flex-row items-center gap-1 rounded-[20px] bg-[#2962FF] text-white border-2 border-white px-2 py-1 font-poppins pointer-events-none">
+            <span className="text-sm font-black">{index + 1}</span>
+            <span className="text-[10px] font-bold leading-tight">
+              {formatTimeOfDay(arrival)}
+              <br />
+              {formatTimeOfDay(departure)}
+            </span>
+          </div>
+        </OverlayView>
+      ))}
+    </>
+  );
+};
+
+export default CrawlRoute;
@@ -3,18 +3,26 @@ import useMapMarkers from "../../../../../_shared/hooks/mapMarkers/useMapMarkers
 
 // Components
 import MobileMarker from "./mobileMarker";
+import ClusterMarker from "./clusterMarker";
 
 const RenderFilteredMarkers = () => {
   // Hooks
   const {
-    data: { filteredBySunQualityMarkers = [] },
+    data: { markerClusters = [] },
   } = useMapMarkers();
 
   return (
     <>
-      {filteredBySunQualityMarkers.map((mapMarker) => (
-        <MobileMarker key={mapMarker?.pub?.id} mapMarker={mapMarker} />
-      ))}
+      {markerClusters.map((cluster) =>
+        cluster.markers.length === 1 ? (
+          <MobileMarker
+            key={cluster.markers[0].pub.id}
+            mapMarker={cluster.markers[0]}
+          />
+        ) : (
+          <ClusterMarker key={cluster.key} cluster={cluster} />
+        )
+      )}
     </>
   );
 };
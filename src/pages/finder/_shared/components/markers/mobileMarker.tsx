@@ -1,5 +1,8 @@
 import { Marker, OverlayView } from "@react-google-maps/api";
 
+// Enums
+import { SunQuality } from "../../../../../_shared/providers/FiltersProvider";
+
 // Hooks
 import useFilters from "../../../../../_shared/hooks/filters/useFilters";
 import usePubAreas from "../../../../../_shared/hooks/pubAreas/usePubAreas";
@@ -19,7 +22,7 @@ interface MobileMarkerProps {
 
 const MobileMarker = ({ mapMarker }: MobileMarkerProps) => {
   // Variables
-  const { bestSunPercent = 0, pub } = mapMarker || {};
+  const { bestSunPercent = 0, sunQuality, pub } = mapMarker || {};
   const { id: pubId, latitude, longitude } = pub || {};
 
   // Hooks
@@ -66,9 +69,9 @@ const MobileMarker = ({ mapMarker }: MobileMarkerProps) => {
           className="w-[44px] h-[44px] bg-white rounded-full flex items-center justify-center relative cursor-pointer"
           onClick={handleClick}
           style={{
-            ...(bestSunPercent >= 75
+            ...(sunQuality === SunQuality.GOOD
               ? { border: "2px solid #FFCC00" }
-              : bestSunPercent >= 50
+              : sunQuality === SunQuality.SOME
                 ? {
                     // For the middle tier, we'll use a pseudo-element with a gradient
                     // The actual styling is handled in the :before pseudo-element
@@ -81,7 +84,7 @@ const MobileMarker = ({ mapMarker }: MobileMarkerProps) => {
           }}
         >
           {/* Gradient border for middle tier */}
-          {bestSunPercent >= 50 && bestSunPercent < 75 && (
+          {sunQuality === SunQuality.SOME && (
             <div
               className="absolute inset-0 rounded-full z-[-1]"
               style={{
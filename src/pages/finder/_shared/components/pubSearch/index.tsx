@@ -0,0 +1,111 @@
+import { Search, X } from "lucide-react";
+
+// Hooks
+import usePubSearch from "../../hooks/usePubSearch";
+
+// Helpers
+import {
+  extractPostCodeFromAddress,
+  formatShortAddress,
+} from "../../../../lists/pubs/_shared/helpers";
+
+const LISTBOX_ID = "pub-search-results";
+
+const getOptionId = (pubId: number) => `pub-search-result-${pubId}`;
+
+const PubSearch = () => {
+  //
+
+  // Hooks
+  const {
+    data: { query, results, highlightedIndex, isOpen },
+    operations: { onChangeQuery, onKeyDown, onPickResult, onClear, onClose },
+  } = usePubSearch();
+
+  //
+
+  // Variables
+  const highlightedResult = results[highlightedIndex];
+
+  //
+
+  // Render
+  return (
+    <div className="fixed top-[82px] left-2 w-[calc(100%-9.5rem)] max-w-sm z-[1000] font-poppins">
+      <div className="flex flex-row items-center gap-2 rounded-[30px] bg-white border-2 border-slate-800 px-3 py-2">
+        <Search className="w-4 h-4 shrink-0" />
+        <input
+          type="text"
+          role="combobox"
+          aria-label="Search pubs by name, address or postcode"
+          aria-expanded={isOpen}
+          aria-controls={LISTBOX_ID}
+          aria-autocomplete="list"
+          aria-activedescendant={
+            highlightedResult
+              ? getOptionId(highlightedResult.pub.id)
+              : undefined
+          }
+          placeholder="Search pubs or postcodes"
+          value={query}
+          onChange={(e) => onChangeQuery(e.target.value)}
+          onKeyDown={onKeyDown}
+          onBlur={onClose}
+          className="w-full text-xs font-medium outline-none bg-transparent"
+        />
+        {query && (
+          <button onClick={onClear} aria-label="Clear search">
+            <X className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      {isOpen && (
+        <ul
+          id={LISTBOX_ID}
+          role="listbox"
+          className="mt-2 bg-white rounded-2xl border-2 border-slate-800 overflow-hidden"
+        >
+          {results.length === 0 && (
+            <li className="px-4 py-3 text-xs text-slate-600">
+              No pubs match "{query}"
+            </li>
+          )}
+
+          {results.map((result, index) => {
+            const { pub, matchedOn } = result;
+            const isHighlighted = index === highlightedIndex;
+
+            return (
+              <li
+                key={pub.id}
+                id={getOptionId(pub.id)}
+                role="option"
+                aria-selected={isHighlighted}
+                // Pick before the input's blur closes the list
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  onPickResult(result);
+                }}
+                className={`flex flex-col px-4 py-2 cursor-pointer border-b border-slate-100 last:border-b-0 ${isHighlighted ? "bg-slate-100" : "hover:bg-slate-50"}`}
+              >
+                <span className="text-sm font-black">{pub.name}</span>
+                <span className="text-xs text-slate-600">
+                  {formatShortAddress(pub.address_text || "")}
+                  {matchedOn === "postcode" && (
+                    <strong>
+                      {" "}
+                      {extractPostCodeFromAddress(pub.address_text || "")}
+                    </strong>
+                  )}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default PubSearch;
@@ -1,21 +1,40 @@
 import { useEffect, useState, useRef } from "react";
+import { Pause, Play } from "lucide-react";
 
 // Hooks
 import useDeviceDetect from "../../../../../_shared/hooks/useDeviceDetect";
 import useSunEvals from "../../../../../_shared/hooks/sunEvals/useSunEvals";
+import useTimeslotPlayback, {
+  PLAYBACK_SPEEDS,
+} from "../../hooks/useTimeslotPlayback";
+import useSunTimeline from "../../hooks/useSunTimeline";
+
+// Components
+import ForecastDatePicker from "../../../../../_shared/components/ForecastDatePicker";
+import SunSparkline from "./SunSparkline";
 
 // Helpers
-import { formatTimeSlot } from "../../helpers";
+import { formatTimeSlot, LAST_TIME_SLOT } from "../../../../../utils/timeSlots";
+import { formatForecastDay } from "../../helpers";
 
 const TimeSliderInternals = () => {
   //
 
   // Hooks
   const {
-    data: { selectedTimeslot },
+    data: { selectedTimeslot, forecastDay, isSunEvalsForTimeslotInterpolated },
     operations: { onChangeSunEvalsState, onSeedCurrentTimeSlot },
   } = useSunEvals();
 
+  const {
+    data: { isPlaying, playbackSpeed },
+    operations: { onTogglePlayback, onSetPlaybackSpeed },
+  } = useTimeslotPlayback();
+
+  const {
+    data: { fullSunPubCounts },
+  } = useSunTimeline();
+
   const { isMobile } = useDeviceDetect();
 
   // Local state to track slider value
@@ -49,7 +68,7 @@ const TimeSliderInternals = () => {
     if (sliderRef.current) {
       const slider = sliderRef.current;
       const min = parseInt(slider.min || "0", 10);
-      const max = parseInt(slider.max || "36", 10);
+      const max = parseInt(slider.max || String(LAST_TIME_SLOT), 10);
 
       // Get the actual width of the slider track
       const sliderRect = slider.getBoundingClientRect();
@@ -83,42 +102,80 @@ const TimeSliderInternals = () => {
     onChangeSunEvalsState({ selectedTimeslot: sliderValue });
   };
 
-  // Calculate the max value for the slider (36 = 9pm)
-  const maxSliderValue = 36; // 9pm
+  // The slider runs from the first to the last timeslot of the day
+  const maxSliderValue = LAST_TIME_SLOT;
 
   return (
-    <div className="flex w-full gap-4 mt-2 md:mt-6 md:px-4">
-      {/* Left div (20% width) with time display */}
-      <div className="w-[20%] md:w-[100px] flex flex-col justify-center">
-        <div className="text-sm mb-2">Today</div>
-        <div className="font-black">{formatTimeSlot(sliderValue)}</div>
+    <div className="flex flex-col w-full gap-4 mt-2 md:mt-6 md:px-4">
+      <ForecastDatePicker isInterpolated={isSunEvalsForTimeslotInterpolated} />
+
+      {/* Playback controls, lined up with the time display below */}
+      <div className="flex w-full gap-4">
+        <div className="w-[20%] md:w-[100px] flex items-center gap-2">
+          <button
+            type="button"
+            onClick={onTogglePlayback}
+            aria-label={isPlaying ? "Pause timeline" : "Play timeline"}
+            className="p-1 rounded-full border border-gray-300 cursor-pointer"
+          >
+            {isPlaying ? <Pause size={16} /> : <Play size={16} />}
+          </button>
+          <select
+            value={playbackSpeed}
+            onChange={(e) => onSetPlaybackSpeed(parseFloat(e.target.value))}
+            aria-label="Playback speed"
+            className="text-sm bg-transparent cursor-pointer"
+          >
+            {PLAYBACK_SPEEDS.map((speed) => (
+              <option key={speed} value={speed}>
+                {speed}x
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {/* Pubs in full sun through the day, lined up with the slider below */}
+        <div className="w-[80%] md:w-[calc(100%-100px)]">
+          <SunSparkline
+            counts={fullSunPubCounts}
+            selectedTimeslot={sliderValue}
+          />
+        </div>
       </div>
 
-      {/* Right div (80% width) with slider */}
-      <div className="w-[80%] md:w-[calc(100%-100px)] flex items-center relative">
-        {/* Tooltip - always visible with arrow */}
-        {!isMobile && (
-          <div
-            className="absolute bottom-12 px-2 py-1 rounded text-sm font-semibold transform -translate-x-1/2 tooltip-with-arrow"
-            style={{ left: `${tooltipPosition}%` }}
-          >
-            {formatTimeSlot(sliderValue)}
-            {/* Arrow pointing down */}
-            <div className="absolute left-1/2 bottom-[-6px] w-0 h-0 border-l-[6px] border-l-transparent border-r-[6px] border-r-transparent border-t-[6px] transform -translate-x-1/2"></div>
-          </div>
-        )}
-
-        <input
-          ref={sliderRef}
-          type="range"
-          min="0"
-          max={maxSliderValue}
-          value={sliderValue}
-          onChange={handleSliderChange}
-          onMouseUp={handleSliderRelease}
-          onTouchEnd={handleSliderRelease}
-          className="w-full h-2 rounded-lg cursor-pointer slider-with-shadow bg-gray-300"
-        />
+      <div className="flex w-full gap-4 md:mt-8">
+        {/* Left div (20% width) with time display */}
+        <div className="w-[20%] md:w-[100px] flex flex-col justify-center">
+          <div className="text-sm mb-2">{formatForecastDay(forecastDay)}</div>
+          <div className="font-black">{formatTimeSlot(sliderValue)}</div>
+        </div>
+
+        {/* Right div (80% width) with slider */}
+        <div className="w-[80%] md:w-[calc(100%-100px)] flex items-center relative">
+          {/* Tooltip - always visible with arrow */}
+          {!isMobile && (
+            <div
+              className="absolute bottom-12 px-2 py-1 rounded text-sm font-semibold transform -translate-x-1/2 tooltip-with-arrow"
+              style={{ left: `${tooltipPosition}%` }}
+            >
+              {formatTimeSlot(sliderValue)}
+              {/* Arrow pointing down */}
+              <div className="absolute left-1/2 bottom-[-6px] w-0 h-0 border-l-[6px] border-l-transparent border-r-[6px] border-r-transparent border-t-[6px] transform -translate-x-1/2"></div>
+            </div>
+          )}
+
+          <input
+            ref={sliderRef}
+            type="range"
+            min="0"
+            max={maxSliderValue}
+            value={sliderValue}
+            onChange={handleSliderChange}
+            onMouseUp={handleSliderRelease}
+            onTouchEnd={handleSliderRelease}
+            className="w-full h-2 rounded-lg cursor-pointer slider-with-shadow bg-gray-300"
+          />
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,64 @@
+import { LAST_TIME_SLOT } from "../../../../../utils/timeSlots";
+
+interface SunSparklineProps {
+  // Pubs in full sun, indexed by timeslot
+  counts: number[];
+  selectedTimeslot: number;
+}
+
+// Drawn in a 100 x 100 box and stretched to fit the slider above
+const VIEWBOX_SIZE = 100;
+
+const SunSparkline = ({ counts, selectedTimeslot }: SunSparklineProps) => {
+  //
+
+  // Variables
+  const maxCount = Math.max(...counts, 1);
+
+  const getX = (timeSlot: number) => (timeSlot / LAST_TIME_SLOT) * VIEWBOX_SIZE;
+  const getY = (count: number) =>
+    VIEWBOX_SIZE - (count / maxCount) * VIEWBOX_SIZE;
+
+  const points = counts
+    .map((count, timeSlot) => `${getX(timeSlot)},${getY(count)}`)
+    .join(" ");
+
+  const selectedCount = counts[selectedTimeslot] || 0;
+
+  return (
+    <div
+      className="relative w-full h-8"
+      title={`${selectedCount} pubs in full sun`}
+    >
+      <svg
+        viewBox={`0 0 ${VIEWBOX_SIZE} ${VIEWBOX_SIZE}`}
+        preserveAspectRatio="none"
+        className="w-full h-full overflow-visible"
+      >
+        <polygon
+          points={`0,${VIEWBOX_SIZE} ${points} ${VIEWBOX_SIZE},${VIEWBOX_SIZE}`}
+          fill="#ffc400"
+          fillOpacity={0.2}
+        />
+        <polyline
+          points={points}
+          fill="none"
+          stroke="#ffc400"
+          strokeWidth={2}
+          vectorEffect="non-scaling-stroke"
+        />
+        <line
+          x1={getX(selectedTimeslot)}
+          x2={getX(selectedTimeslot)}
+          y1={0}
+          y2={VIEWBOX_SIZE}
+          stroke="currentColor"
+          strokeWidth={1}
+          vectorEffect="non-scaling-stroke"
+        />
+      </svg>
+    </div>
+  );
+};
+
+export default SunSparkline;
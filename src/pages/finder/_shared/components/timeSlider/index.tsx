@@ -2,7 +2,11 @@ import { useEffect, useState, useRef } from "react";
 
 // Hooks
 import useSunEvals from "../../../../../_shared/hooks/sunEvals/useSunEvals";
-import { formatTimeSlot } from "../../helpers";
+import { formatTimeSlot, LAST_TIME_SLOT } from "../../../../../utils/timeSlots";
+import { formatForecastDay } from "../../helpers";
+
+// Components
+import ForecastDatePicker from "../../../../../_shared/components/ForecastDatePicker";
 
 // Custom CSS for the slider thumb with white drop shadow
 const sliderStyles = `
@@ -34,7 +38,7 @@ const sliderStyles = `
 
 const TimeSlider = () => {
   const {
-    data: { selectedTimeslot },
+    data: { selectedTimeslot, forecastDay, isSunEvalsForTimeslotInterpolated },
     operations: { onChangeSunEvalsState, onSeedCurrentTimeSlot },
   } = useSunEvals();
 
@@ -69,7 +73,7 @@ const TimeSlider = () => {
     if (sliderRef.current) {
       const slider = sliderRef.current;
       const min = parseInt(slider.min || "0", 10);
-      const max = parseInt(slider.max || "36", 10);
+      const max = parseInt(slider.max || String(LAST_TIME_SLOT), 10);
 
       // Get the actual width of the slider track
       const sliderRect = slider.getBoundingClientRect();
@@ -103,17 +107,23 @@ const TimeSlider = () => {
     onChangeSunEvalsState({ selectedTimeslot: sliderValue });
   };
 
-  // Calculate the max value for the slider (36 = 9pm)
-  const maxSliderValue = 36; // 9pm
+  // The slider runs from the first to the last timeslot of the day
+  const maxSliderValue = LAST_TIME_SLOT;
 
   return (
     <div className="flex flex-col fixed bottom-[0px] left-[8px] w-[calc(100vw-16px)] p-6 bg-[#2962FF] rounded-t-lg shadow-lg">
       {/* Apply custom slider styles */}
       <style dangerouslySetInnerHTML={{ __html: sliderStyles }} />
+      <ForecastDatePicker
+        isInterpolated={isSunEvalsForTimeslotInterpolated}
+        className="text-white"
+      />
       <div className="flex w-full gap-4 mt-6">
         {/* Left div (15% width) with time display */}
         <div className="w-[10%] md:w-[100px] flex flex-col justify-center">
-          <div className="text-sm text-white mb-2">Today</div>
+          <div className="text-sm text-white mb-2">
+            {formatForecastDay(forecastDay)}
+          </div>
           <div className="font-black text-white">
             {formatTimeSlot(sliderValue)}
           </div>
@@ -0,0 +1,89 @@
+// Types
+import { PolygonCoordinate } from "../../../../_shared/hooks/pubAreas/usePubAreas";
+import { CrawlPlan } from "../../../../utils/crawlPlanner";
+
+// Helpers
+import { formatForecastDay } from ".";
+import {
+  formatTimeOfDay,
+  getDateForMinutes,
+} from "../../../../utils/timeSlots";
+import { formatShortAddress } from "../../../lists/pubs/_shared/helpers";
+
+const toLatLng = ({ lat, lng }: PolygonCoordinate) => `${lat},${lng}`;
+
+// Google Maps walking directions through every stop in order
+export const getCrawlDirectionsUrl = (
+  plan: CrawlPlan,
+  start: PolygonCoordinate
+) => {
+  const locations = plan.stops.map(({ pub }) => pub.location);
+  const destination = locations[locations.length - 1];
+
+  const params = new URLSearchParams({
+    api: "1",
+    origin: toLatLng(start),
+    destination: toLatLng(destination),
+    travelmode: "walking",
+  });
+
+  if (locations.length > 1) {
+    params.set("waypoints", locations.slice(0, -1).map(toLatLng).join("|"));
+  }
+
+  return `https://www.google.com/maps/dir/?${params}`;
+};
+
+// The crawl as a message, e.g. to paste into a group chat
+export const formatCrawlAsText = (plan: CrawlPlan, forecastDay: Date) =>
+  [
+    `Sunny pub crawl, ${formatForecastDay(forecastDay)}`,
+    ...plan.stops.map(
+      ({ pub, arrival, departure, sunMinutes }, index) =>
+        `${index + 1}. ${pub.name} (${formatShortAddress(pub.address_text)}), ${formatTimeOfDay(arrival)}-${formatTimeOfDay(departure)}, ${sunMinutes} min of sun`
+    ),
+    `${plan.totalSunMinutes} min in the sun, ${plan.totalWalkMinutes} min walking`,
+  ].join("\n");
+
+//
+
+// Calendar
+
+// Floating local time, as the crawl's times are the pubs' local times
+const toCalendarTime = (minutes: number, day: Date) => {
+  const date = getDateForMinutes(minutes, day);
+  const pad = (value: number) => value.toString().padStart(2, "0");
+
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}T${pad(date.getHours())}${pad(date.getMinutes())}00`;
+};
+
+const escapeCalendarText = (text: string) =>
+  text
+    .replace(/\\/g, "\\\\")
+    .replace(/([,;])/g, "\\$1")
+    .replace(/\n/g, "\\n");
+
+// When the file was made, which calendars want in UTC
+const toCalendarStamp = (date: Date) =>
+  `${date.toISOString().replace(/[-:]/g, "").split(".")[0]}Z`;
+
+// An .ics file with an event for each stop
+export const createCrawlCalendar = (plan: CrawlPlan, forecastDay: Date) =>
+  [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Pubs in the Sun//Crawl Planner//EN",
+    ...plan.stops.flatMap(({ pub, arrival, departure, sunMinutes }, index) => [
+      "BEGIN:VEVENT",
+      `UID:crawl-${toCalendarTime(arrival, forecastDay)}-${pub.id}@pubsinthesun`,
+      `DTSTAMP:${toCalendarStamp(new Date())}`,
+      `DTSTART:${toCalendarTime(arrival, forecastDay)}`,
+      `DTEND:${toCalendarTime(departure, forecastDay)}`,
+      `SUMMARY:${escapeCalendarText(`${index + 1}. ${pub.name}`)}`,
+      `LOCATION:${escapeCalendarText(pub.address_text)}`,
+      `DESCRIPTION:${escapeCalendarText(`${sunMinutes} min of sun`)}`,
+      `GEO:${pub.location.lat};${pub.location.lng}`,
+      "END:VEVENT",
+    ]),
+    "END:VCALENDAR",
+  ].join("\r\n");
@@ -1,16 +1,16 @@
 import { Beer, Coffee, Umbrella, Home, Building, Waves } from "lucide-react";
 
-// Helper function to convert time slot index to formatted time string
-export const formatTimeSlot = (slot: number): string => {
-  const hour = Math.floor(slot / 4) + 12; // 0 = 12pm, 4 = 1pm, etc.
-  const minute = (slot % 4) * 15; // 0, 15, 30, 45
+// Utils
+import { formatDate } from "../../../../_shared/utils";
 
-  // Format as 12-hour time with am/pm
-  const hourDisplay = hour > 12 ? hour - 12 : hour;
-  const ampm = hour >= 12 ? "pm" : "am";
-
-  return `${hourDisplay}:${minute.toString().padStart(2, "0")}${ampm}`;
-};
+// Label for the day being forecast, e.g. "Today" or "Sat 25"
+export const formatForecastDay = (forecastDay: Date) =>
+  formatDate(forecastDay) === formatDate(new Date())
+    ? "Today"
+    : forecastDay.toLocaleDateString("en-GB", {
+        weekday: "short",
+        day: "numeric",
+      });
 
 // Get icon for area type
 export const getIconForAreaType = (type: string) => {
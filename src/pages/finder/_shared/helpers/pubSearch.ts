@@ -0,0 +1,173 @@
+// Types
+import { Pub } from "../../../../_shared/types";
+
+// Helpers
+import { extractPostCodeFromAddress } from "../../../lists/pubs/_shared/helpers";
+
+export interface PubSearchResult {
+  pub: Pub;
+
+  // Higher is better, 0-1
+  score: number;
+  matchedOn: "name" | "address" | "postcode";
+}
+
+// Address matches count for less, so "Crown" finds the Crown before every
+// pub on Crown Street
+const ADDRESS_WEIGHT = 0.6;
+
+// Outward code with an optional start of the inward one, e.g. SE1, SE1 9
+const PARTIAL_POSTCODE =
+  /^([A-Z]{1,2}[0-9][0-9A-Z]?)(?:\s?([0-9][A-Z]{0,2}))?$/;
+
+interface PostcodeParts {
+  outward: string;
+  inward: string;
+}
+
+//
+
+// Normalising
+
+// Lowercase words without accents or punctuation, "the" and "&" aside as
+// nobody agrees whether they're part of the name
+const toWords = (text: string) =>
+  text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9\s]/g, " ")
+    .split(/\s+/)
+    .filter((word) => word && word !== "the" && word !== "and");
+
+// Splits a full or partial postcode, null if it isn't one
+const toPostcodeParts = (text: string): PostcodeParts | null => {
+  const match = text.trim().toUpperCase().match(PARTIAL_POSTCODE);
+
+  return match ? { outward: match[1], inward: match[2] || "" } : null;
+};
+
+// The outward code has to match in full, so SE1 doesn't find SE10, while the
+// inward code can still be partway typed
+const isPostcodeMatch = (typed: PostcodeParts, postcode: string) => {
+  const parts = toPostcodeParts(postcode);
+
+  return (
+    !!parts &&
+    parts.outward === typed.outward &&
+    parts.inward.startsWith(typed.inward)
+  );
+};
+
+//
+
+// Matching
+
+// Edits to turn one word into another, counting a swap of neighbouring
+// letters as one typo
+const getEditDistance = (a: string, b: string) => {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) =>
+      i === 0 ? j : j === 0 ? i : 0
+    )
+  );
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+
+      rows[i][j] = Math.min(
+        rows[i - 1][j] + 1,
+        rows[i][j - 1] + 1,
+        rows[i - 1][j - 1] + cost
+      );
+
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return rows[a.length][b.length];
+};
+
+// Longer words can take more typos
+const getAllowedTypos = (word: string) =>
+  word.length <= 3 ? 0 : word.length <= 7 ? 1 : 2;
+
+// How well one typed word matches a word in the text, 0 for not at all
+const scoreWord = (typed: string, word: string) => {
+  if (word === typed) return 1;
+  if (word.startsWith(typed)) return 0.9;
+
+  const allowedTypos = getAllowedTypos(typed);
+  if (!allowedTypos) return 0;
+
+  // Compare against the start of the word too, so typos still match while
+  // the word is being typed
+  const distance = Math.min(
+    getEditDistance(typed, word),
+    getEditDistance(typed, word.slice(0, typed.length))
+  );
+
+  return distance <= allowedTypos ? 0.8 - distance * 0.2 : 0;
+};
+
+// Every typed word has to match something, the score is their average
+const scoreWords = (typedWords: string[], words: string[]) => {
+  let total = 0;
+
+  for (const typed of typedWords) {
+    const best = Math.max(0, ...words.map((word) => scoreWord(typed, word)));
+    if (!best) return 0;
+
+    total += best;
+  }
+
+  return total / typedWords.length;
+};
+
+const scorePub = (
+  pub: Pub,
+  typedWords: string[],
+  typedPostcode: PostcodeParts | null
+): PubSearchResult | null => {
+  const postcode = extractPostCodeFromAddress(pub.address_text || "");
+
+  // SE1 finds everything in SE1, SE1 9 everything in SE1 9
+  if (
+    typedPostcode &&
+    postcode !== "N/A" &&
+    isPostcodeMatch(typedPostcode, postcode)
+  ) {
+    return { pub, score: 1, matchedOn: "postcode" };
+  }
+
+  const nameScore = scoreWords(typedWords, toWords(pub.name || ""));
+  const addressScore =
+    scoreWords(typedWords, toWords(pub.address_text || "")) * ADDRESS_WEIGHT;
+
+  if (!nameScore && !addressScore) return null;
+
+  return nameScore >= addressScore
+    ? { pub, score: nameScore, matchedOn: "name" }
+    : { pub, score: addressScore, matchedOn: "address" };
+};
+
+/**
+ * Pubs matching a search by name, address or postcode, best first. Forgives
+ * a typo or two per word and words typed only partly.
+ */
+export const searchPubs = (pubs: Pub[], query: string, limit = 8) => {
+  const typedWords = toWords(query);
+  if (!typedWords.length) return [];
+
+  const typedPostcode = toPostcodeParts(query);
+
+  return pubs
+    .map((pub) => scorePub(pub, typedWords, typedPostcode))
+    .filter((result): result is PubSearchResult => !!result)
+    .sort((a, b) => b.score - a.score || a.pub.name.localeCompare(b.pub.name))
+    .slice(0, limit);
+};
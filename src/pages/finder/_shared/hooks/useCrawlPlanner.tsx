@@ -0,0 +1,220 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+
+// Context
+import { useCrawlContext } from "../../../../_shared/providers/useCrawlContext";
+
+// Hooks
+import usePubs from "../../../../_shared/hooks/pubs/usePubs";
+import usePubAreas from "../../../../_shared/hooks/pubAreas/usePubAreas";
+import useSunEvals from "../../../../_shared/hooks/sunEvals/useSunEvals";
+import useSunQuality from "../../../../_shared/hooks/sunQuality/useSunQuality";
+
+// Helpers
+import { fetchSunEvalsForecast } from "../../../../utils/sunEvalForecast";
+import {
+  CrawlPlan,
+  CrawlPub,
+  CrawlRequest,
+  DEFAULT_CRAWL_PLANNER_CONFIG,
+  planCrawl,
+  selectCrawlCandidates,
+} from "../../../../utils/crawlPlanner";
+import {
+  getTimeSlotForMinutes,
+  getTimeSlotMinutes,
+} from "../../../../utils/timeSlots";
+import { downloadFile } from "../../../areas/sizer/_shared/helpers";
+import {
+  createCrawlCalendar,
+  formatCrawlAsText,
+  getCrawlDirectionsUrl,
+} from "../helpers/crawlExport";
+
+interface CrawlPlannerData {
+  crawlRequest: CrawlRequest | null;
+  crawlPlan: CrawlPlan | null;
+  isPlanningCrawl: boolean;
+  crawlError: Error | null;
+}
+
+interface CrawlPlannerOperations {
+  onPlanCrawl: (request: CrawlRequest) => void;
+  onClearCrawl: () => void;
+
+  // Shares the itinerary where the browser can, or copies it
+  onShareCrawl: () => Promise<void>;
+  onExportCrawl: () => void;
+}
+
+interface CrawlPlannerResponse {
+  data: CrawlPlannerData;
+  operations: CrawlPlannerOperations;
+}
+
+// Plans a pub crawl that stays in the sun, for the forecast day
+const useCrawlPlanner = (): CrawlPlannerResponse => {
+  //
+
+  // Context
+  const {
+    crawlState: { crawlRequest },
+    updateCrawlState,
+  } = useCrawlContext();
+
+  //
+
+  // Hooks
+  const {
+    data: { uiReadyPubs = [] },
+  } = usePubs();
+  const {
+    data: { allAvailableAreas = [] },
+  } = usePubAreas();
+  const {
+    data: { forecastDay, julianWeek },
+  } = useSunEvals();
+  const {
+    data: { thresholds },
+  } = useSunQuality();
+
+  //
+
+  // Variables
+
+  // Only pubs with areas can have sun
+  const crawlPubs = useMemo(() => {
+    const pubIdsWithAreas = new Set(
+      allAvailableAreas.map(({ pub_id }) => pub_id)
+    );
+
+    return uiReadyPubs
+      .filter(({ id }) => pubIdsWithAreas.has(id))
+      .map(
+        ({ id, name, address_text, latitude, longitude }): CrawlPub => ({
+          id,
+          name,
+          address_text,
+          location: { lat: latitude, lng: longitude },
+        })
+      );
+  }, [uiReadyPubs, allAvailableAreas]);
+
+  const candidates = useMemo(
+    () => (crawlRequest ? selectCrawlCandidates(crawlPubs, crawlRequest) : []),
+    [crawlPubs, crawlRequest]
+  );
+
+  const candidateIds = candidates.map(({ id }) => id);
+  const config = {
+    ...DEFAULT_CRAWL_PLANNER_CONFIG,
+    threshold: thresholds.SOME,
+  };
+
+  //
+
+  // Queries
+  const GET_CRAWL_PLAN_QUERY_KEY = [
+    "getCrawlPlan",
+    crawlRequest,
+    julianWeek,
+    thresholds.SOME,
+    candidateIds,
+  ];
+
+  const {
+    data: crawlPlan = null,
+    isLoading: isPlanningCrawl,
+    error: crawlError,
+  } = useQuery({
+    queryKey: GET_CRAWL_PLAN_QUERY_KEY,
+    queryFn: async () => {
+      const request = crawlRequest as CrawlRequest;
+      const candidateIdSet = new Set(candidateIds);
+
+      // Only the slots the longest possible crawl could cover
+      const longestStay = Math.max(...config.stayOptions);
+      const { sunEvals } = await fetchSunEvalsForecast(forecastDay, {
+        areaIds: allAvailableAreas
+          .filter(({ pub_id }) => candidateIdSet.has(pub_id))
+          .map(({ id }) => id),
+        fromTime: getTimeSlotMinutes(getTimeSlotForMinutes(request.startTime)),
+        toTime:
+          request.startTime +
+          request.stops * (request.maxWalkMinutes + longestStay),
+      });
+
+      return planCrawl(candidates, sunEvals, request, config);
+    },
+    enabled: !!crawlRequest && candidates.length > 0,
+  });
+
+  //
+
+  // Handlers
+  const onPlanCrawl = (request: CrawlRequest) => {
+    updateCrawlState({ crawlRequest: request });
+  };
+
+  const onClearCrawl = () => {
+    updateCrawlState({ crawlRequest: null });
+  };
+
+  const onShareCrawl = async () => {
+    if (!crawlPlan || !crawlRequest) return;
+
+    const text = formatCrawlAsText(crawlPlan, forecastDay);
+    const url = getCrawlDirectionsUrl(crawlPlan, crawlRequest.start);
+
+    if (navigator.share) {
+      try {
+        await navigator.share({ title: "Sunny pub crawl", text, url });
+        return;
+      } catch (error) {
+        // Cancelled, or the browser wouldn't share this
+        if ((error as Error).name === "AbortError") return;
+      }
+    }
+
+    // Only there over HTTPS, and writing to it can still be refused
+    if (!navigator.clipboard) {
+      alert("Couldn't copy the crawl, your browser doesn't allow it");
+      return;
+    }
+
+    try {
+      await navigator.clipboard.writeText(`${text}\n${url}`);
+      alert("Crawl copied to your clipboard");
+    } catch (error) {
+      console.error("Error copying crawl to clipboard:", error);
+      alert("Couldn't copy the crawl to your clipboard");
+    }
+  };
+
+  const onExportCrawl = () => {
+    if (!crawlPlan) return;
+
+    downloadFile(
+      "sunny-pub-crawl.ics",
+      createCrawlCalendar(crawlPlan, forecastDay),
+      "text/calendar"
+    );
+  };
+
+  return {
+    data: {
+      crawlRequest,
+      crawlPlan,
+      isPlanningCrawl: !!crawlRequest && isPlanningCrawl,
+      crawlError,
+    },
+    operations: {
+      onPlanCrawl,
+      onClearCrawl,
+      onShareCrawl,
+      onExportCrawl,
+    },
+  };
+};
+
+export default useCrawlPlanner;
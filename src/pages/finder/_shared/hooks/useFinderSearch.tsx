@@ -0,0 +1,195 @@
+import { useEffect, useState } from "react";
+import { useNavigate, useSearch } from "@tanstack/react-router";
+
+// Context
+import {
+  AreaType,
+  useFiltersContext,
+} from "../../../../_shared/providers/FiltersProvider";
+import { usePubAreasContext } from "../../../../_shared/providers/PubAreasProvider";
+import { useSunEvalsContext } from "../../../../_shared/providers/useSunEvals";
+
+// Helpers
+import {
+  createFinderSearch,
+  hasFinderSearch,
+  parseFinderSearch,
+  toSearchCoordinate,
+} from "../../../../utils/finderSearch";
+
+interface FinderSearchData {
+  // Where the link put the map, if it did
+  linkedCenter: google.maps.LatLngLiteral | null;
+  linkedZoom: number | null;
+
+  // Whether the link says where to look, so the map shouldn't jump to the
+  // user's location
+  hasLinkedLocation: boolean;
+}
+
+interface FinderSearchOperations {
+  onMapIdle: (map: google.maps.Map) => void;
+}
+
+interface FinderSearchResponse {
+  data: FinderSearchData;
+  operations: FinderSearchOperations;
+}
+
+// Restores the finder from its URL once, then keeps the URL in step with it
+const useFinderSearch = (): FinderSearchResponse => {
+  //
+
+  // Hooks
+  const search = useSearch({ from: "/finder" });
+  const navigate = useNavigate({ from: "/finder" });
+
+  // Context
+  const { filtersState, updateFiltersState } = useFiltersContext();
+  const { pubAreasState, updatePubAreasState } = usePubAreasContext();
+  const { sunEvalsState, updateSunEvalsState } = useSunEvalsContext();
+
+  // The search as the page opened, before it's kept in sync
+  const [linkedState] = useState(() => parseFinderSearch(search));
+  const [hasLinkedState] = useState(() => hasFinderSearch(search));
+  const [isRestored, setIsRestored] = useState(false);
+
+  //
+
+  // Variables
+  const {
+    sunQualityFilters,
+    areaTypeFilters,
+    groupSizeFilter = null,
+    sunThresholds = null,
+    viewFilters,
+    viewAsList,
+  } = filtersState;
+  const { selectedPubId } = pubAreasState;
+  const { selectedTimeslot, forecastDate } = sunEvalsState;
+
+  //
+
+  // Effects
+
+  // A link shows exactly what the sender saw. createFinderSearch leaves the
+  // defaults out, so anything the link doesn't set goes back to its default
+  // rather than keeping what was left in localStorage.
+  useEffect(() => {
+    if (isRestored) return;
+
+    if (!hasLinkedState) {
+      setIsRestored(true);
+      return;
+    }
+
+    const {
+      selectedPubId,
+      selectedTimeslot,
+      forecastDate,
+      sunQualityFilters,
+      areaTypeFilters,
+      groupSizeFilter,
+      sunThresholds,
+      view,
+    } = linkedState;
+
+    updateFiltersState({
+      sunQualityFilters: sunQualityFilters || [],
+      areaTypeFilters: areaTypeFilters || Object.values(AreaType),
+      groupSizeFilter,
+      sunThresholds,
+      viewFilters: view === "filters",
+      viewAsList: view === "list",
+      viewCrawlPlanner: false,
+    });
+
+    updateSunEvalsState({ selectedTimeslot, forecastDate });
+
+    updatePubAreasState({ selectedPubId, selectedPubArea: null });
+
+    setIsRestored(true);
+  }, [
+    isRestored,
+    linkedState,
+    hasLinkedState,
+    updateFiltersState,
+    updatePubAreasState,
+    updateSunEvalsState,
+  ]);
+
+  useEffect(() => {
+    if (!isRestored) return;
+
+    // The map's centre and zoom are kept up to date by onMapIdle
+    navigate({
+      replace: true,
+      search: (prev) => ({
+        ...createFinderSearch({
+          selectedPubId,
+          selectedTimeslot,
+          forecastDate,
+          sunQualityFilters,
+          areaTypeFilters,
+          groupSizeFilter,
+          sunThresholds,
+          center: null,
+          zoom: null,
+          view: viewFilters ? "filters" : viewAsList ? "list" : null,
+        }),
+        lat: prev.lat,
+        lng: prev.lng,
+        zoom: prev.zoom,
+      }),
+    });
+  }, [
+    navigate,
+    isRestored,
+    selectedPubId,
+    selectedTimeslot,
+    forecastDate,
+    sunQualityFilters,
+    areaTypeFilters,
+    groupSizeFilter,
+    sunThresholds,
+    viewFilters,
+    viewAsList,
+  ]);
+
+  //
+
+  // Handlers
+
+  // Once the map settles after a pan or zoom
+  const onMapIdle = (map: google.maps.Map) => {
+    const center = map.getCenter();
+    const zoom = map.getZoom();
+
+    if (!isRestored || !center || zoom === undefined) return;
+
+    const lat = toSearchCoordinate(center.lat());
+    const lng = toSearchCoordinate(center.lng());
+
+    if (lat === search.lat && lng === search.lng && zoom === search.zoom) {
+      return;
+    }
+
+    navigate({
+      replace: true,
+      search: (prev) => ({ ...prev, lat, lng, zoom }),
+    });
+  };
+
+  return {
+    data: {
+      linkedCenter: linkedState.center,
+      linkedZoom: linkedState.zoom,
+      hasLinkedLocation: !!linkedState.center || !!linkedState.selectedPubId,
+    },
+    operations: {
+      onMapIdle,
+    },
+  };
+};
+
+export default useFinderSearch;
@@ -0,0 +1,143 @@
+import { KeyboardEvent, useDeferredValue, useMemo, useState } from "react";
+
+// Hooks
+import usePubs from "../../../../_shared/hooks/pubs/usePubs";
+import usePubAreas from "../../../../_shared/hooks/pubAreas/usePubAreas";
+import useFilters from "../../../../_shared/hooks/filters/useFilters";
+
+// Helpers
+import { PubSearchResult, searchPubs } from "../helpers/pubSearch";
+
+interface PubSearchData {
+  query: string;
+  results: PubSearchResult[];
+
+  // Result the arrow keys are on, -1 for none
+  highlightedIndex: number;
+  isOpen: boolean;
+}
+
+interface PubSearchOperations {
+  onChangeQuery: (query: string) => void;
+  onKeyDown: (event: KeyboardEvent<HTMLInputElement>) => void;
+  onPickResult: (result: PubSearchResult) => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+interface PubSearchResponse {
+  data: PubSearchData;
+  operations: PubSearchOperations;
+}
+
+// Looks up any pub by name, address or postcode, wherever the map is
+const usePubSearch = (): PubSearchResponse => {
+  //
+
+  // Hooks
+  const {
+    data: { uiReadyPubs = [] },
+  } = usePubs();
+  const {
+    operations: { onSetSelectedPubById },
+  } = usePubAreas();
+  const {
+    data: { viewFilters, viewAsList },
+    operations: { onToggleViewFilters, onToggleViewAsList },
+  } = useFilters();
+
+  //
+
+  // State
+  const [query, setQuery] = useState("");
+  const [highlightedIndex, setHighlightedIndex] = useState(-1);
+  const [isOpen, setIsOpen] = useState(false);
+
+  // Typing stays snappy while results catch up
+  const deferredQuery = useDeferredValue(query);
+
+  const results = useMemo(
+    () => searchPubs(uiReadyPubs, deferredQuery),
+    [uiReadyPubs, deferredQuery]
+  );
+
+  //
+
+  // Handlers
+  const onChangeQuery = (nextQuery: string) => {
+    setQuery(nextQuery);
+    setHighlightedIndex(-1);
+    setIsOpen(true);
+  };
+
+  const onClear = () => {
+    setQuery("");
+    setHighlightedIndex(-1);
+    setIsOpen(false);
+  };
+
+  const onClose = () => {
+    setIsOpen(false);
+    setHighlightedIndex(-1);
+  };
+
+  // Selecting the pub opens its details, and the map follows it there
+  const onPickResult = ({ pub }: PubSearchResult) => {
+    onSetSelectedPubById(pub.id);
+
+    if (viewFilters) onToggleViewFilters();
+    if (viewAsList) onToggleViewAsList();
+
+    onClear();
+  };
+
+  const onKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    switch (event.key) {
+      case "ArrowDown":
+        event.preventDefault();
+        setIsOpen(true);
+        setHighlightedIndex((prev) =>
+          results.length ? (prev + 1) % results.length : -1
+        );
+        break;
+      case "ArrowUp":
+        event.preventDefault();
+        setHighlightedIndex((prev) =>
+          results.length ? (prev <= 0 ? results.length : prev) - 1 : -1
+        );
+        break;
+      case "Enter": {
+        // Enter without picking one takes the best match
+        const result = results[highlightedIndex] || results[0];
+
+        if (result) {
+          event.preventDefault();
+          onPickResult(result);
+        }
+        break;
+      }
+      case "Escape":
+        if (isOpen) onClose();
+        else onClear();
+        break;
+    }
+  };
+
+  return {
+    data: {
+      query,
+      results,
+      highlightedIndex,
+      isOpen: isOpen && !!query.trim(),
+    },
+    operations: {
+      onChangeQuery,
+      onKeyDown,
+      onPickResult,
+      onClear,
+      onClose,
+    },
+  };
+};
+
+export default usePubSearch;
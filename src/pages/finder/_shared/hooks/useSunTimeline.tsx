@@ -0,0 +1,106 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+
+// Hooks
+import useSunEvals from "../../../../_shared/hooks/sunEvals/useSunEvals";
+import useMapMarkers from "../../../../_shared/hooks/mapMarkers/useMapMarkers";
+import useFilters from "../../../../_shared/hooks/filters/useFilters";
+import useSunQuality from "../../../../_shared/hooks/sunQuality/useSunQuality";
+import {
+  AreaType,
+  SunQuality,
+} from "../../../../_shared/providers/FiltersProvider";
+
+// Helpers
+import { fetchSunEvalsForecast } from "../../../../utils/sunEvalForecast";
+import { hasRoomForGroup } from "../../../../utils/seatingCapacity";
+import { classifySunQuality } from "../../../../utils/sunQuality";
+import {
+  getTimeSlotForMinutes,
+  LAST_TIME_SLOT,
+} from "../../../../utils/timeSlots";
+
+interface SunTimelineData {
+  isLoadingSunTimeline: boolean;
+
+  // Pubs in view with an area in full sun, indexed by timeslot
+  fullSunPubCounts: number[];
+}
+
+interface SunTimelineResponse {
+  data: SunTimelineData;
+}
+
+// How the pubs in view fare across the whole day, for the slider sparkline
+const useSunTimeline = (): SunTimelineResponse => {
+  //
+
+  // Hooks
+  const {
+    data: { forecastDay, julianWeek },
+  } = useSunEvals();
+
+  const {
+    data: { totalAreasInView = [] },
+  } = useMapMarkers();
+
+  const {
+    data: { areaTypeFilters = [], groupSizeFilter = null },
+  } = useFilters();
+
+  const {
+    data: { thresholds },
+  } = useSunQuality();
+
+  //
+
+  // Variables
+  const areaIds = totalAreasInView
+    .filter(
+      (area) =>
+        areaTypeFilters.includes(area.type as AreaType) &&
+        hasRoomForGroup(area, groupSizeFilter)
+    )
+    .map(({ id }) => id)
+    .sort((a, b) => a - b);
+
+  //
+
+  // Queries
+  const GET_SUN_EVALS_FOR_DAY_QUERY_KEY = [
+    "getSunEvalsForDay",
+    areaIds,
+    julianWeek,
+  ];
+
+  const { data: { sunEvals = [] } = {}, isLoading: isLoadingSunTimeline } =
+    useQuery({
+      queryKey: GET_SUN_EVALS_FOR_DAY_QUERY_KEY,
+      queryFn: () => fetchSunEvalsForecast(forecastDay, { areaIds }),
+      enabled: areaIds.length > 0,
+    });
+
+  const fullSunPubCounts = useMemo(() => {
+    const fullSunPubsBySlot = Array.from(
+      { length: LAST_TIME_SLOT + 1 },
+      () => new Set<number>()
+    );
+
+    sunEvals.forEach(({ time, pub_id, pc_in_sun }) => {
+      if (classifySunQuality(pc_in_sun, thresholds) === SunQuality.GOOD) {
+        fullSunPubsBySlot[getTimeSlotForMinutes(time)].add(pub_id);
+      }
+    });
+
+    return fullSunPubsBySlot.map((pubIds) => pubIds.size);
+  }, [sunEvals, thresholds]);
+
+  return {
+    data: {
+      isLoadingSunTimeline,
+      fullSunPubCounts,
+    },
+  };
+};
+
+export default useSunTimeline;
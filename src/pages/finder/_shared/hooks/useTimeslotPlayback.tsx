@@ -0,0 +1,132 @@
+import { useEffect, useRef, useState } from "react";
+
+// Hooks
+import useSunEvals from "../../../../_shared/hooks/sunEvals/useSunEvals";
+
+// Helpers
+import { LAST_TIME_SLOT } from "../../../../utils/timeSlots";
+
+// Multipliers on the base step, slowest first
+export const PLAYBACK_SPEEDS = [0.5, 1, 2, 4];
+
+// Time each timeslot stays on screen at 1x
+const BASE_STEP_MS = 1000;
+
+// Timeslots to load ahead of the one showing, so playback doesn't stall
+const PREFETCH_AHEAD = 2;
+
+interface TimeslotPlaybackData {
+  isPlaying: boolean;
+  playbackSpeed: number;
+}
+
+interface TimeslotPlaybackOperations {
+  onTogglePlayback: () => void;
+  onSetPlaybackSpeed: (playbackSpeed: number) => void;
+}
+
+interface TimeslotPlaybackResponse {
+  data: TimeslotPlaybackData;
+  operations: TimeslotPlaybackOperations;
+}
+
+// Steps selectedTimeslot through the rest of the day
+const useTimeslotPlayback = (): TimeslotPlaybackResponse => {
+  //
+
+  // Hooks
+  const {
+    data: { selectedTimeslot, isFetchingSunEvalsForTimeslot },
+    operations: { onChangeSunEvalsState, onPrefetchSunEvalsForTimeslot },
+  } = useSunEvals();
+
+  //
+
+  // State
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [playbackSpeed, setPlaybackSpeed] = useState(1);
+
+  //
+
+  // Refs
+
+  // useSunEvals hands back new operations every render, so read the latest
+  // ones through refs rather than restarting the effects below each render
+  const onChangeSunEvalsStateRef = useRef(onChangeSunEvalsState);
+  const onPrefetchSunEvalsForTimeslotRef = useRef(
+    onPrefetchSunEvalsForTimeslot
+  );
+
+  //
+
+  // Effects
+
+  // Keep the refs pointing at the latest operations
+  useEffect(() => {
+    onChangeSunEvalsStateRef.current = onChangeSunEvalsState;
+    onPrefetchSunEvalsForTimeslotRef.current = onPrefetchSunEvalsForTimeslot;
+  });
+
+  // Load the next few timeslots while the current one is showing
+  useEffect(() => {
+    if (!isPlaying || selectedTimeslot === null) return;
+
+    for (let ahead = 1; ahead <= PREFETCH_AHEAD; ahead++) {
+      if (selectedTimeslot + ahead <= LAST_TIME_SLOT) {
+        onPrefetchSunEvalsForTimeslotRef.current(selectedTimeslot + ahead);
+      }
+    }
+  }, [isPlaying, selectedTimeslot]);
+
+  // Move on once the current timeslot has loaded and had its time on screen
+  useEffect(() => {
+    if (!isPlaying || isFetchingSunEvalsForTimeslot) return;
+
+    const timeout = setTimeout(() => {
+      const nextTimeslot = (selectedTimeslot || 0) + 1;
+
+      if (nextTimeslot > LAST_TIME_SLOT) {
+        setIsPlaying(false);
+        return;
+      }
+
+      onChangeSunEvalsStateRef.current({ selectedTimeslot: nextTimeslot });
+    }, BASE_STEP_MS / playbackSpeed);
+
+    return () => clearTimeout(timeout);
+  }, [
+    isPlaying,
+    isFetchingSunEvalsForTimeslot,
+    selectedTimeslot,
+    playbackSpeed,
+  ]);
+
+  //
+
+  // Handlers
+  const onTogglePlayback = () => {
+    // Playing from the end of the day starts again from the beginning
+    if (!isPlaying && selectedTimeslot === LAST_TIME_SLOT) {
+      onChangeSunEvalsState({ selectedTimeslot: 0 });
+    }
+
+    setIsPlaying(!isPlaying);
+  };
+
+  const onSetPlaybackSpeed = (newPlaybackSpeed: number) => {
+    setPlaybackSpeed(newPlaybackSpeed);
+  };
+
+  return {
+    data: {
+      isPlaying,
+      playbackSpeed,
+    },
+    operations: {
+      onTogglePlayback,
+      onSetPlaybackSpeed,
+    },
+  };
+};
+
+export default useTimeslotPlayback;
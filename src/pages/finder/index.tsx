@@ -12,7 +12,14 @@ import PubInTheSunMapHeader from "./_shared/components/PubsInTheSunMapHeader";
 import ExpandableBottomDrawer from "./_shared/components/expandableBottomDrawer";
 import OpenCloseFiltersButton from "./_shared/components/filters/openCloseFiltersButton";
 import OpenCloseListViewButton from "./_shared/components/listView/openCloseListView";
+import PubSearch from "./_shared/components/pubSearch";
+import OpenCrawlPlannerButton from "./_shared/components/crawlPlanner/openCrawlPlanner";
+import CrawlRoute from "./_shared/components/markers/crawlRoute";
 import useFilters from "../../_shared/hooks/filters/useFilters";
+import useFinderSearch from "./_shared/hooks/useFinderSearch";
+
+// Context
+import { useGeoLocationContext } from "../../_shared/providers/useGeolocationContext";
 
 // Default center (London)
 const defaultCenter = {
@@ -20,11 +27,22 @@ const defaultCenter = {
   lng: -0.1278,
 };
 
+// Zoom to open on without a link or the user's location
+const defaultZoom = 15;
+
 function Finder() {
   //
 
+  // Hooks
+  const {
+    data: { linkedCenter, linkedZoom, hasLinkedLocation },
+    operations: { onMapIdle },
+  } = useFinderSearch();
+
+  //
+
   // State
-  const [center, setCenter] = useState(defaultCenter);
+  const [center, setCenter] = useState(linkedCenter || defaultCenter);
   const [mapInstance, setMapInstance] = useState<google.maps.Map | null>(null);
   const [userLocation, setUserLocation] =
     useState<google.maps.LatLngLiteral | null>(null);
@@ -41,14 +59,21 @@ function Finder() {
   } = usePubAreas();
 
   const {
-    data: { viewAsList, viewFilters },
+    data: { viewAsList, viewFilters, viewCrawlPlanner },
   } = useFilters();
 
+  const { updateGeoLocationState } = useGeoLocationContext();
+
   // Handle map load
   const onMapLoad = useCallback((map: google.maps.Map) => {
     setMapInstance(map);
   }, []);
 
+  // Keep the link's centre and zoom in step with the map
+  const onIdle = useCallback(() => {
+    if (mapInstance) onMapIdle(mapInstance);
+  }, [mapInstance, onMapIdle]);
+
   // Handle map bounds change
   const onBoundsChanged = useCallback(() => {
     if (mapInstance) {
@@ -56,12 +81,15 @@ function Finder() {
       if (bounds && onSetMapBounds) {
         const ne = bounds.getNorthEast();
         const sw = bounds.getSouthWest();
-        onSetMapBounds({
-          north: ne.lat(),
-          east: ne.lng(),
-          south: sw.lat(),
-          west: sw.lng(),
-        });
+        onSetMapBounds(
+          {
+            north: ne.lat(),
+            east: ne.lng(),
+            south: sw.lat(),
+            west: sw.lng(),
+          },
+          mapInstance.getZoom()
+        );
       }
     }
   }, [mapInstance, onSetMapBounds]);
@@ -77,6 +105,12 @@ function Finder() {
           };
           setCenter(userLocation);
           setUserLocation(userLocation);
+
+          // Walking distances are measured from here
+          updateGeoLocationState({
+            userLatitude: userLocation.lat,
+            userLongitude: userLocation.lng,
+          });
           if (mapInstance) {
             mapInstance.panTo(userLocation);
             mapInstance.setZoom(15); // Zoom in when finding user location
@@ -92,12 +126,13 @@ function Finder() {
     } else {
       alert("Geolocation is not supported by your browser.");
     }
-  }, [mapInstance]);
+  }, [mapInstance, updateGeoLocationState]);
 
-  // Effect to automatically get user location on component mount
+  // Effect to automatically get user location on component mount, unless a
+  // shared link says where to look
   useEffect(() => {
-    handleFindMyLocation();
-  }, []);
+    if (!hasLinkedLocation) handleFindMyLocation();
+  }, [hasLinkedLocation]);
 
   // Effect to center map on selected pub
   useEffect(() => {
@@ -130,9 +165,10 @@ function Finder() {
             height: "100%",
           }}
           center={center}
-          zoom={15}
+          zoom={linkedZoom || defaultZoom}
           onLoad={onMapLoad}
           onBoundsChanged={onBoundsChanged}
+          onIdle={onIdle}
           options={{
             gestureHandling: "greedy",
             styles: [],
@@ -145,11 +181,18 @@ function Finder() {
           <PubInTheSunMapHeader />
           {!selectedPub?.id && (
             <>
+              <PubSearch />
               <OpenCloseFiltersButton />
-              {!viewFilters && !viewAsList && <OpenCloseListViewButton />}
+              {!viewFilters && !viewAsList && !viewCrawlPlanner && (
+                <>
+                  <OpenCloseListViewButton />
+                  <OpenCrawlPlannerButton />
+                </>
+              )}
             </>
           )}
           <RenderFilteredMarkers />
+          <CrawlRoute />
           {userLocation && (
             <Marker
               position={userLocation}
@@ -22,6 +22,7 @@ type SortableKey = keyof Pick<
   | "type"
   | "description"
   | "floor_area"
+  | "estimated_seats"
   | "latitude"
   | "longitude"
   | "pub_name"
@@ -161,8 +162,9 @@ const AreasList = () => {
                   { key: "pub_name", label: "Pub", width: "14%" },
                   { key: "name", label: "Name", width: "14%" },
                   { key: "type", label: "Type", width: "14%" },
-                  { key: "description", label: "Description", width: "24%" },
+                  { key: "description", label: "Description", width: "16%" },
                   { key: "floor_area", label: "Floor Area", width: "10%" },
+                  { key: "estimated_seats", label: "Seats", width: "8%" },
                   { key: "latitude", label: "Latitude", width: "8%" },
                   { key: "longitude", label: "Longitude", width: "8%" },
                 ].map(({ key, label, width }) => (
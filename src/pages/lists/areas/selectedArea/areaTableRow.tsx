@@ -47,6 +47,7 @@ const AreaTableRow = ({
         area.type,
         area.description,
         area.floor_area?.toFixed(2),
+        area.estimated_seats,
         area.latitude?.toFixed(4),
         area.longitude?.toFixed(4),
       ].map((value, idx) => (
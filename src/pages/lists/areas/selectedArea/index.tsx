@@ -1,12 +1,27 @@
-import { MapPin, Info, Square, X, Sun, Clock } from "lucide-react";
+import {
+  MapPin,
+  Info,
+  Square,
+  X,
+  Sun,
+  Clock,
+  Ruler,
+  TriangleAlert,
+  Users,
+} from "lucide-react";
 
 // Hooks
 import usePubs from "../../../../_shared/hooks/pubs/usePubs";
 import useSunEvals from "../../../../_shared/hooks/sunEvals/useSunEvals";
 
 // Helpers
-import { formatAreaType, formatTimeLabel } from "../../_shared";
+import { formatAreaType } from "../../_shared";
+import { formatTimeOfDay } from "../../../../utils/timeSlots";
 import usePubAreas from "../../../../_shared/hooks/pubAreas/usePubAreas";
+import {
+  auditFloorArea,
+  getPolygonPerimeter,
+} from "../../../../utils/geodesic";
 
 const ViewSelectedArea = () => {
   // Hooks
@@ -24,8 +39,24 @@ const ViewSelectedArea = () => {
   } = useSunEvals();
 
   // Variables
-  const { name, description, type, floor_area, latitude, longitude, pub_id } =
-    selectedPubArea || {};
+  const {
+    name,
+    description,
+    type,
+    floor_area,
+    seating_capacity,
+    estimated_seats = 0,
+    latitude,
+    longitude,
+    pub_id,
+    coordinates = [],
+  } = selectedPubArea || {};
+
+  // Recompute the floor area from the polygon, to catch stale or bad values
+  const hasPolygon = (coordinates?.length || 0) >= 3;
+  const audit = hasPolygon
+    ? auditFloorArea({ floor_area: floor_area || 0, coordinates })
+    : null;
 
   // Find the pub that owns this area
   const pub = pubs.find((p) => p.id === pub_id);
@@ -89,6 +120,46 @@ const ViewSelectedArea = () => {
             </div>
           </div>
 
+          <div className="flex items-start gap-2">
+            <Users className="h-5 w-5 text-gray-400 mt-0.5" />
+            <div>
+              <h3 className="text-sm font-medium text-gray-700">Seats</h3>
+              <p className="text-gray-600">
+                {seating_capacity != null
+                  ? `${seating_capacity} (counted)`
+                  : `~${estimated_seats} (estimated from floor area)`}
+              </p>
+            </div>
+          </div>
+
+          {hasPolygon && (
+            <div className="flex items-start gap-2">
+              <Ruler className="h-5 w-5 text-gray-400 mt-0.5" />
+              <div>
+                <h3 className="text-sm font-medium text-gray-700">Perimeter</h3>
+                <p className="text-gray-600">
+                  {getPolygonPerimeter(coordinates).toFixed(2)} m
+                </p>
+              </div>
+            </div>
+          )}
+
+          {audit && !audit.isValid && (
+            <div className="flex items-start gap-2">
+              <TriangleAlert className="h-5 w-5 text-amber-500 mt-0.5" />
+              <div>
+                <h3 className="text-sm font-medium text-gray-700">
+                  Floor Area Check
+                </h3>
+                <p className="text-gray-600">
+                  {audit.isSelfIntersecting
+                    ? "The polygon's edges cross each other"
+                    : `The polygon measures ${audit.computedArea.toFixed(2)} m², ${(audit.difference * 100).toFixed(1)}% off the stored area`}
+                </p>
+              </div>
+            </div>
+          )}
+
           <div className="flex items-start gap-2">
             <MapPin className="h-5 w-5 text-gray-400 mt-0.5" />
             <div>
@@ -157,7 +228,7 @@ const ViewSelectedArea = () => {
                               // Create and position tooltip
                               const tooltip = document.createElement("div");
                               tooltip.className = "sun-tooltip";
-                              tooltip.textContent = `${formatTimeLabel(Number(sunData.time))}: ${sunData.pc_in_sun.toFixed(1)}% in sun`;
+                              tooltip.textContent = `${formatTimeOfDay(Number(sunData.time))}: ${sunData.pc_in_sun.toFixed(1)}% in sun`;
                               tooltip.style.position = "absolute";
                               tooltip.style.backgroundColor =
                                 "rgba(0, 0, 0, 0.8)";
@@ -185,7 +256,7 @@ const ViewSelectedArea = () => {
                           >
                             {index % 2 === 0 && (
                               <div className="absolute -bottom-5 left-1/2 transform -translate-x-1/2 text-xs text-gray-500">
-                                {formatTimeLabel(Number(sunData.time))}
+                                {formatTimeOfDay(Number(sunData.time))}
                               </div>
                             )}
                           </div>
@@ -212,7 +283,7 @@ const ViewSelectedArea = () => {
                   .map((sunData) => (
                     <div key={sunData.id} className="flex items-center gap-2">
                       <div className="w-14 text-xs text-gray-600">
-                        {formatTimeLabel(Number(sunData.time))}
+                        {formatTimeOfDay(Number(sunData.time))}
                       </div>
                       <div className="flex-1 bg-gray-200 h-8 rounded-md relative overflow-hidden">
                         <div
@@ -1,5 +1,5 @@
 import { Sun } from "lucide-react";
-import { formatTimeLabel } from "../../../_shared";
+import { formatTimeOfDay } from "../../../../../utils/timeSlots";
 
 export const formatShortAddress = (address: string) => {
   // Return the first two parts of the address, split by commas
@@ -35,7 +35,8 @@ export const formatAreaTypes = (types: any) => {
 
 export const renderSunRating = (
   sunPercentage: number,
-  currentTimeSlot?: number
+  // Minutes after midnight, as stored on the sun eval
+  currentTime?: number
 ) => {
   // Determine how many sun icons to show based on percentage
   let sunCount = 0;
@@ -58,8 +59,8 @@ export const renderSunRating = (
         className={`w-[200px] text-left ${sunPercentage === 0 ? "text-gray-500" : ""}`}
       >
         {sunPercentage}% in sun{" "}
-        {currentTimeSlot
-          ? `at ${formatTimeLabel(currentTimeSlot)}`
+        {currentTime !== undefined
+          ? `at ${formatTimeOfDay(currentTime)}`
           : "right now"}
       </span>
     </div>
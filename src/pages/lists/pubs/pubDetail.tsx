@@ -10,8 +10,13 @@ import { PubArea, Pub } from "../../../_shared/types";
 // Icons
 import { Sun } from "lucide-react";
 
+// Components
+import ForecastDatePicker from "../../../_shared/components/ForecastDatePicker";
+
 // Helpers
 import { extractPostCodeFromAddress, renderSunRating } from "./_shared/helpers";
+import { formatTimeOfDay, getDateForMinutes } from "../../../utils/timeSlots";
+import { calculateSolarEvents, isSunUp } from "../../../utils/solarEvents";
 
 export interface PubForDetailDisplay extends Pub {
   areas: PubArea[];
@@ -30,7 +35,13 @@ const PubDetail = () => {
   } = usePubAreas();
 
   const {
-    data: { sunEvalsForTimeslot = [], sunEvalsForAllPubAreas = [] },
+    data: {
+      sunEvalsForTimeslot = [],
+      sunEvalsForAllPubAreas = [],
+      forecastDay,
+      isSunEvalsForTimeslotInterpolated,
+      isSunEvalsForAllPubAreasInterpolated,
+    },
   } = useSunEvals();
 
   //
@@ -39,14 +50,30 @@ const PubDetail = () => {
   const [hoveredIndex, setHoveredIndex] = useState<number | null>(null);
   const [hoveredSunEval, setHoveredSunEval] = useState<any | null>(null);
 
+  // Sunrise/sunset for the forecast day at the pub
+  const solarEvents = selectedPub
+    ? calculateSolarEvents(
+        forecastDay,
+        selectedPub.latitude,
+        selectedPub.longitude
+      )
+    : null;
+
   // Helper function to render sun evaluation for a specific area
   const renderSunEvaluation = (areaId: number) => {
     const sunEvalRightNow = sunEvalsForTimeslot.find(
       (sunEvalItem) => sunEvalItem.area_id === areaId
     );
 
+    // Skip timeslots after sunset, there's no sun to show
     const sunEvalsForAreaThroughtTheDay = sunEvalsForAllPubAreas.filter(
-      (sunEvalItem) => sunEvalItem.area_id === areaId
+      (sunEvalItem) =>
+        sunEvalItem.area_id === areaId &&
+        (!solarEvents ||
+          isSunUp(
+            getDateForMinutes(sunEvalItem.time, forecastDay),
+            solarEvents
+          ))
     );
 
     // Sort the evaluations by time to ensure proper order in visualization
@@ -60,7 +87,7 @@ const PubDetail = () => {
 
     // Determine sun rating based on percentage in sun
     const sunPercentage = sunEvalRightNow.pc_in_sun || 0;
-    const currentTimeSlot = Number(sunEvalRightNow.time || -1);
+    const currentTime = Number(sunEvalRightNow.time || -1);
 
     // Create a visual representation based on percentage
 
@@ -75,8 +102,7 @@ const PubDetail = () => {
             {sortedEvals.map((sunEval, index) => {
               const width = `${100 / sortedEvals.length}%`;
               const opacity = sunEval.pc_in_sun / 100;
-              const isCurrentTime =
-                Number(sunEval.time || -1) === currentTimeSlot;
+              const isCurrentTime = Number(sunEval.time || -1) === currentTime;
 
               const isHovered = hoveredIndex === index;
 
@@ -108,9 +134,15 @@ const PubDetail = () => {
             })}
           </div>
           <div className="flex justify-between text-xs text-gray-500">
-            <span>12pm</span>
-            <span>5pm</span>
-            <span>9pm</span>
+            <span>{formatTimeOfDay(sortedEvals[0].time)}</span>
+            <span>
+              {formatTimeOfDay(
+                sortedEvals[Math.floor(sortedEvals.length / 2)].time
+              )}
+            </span>
+            <span>
+              {formatTimeOfDay(sortedEvals[sortedEvals.length - 1].time)}
+            </span>
           </div>
         </div>
       );
@@ -119,10 +151,7 @@ const PubDetail = () => {
     return (
       <div>
         {hoveredSunEval && hoveredIndex !== null
-          ? renderSunRating(
-              hoveredSunEval.pc_in_sun,
-              Number(hoveredSunEval.time || -1)
-            )
+          ? renderSunRating(hoveredSunEval.pc_in_sun, hoveredSunEval.time)
           : renderSunRating(sunPercentage)}
         {renderDayTimeline()}
       </div>
@@ -166,6 +195,14 @@ const PubDetail = () => {
           {selectedPub.name}
         </h1>
 
+        <ForecastDatePicker
+          isInterpolated={
+            isSunEvalsForTimeslotInterpolated ||
+            isSunEvalsForAllPubAreasInterpolated
+          }
+          className="mb-6 text-gray-700"
+        />
+
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
           <div>
             <h2 className="text-xl font-semibold text-gray-700 mb-3">
@@ -3,6 +3,7 @@ import { useMemo } from "react";
 // Hooks
 import usePubs from "../../../_shared/hooks/pubs/usePubs";
 import usePubAreas from "../../../_shared/hooks/pubAreas/usePubAreas";
+import useHeroMetrics from "../../../_shared/hooks/heroMetrics/useHeroMetrics";
 
 // Types
 import { PubArea, Pub } from "../../../_shared/types";
@@ -19,6 +20,7 @@ export interface PubForTableDisplay extends Pub {
   totalArea: number;
   postcode: string;
   areaTypes: string[];
+  sunScore: number;
 }
 
 const PitsOneHundredPubsList = () => {
@@ -31,6 +33,10 @@ const PitsOneHundredPubsList = () => {
     data: { uiReadyPubs: pubsWithAreaDetails = [] },
   } = usePubs();
 
+  const {
+    data: { allMapReadyPubs = [] },
+  } = useHeroMetrics();
+
   // Add each areasOfTypes to the pubsWithAreaDetails and calculate total area
   const rankedPubs: PubForTableDisplay[] = useMemo(() => {
     const pubsWithAreasAndTotals = pubsWithAreaDetails.map((pub) => {
@@ -42,20 +48,25 @@ const PitsOneHundredPubsList = () => {
       // Create array of unique area types
       const areaTypes = [...new Set(areas.map((area) => area.type))];
 
+      const sunScore =
+        allMapReadyPubs.find((marker) => marker.pub.id === pub.id)?.sunScore ||
+        0;
+
       return {
         ...pub,
         areas,
         totalArea,
         postcode,
         areaTypes,
+        sunScore,
       };
     });
 
-    // Sort by total area (descending)
+    // Sort by sun score, then total area (descending)
     return [...pubsWithAreasAndTotals].sort(
-      (a, b) => b.totalArea - a.totalArea
+      (a, b) => b.sunScore - a.sunScore || b.totalArea - a.totalArea
     );
-  }, [pubsWithAreaDetails, allAvailableAreas]);
+  }, [pubsWithAreaDetails, allAvailableAreas, allMapReadyPubs]);
 
   return (
     <>
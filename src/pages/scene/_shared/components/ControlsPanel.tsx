@@ -3,6 +3,12 @@ import { useNavigate } from "@tanstack/react-router";
 // Hooks
 import useMapSettings from "../hooks/useMapSettings";
 import { cn } from "../../../../utils";
+import {
+  formatTimeSlot,
+  getDateForTimeSlot,
+  getTimeSlotForDate,
+  LAST_TIME_SLOT,
+} from "../../../../utils/timeSlots";
 
 const ControlsPanel = () => {
   const navigate = useNavigate();
@@ -21,19 +27,13 @@ const ControlsPanel = () => {
   const getSliderValue = () => {
     const currentTime =
       timeOfDay instanceof Date ? timeOfDay : new Date(timeOfDay);
-    const hours = currentTime.getHours();
-    const minutes = currentTime.getMinutes();
-    return hours * 4 + Math.floor(minutes / 15);
+    return getTimeSlotForDate(currentTime);
   };
 
   // Handle slider change - update in real-time
   const handleSliderChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = parseInt(e.target.value);
-    const hours = Math.floor(value / 4);
-    const minutes = (value % 4) * 15;
-    const newTime = new Date();
-    newTime.setHours(hours, minutes, 0, 0);
-    onSetTimeOfDay(newTime);
+    onSetTimeOfDay(getDateForTimeSlot(value));
   };
 
   return (
@@ -53,15 +53,14 @@ const ControlsPanel = () => {
         {/* Time slider */}
         <div className="mb-2">
           <div className="flex justify-between text-xs text-gray-600 mb-1">
-            <span>12 PM</span>
-            <span>4 PM</span>
-            <span>9 PM</span>
+            <span>{formatTimeSlot(0)}</span>
+            <span>{formatTimeSlot(Math.round(LAST_TIME_SLOT / 2))}</span>
+            <span>{formatTimeSlot(LAST_TIME_SLOT)}</span>
           </div>
           <input
             type="range"
-            // 12pm = 48, 9pm = 84
-            min="48"
-            max="84"
+            min="0"
+            max={LAST_TIME_SLOT}
             step="1"
             value={getSliderValue()}
             onChange={handleSliderChange}
@@ -0,0 +1,227 @@
+import * as THREE from "three";
+
+// Types
+import { VisionMaskPoint } from "../../../../_shared/types";
+import { PolygonCoordinate } from "../../../../_shared/hooks/pubAreas/usePubAreas";
+import { VisionMaskSurfaces } from "../../../../utils/visionMaskChecks";
+import { ExtendedTilesRenderer } from "./tilesRendererService";
+
+// How far above the ellipsoid (metres) to start looking down for the floor.
+// Comfortably above anything a pub terrace sits on.
+const RAY_START_HEIGHT = 1000;
+
+// Surfaces whose normal points at least this far up (cos of ~45°) are ground,
+// anything steeper is a wall
+const MIN_GROUND_NORMAL_Y = Math.SQRT1_2;
+
+/**
+ * Why a floor polygon couldn't be projected
+ */
+export type MaskProjectionError =
+  | "not-ready"
+  | "not-enough-points"
+  | "no-ground"
+  | "out-of-view";
+
+export type MaskProjectionResult =
+  | { points: VisionMaskPoint[]; error: null }
+  | { points: null; error: MaskProjectionError };
+
+/**
+ * Projects an area's geographic floor polygon through the scene camera, to
+ * find where it appears on screen
+ */
+export class MaskProjectionService {
+  private renderer: THREE.WebGLRenderer | null = null;
+  private camera: THREE.Camera | null = null;
+  private tilesRenderer: ExtendedTilesRenderer | null = null;
+
+  private raycaster = new THREE.Raycaster();
+
+  /**
+   * Attach the service to the scene it should project into
+   * @param renderer The renderer drawing the tiles
+   * @param camera The camera the vision masks are drawn from
+   * @param tilesRenderer The tiles, already re-centred on the pub
+   */
+  public initialize(
+    renderer: THREE.WebGLRenderer,
+    camera: THREE.Camera,
+    tilesRenderer: ExtendedTilesRenderer
+  ) {
+    this.renderer = renderer;
+    this.camera = camera;
+    this.tilesRenderer = tilesRenderer;
+  }
+
+  public isReady(): boolean {
+    return !!(this.renderer && this.camera && this.tilesRenderer);
+  }
+
+  /**
+   * Where a floor polygon appears on screen from the current camera
+   * @param coordinates The floor polygon drawn in the sizer
+   * @returns The polygon in client coordinates, or why it couldn't be found
+   */
+  public projectFloorPolygon(
+    coordinates: PolygonCoordinate[]
+  ): MaskProjectionResult {
+    if (!this.renderer || !this.camera || !this.tilesRenderer) {
+      return { points: null, error: "not-ready" };
+    }
+
+    if (coordinates.length < 3) {
+      return { points: null, error: "not-enough-points" };
+    }
+
+    const groundPoints = coordinates.map(({ lat, lng }) =>
+      this.getEllipsoidPoint(lat, lng)
+    );
+
+    const floorHeight = this.findFloorHeight(groundPoints);
+    if (floorHeight === null) return { points: null, error: "no-ground" };
+
+    const points = groundPoints.map((point) =>
+      this.toClientPoint(point.setY(floorHeight))
+    );
+
+    if (points.some((point) => !point)) {
+      return { points: null, error: "out-of-view" };
+    }
+
+    return { points: points as VisionMaskPoint[], error: null };
+  }
+
+  /**
+   * Where a spot on the ground appears on screen from the current camera
+   * @returns The point in client coordinates, or null if it can't be seen
+   */
+  public projectLatLng(lat: number, lng: number): VisionMaskPoint | null {
+    if (!this.isReady()) return null;
+
+    const point = this.getEllipsoidPoint(lat, lng);
+    const floorHeight = this.findFloorHeight([point]);
+    if (floorHeight === null) return null;
+
+    return this.toClientPoint(point.setY(floorHeight));
+  }
+
+  /**
+   * What the scene shows at each point: ground, a wall, or nothing (sky)
+   * @param points Points in client coordinates
+   */
+  public sampleSurfaces(points: VisionMaskPoint[]): VisionMaskSurfaces | null {
+    if (!this.renderer || !this.camera || !this.tilesRenderer) return null;
+
+    const group = this.tilesRenderer.group;
+    const rect = this.renderer.domElement.getBoundingClientRect();
+    const surfaces = { ground: 0, facade: 0, sky: 0 };
+
+    this.camera.updateMatrixWorld();
+
+    points.forEach(({ x, y }) => {
+      const ndc = new THREE.Vector2(
+        ((x - rect.left) / rect.width) * 2 - 1,
+        1 - ((y - rect.top) / rect.height) * 2
+      );
+
+      this.raycaster.setFromCamera(ndc, this.camera!);
+      const [hit] = this.raycaster.intersectObject(group, true);
+
+      if (!hit?.face) {
+        surfaces.sky++;
+        return;
+      }
+
+      const normal = hit.face.normal
+        .clone()
+        .transformDirection(hit.object.matrixWorld);
+
+      // Faces can be wound either way, so only the steepness matters
+      if (Math.abs(normal.y) >= MIN_GROUND_NORMAL_Y) {
+        surfaces.ground++;
+      } else {
+        surfaces.facade++;
+      }
+    });
+
+    return surfaces;
+  }
+
+  /**
+   * Where the camera's view is on screen, allowing for the CSS scale on the
+   * canvas
+   */
+  public getViewRect(): DOMRect | null {
+    return this.renderer?.domElement.getBoundingClientRect() ?? null;
+  }
+
+  /**
+   * Release the scene
+   */
+  public dispose() {
+    this.renderer = null;
+    this.camera = null;
+    this.tilesRenderer = null;
+  }
+
+  // A lat/lng on the ellipsoid (height 0, some way off the real ground) in
+  // scene coordinates
+  private getEllipsoidPoint(lat: number, lng: number) {
+    const { ellipsoid, group } = this.tilesRenderer!;
+    group.updateMatrixWorld(true);
+
+    return ellipsoid
+      .getCartographicToPosition(
+        lat * THREE.MathUtils.DEG2RAD,
+        lng * THREE.MathUtils.DEG2RAD,
+        0,
+        new THREE.Vector3()
+      )
+      .applyMatrix4(group.matrixWorld);
+  }
+
+  // Scene point to client pixels, or null if it's behind the camera or past
+  // the far plane
+  private toClientPoint(point: THREE.Vector3): VisionMaskPoint | null {
+    const camera = this.camera!;
+    camera.updateMatrixWorld();
+
+    const { x, y, z } = point.clone().project(camera);
+    if (z < -1 || z > 1) return null;
+
+    // getBoundingClientRect allows for the CSS scale on the canvas
+    const rect = this.renderer!.domElement.getBoundingClientRect();
+
+    return {
+      x: rect.left + ((x + 1) / 2) * rect.width,
+      y: rect.top + ((1 - y) / 2) * rect.height,
+    };
+  }
+
+  /**
+   * Looks straight down onto the tiles at each corner of the floor. Parasols
+   * and trees can only make a hit higher than the floor, so the lowest hit is
+   * taken as the floor for the whole area.
+   */
+  private findFloorHeight(groundPoints: THREE.Vector3[]) {
+    const group = this.tilesRenderer!.group;
+    const down = new THREE.Vector3(0, -1, 0);
+
+    const hits = groundPoints.flatMap((point) => {
+      this.raycaster.set(
+        new THREE.Vector3(point.x, point.y + RAY_START_HEIGHT, point.z),
+        down
+      );
+
+      const [hit] = this.raycaster.intersectObject(group, true);
+
+      return hit ? [hit.point.y] : [];
+    });
+
+    return hits.length ? Math.min(...hits) : null;
+  }
+}
+
+// Create a singleton instance
+export const maskProjection = new MaskProjectionService();
@@ -0,0 +1,185 @@
+import * as THREE from "three";
+
+// Types
+import { VisionMask } from "../../../../_shared/types";
+
+// Utils
+import {
+  getVisionMaskBounds,
+  isPointInVisionMask,
+  mapVisionMask,
+} from "../../../../utils/visionMask";
+
+/**
+ * Result of measuring the sunlight inside a vision mask
+ */
+export interface SunMeasurement {
+  pcInSun: number;
+  litPixels: number;
+  totalPixels: number;
+}
+
+// Pixels above this (0-255) count as geometry / shadow in the readback
+const PIXEL_THRESHOLD = 127;
+
+/**
+ * Measures how much of an on-screen area is in direct sun by re-rendering
+ * the scene as a shadow-only pass and reading the pixels back
+ */
+export class SunMeasurementService {
+  private renderer: THREE.WebGLRenderer | null = null;
+  private scene: THREE.Scene | null = null;
+  private camera: THREE.Camera | null = null;
+
+  private renderTarget: THREE.WebGLRenderTarget | null = null;
+  private pixels: Uint8Array = new Uint8Array(0);
+
+  // Writes white where there is geometry, with alpha 1 in shadow and 0 in
+  // sun. Blending is off so the alpha lands in the render target untouched.
+  private shadowMaterial = new THREE.ShadowMaterial({
+    color: 0xffffff,
+    opacity: 1,
+    transparent: false,
+    side: THREE.DoubleSide,
+  });
+
+  /**
+   * Attach the service to the scene it should measure
+   * @param renderer The renderer drawing the tiles
+   * @param scene The scene containing the tiles and the sun light
+   * @param camera The camera the vision masks were drawn from
+   */
+  public initialize(
+    renderer: THREE.WebGLRenderer,
+    scene: THREE.Scene,
+    camera: THREE.Camera
+  ) {
+    this.renderer = renderer;
+    this.scene = scene;
+    this.camera = camera;
+  }
+
+  public isReady(): boolean {
+    return !!(this.renderer && this.scene && this.camera);
+  }
+
+  /**
+   * Percentage of the geometry inside `mask` that is in direct sun, leaving
+   * out anything inside its holes
+   * @param mask Vision mask in client coordinates
+   * @returns The measurement, or null if nothing inside the mask was rendered
+   */
+  public measure(mask: VisionMask): SunMeasurement | null {
+    if (!this.renderer || !this.scene || !this.camera) return null;
+
+    const canvas = this.renderer.domElement;
+    const width = canvas.clientWidth;
+    const height = canvas.clientHeight;
+
+    if (width === 0 || height === 0) return null;
+
+    // Map client coordinates onto the canvas, allowing for CSS transforms
+    const rect = canvas.getBoundingClientRect();
+    const canvasMask = mapVisionMask(mask, ({ x, y }) => ({
+      x: ((x - rect.left) * width) / rect.width,
+      y: ((y - rect.top) * height) / rect.height,
+    }));
+
+    const bounds = getVisionMaskBounds(canvasMask);
+    if (!bounds) return null;
+
+    this.renderShadowPass(width, height);
+
+    // Only walk the pixels inside the mask's bounding box
+    const minX = Math.max(0, Math.floor(bounds.minX));
+    const maxX = Math.min(width - 1, Math.ceil(bounds.maxX));
+    const minY = Math.max(0, Math.floor(bounds.minY));
+    const maxY = Math.min(height - 1, Math.ceil(bounds.maxY));
+
+    let litPixels = 0;
+    let totalPixels = 0;
+
+    for (let y = minY; y <= maxY; y++) {
+      for (let x = minX; x <= maxX; x++) {
+        if (!isPointInVisionMask(x + 0.5, y + 0.5, canvasMask)) continue;
+
+        // Render targets are read bottom-up
+        const index = ((height - 1 - y) * width + x) * 4;
+
+        // Nothing rendered here (e.g. sky)
+        if (this.pixels[index] <= PIXEL_THRESHOLD) continue;
+
+        totalPixels++;
+        if (this.pixels[index + 3] <= PIXEL_THRESHOLD) litPixels++;
+      }
+    }
+
+    if (totalPixels === 0) return null;
+
+    return {
+      pcInSun: (litPixels / totalPixels) * 100,
+      litPixels,
+      totalPixels,
+    };
+  }
+
+  /**
+   * Release the render target and detach from the scene
+   */
+  public dispose() {
+    this.renderTarget?.dispose();
+    this.renderTarget = null;
+    this.pixels = new Uint8Array(0);
+
+    this.renderer = null;
+    this.scene = null;
+    this.camera = null;
+  }
+
+  private renderShadowPass(width: number, height: number) {
+    const renderer = this.renderer!;
+    const scene = this.scene!;
+
+    if (
+      !this.renderTarget ||
+      this.renderTarget.width !== width ||
+      this.renderTarget.height !== height
+    ) {
+      this.renderTarget?.dispose();
+      this.renderTarget = new THREE.WebGLRenderTarget(width, height);
+      this.pixels = new Uint8Array(width * height * 4);
+    }
+
+    // Keep everything we touch so the normal render is unaffected
+    const previousRenderTarget = renderer.getRenderTarget();
+    const previousClearColor = renderer.getClearColor(new THREE.Color());
+    const previousClearAlpha = renderer.getClearAlpha();
+    const previousOverrideMaterial = scene.overrideMaterial;
+    const previousBackground = scene.background;
+
+    scene.overrideMaterial = this.shadowMaterial;
+    scene.background = null;
+
+    renderer.setRenderTarget(this.renderTarget);
+    renderer.setClearColor(0x000000, 0);
+    renderer.clear();
+    renderer.render(scene, this.camera!);
+
+    renderer.readRenderTargetPixels(
+      this.renderTarget,
+      0,
+      0,
+      width,
+      height,
+      this.pixels
+    );
+
+    renderer.setRenderTarget(previousRenderTarget);
+    renderer.setClearColor(previousClearColor, previousClearAlpha);
+    scene.overrideMaterial = previousOverrideMaterial;
+    scene.background = previousBackground;
+  }
+}
+
+// Create a singleton instance
+export const sunMeasurement = new SunMeasurementService();
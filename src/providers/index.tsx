@@ -7,11 +7,13 @@ import { GoogleMapsProvider } from "./GoogleMapsProvider";
 import { PubProvider } from "../_shared/providers/PubProvider";
 import { SunEvalsProvider } from "../_shared/providers/useSunEvals";
 import { FiltersProvider } from "../_shared/providers/FiltersProvider";
+import { CrawlProvider } from "../_shared/providers/CrawlProvider";
 import { PubAreasProvider } from "../_shared/providers/PubAreasProvider";
 import { GeoLocationProvider } from "../_shared/providers/useGeolocationContext";
 import { MapSettingsProvider } from "../pages/scene/_shared/context/useMapSettingsContext";
 import { PubLabelsProvider } from "../pages/pub-labels/_shared/providers/PubLabelsProvider";
 import { EarlyAccessProvider } from "../_shared/providers/EarlyAccessProvider";
+import { SimulationQueueProvider } from "../pages/areas/simulator/_shared/providers/SimulationQueueProvider";
 
 export const GeneralProviders = ({ children }: any) => {
   // Variables
@@ -49,9 +51,15 @@ export const GeneralProviders = ({ children }: any) => {
                 <GeoLocationProvider>
                   <SunEvalsProvider>
                     <FiltersProvider>
-                      <EarlyAccessProvider>
-                        <MapSettingsProvider>{children}</MapSettingsProvider>
-                      </EarlyAccessProvider>
+                      <CrawlProvider>
+                        <EarlyAccessProvider>
+                          <MapSettingsProvider>
+                            <SimulationQueueProvider>
+                              {children}
+                            </SimulationQueueProvider>
+                          </MapSettingsProvider>
+                        </EarlyAccessProvider>
+                      </CrawlProvider>
                     </FiltersProvider>
                   </SunEvalsProvider>
                 </GeoLocationProvider>
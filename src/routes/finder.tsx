@@ -3,6 +3,10 @@ import { createFileRoute } from "@tanstack/react-router";
 // Components
 import Finder from "../pages/finder";
 
+// Helpers
+import { validateFinderSearch } from "../utils/finderSearch";
+
 export const Route = createFileRoute("/finder")({
   component: Finder,
+  validateSearch: validateFinderSearch,
 });
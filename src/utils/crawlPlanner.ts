@@ -0,0 +1,256 @@
+import { SunEval } from "../_shared/types";
+import { PolygonCoordinate } from "../_shared/hooks/pubAreas/usePubAreas";
+import { DEFAULT_SUN_LEFT_THRESHOLD } from "./sunLeft";
+import { TIME_SLOT_CONFIG, TIME_SLOT_MINUTES } from "./timeSlots";
+import { getStraightLineRoute, WalkingRoute } from "./walkingRoutes";
+
+export interface CrawlRequest {
+  start: PolygonCoordinate;
+
+  // Minutes after midnight
+  startTime: number;
+  stops: number;
+
+  // Longest walk allowed between stops, and from the start to the first
+  maxWalkMinutes: number;
+}
+
+export interface CrawlPub {
+  id: number;
+  name: string;
+  address_text: string;
+  location: PolygonCoordinate;
+}
+
+export interface CrawlStop {
+  pub: CrawlPub;
+
+  // From the previous stop, or the start for the first
+  walkMinutes: number;
+
+  // Minutes after midnight
+  arrival: number;
+  departure: number;
+  sunMinutes: number;
+}
+
+export interface CrawlPlan {
+  stops: CrawlStop[];
+  totalSunMinutes: number;
+  totalWalkMinutes: number;
+}
+
+export interface CrawlPlannerConfig {
+  // How long a stop can last, every one is tried at each stop
+  stayOptions: number[];
+
+  // Part-planned crawls kept after each stop. Higher finds better crawls
+  // but takes longer.
+  beamWidth: number;
+
+  // Most pubs considered, nearest to the start first
+  maxCandidates: number;
+
+  // pc_in_sun the best area needs for a slot to count as sunny
+  threshold: number;
+  getWalk: (from: PolygonCoordinate, to: PolygonCoordinate) => WalkingRoute;
+}
+
+export const DEFAULT_CRAWL_PLANNER_CONFIG: CrawlPlannerConfig = {
+  stayOptions: [30, 45, 60, 90],
+  beamWidth: 40,
+  maxCandidates: 25,
+  threshold: DEFAULT_SUN_LEFT_THRESHOLD,
+  getWalk: getStraightLineRoute,
+};
+
+// The last a crawl can start and still fit the shortest stay in before the
+// last timeslot, ignoring the walk there
+export const getLatestCrawlStartTime = (
+  config = DEFAULT_CRAWL_PLANNER_CONFIG
+) => TIME_SLOT_CONFIG.endMinutes - Math.min(...config.stayOptions);
+
+// A crawl part way through being planned
+interface CrawlDraft {
+  stops: CrawlStop[];
+  location: PolygonCoordinate;
+  time: number;
+  totalSunMinutes: number;
+  totalWalkMinutes: number;
+}
+
+//
+
+// Sun
+
+/**
+ * The slots each pub has sun in, taking whichever of its areas is sunniest
+ * in each slot
+ */
+export const getSunnySlotsByPub = (
+  sunEvals: SunEval[],
+  threshold = DEFAULT_SUN_LEFT_THRESHOLD
+) => {
+  const sunnySlotsByPub = new Map<number, Set<number>>();
+
+  sunEvals.forEach(({ pub_id, time, pc_in_sun }) => {
+    if (pc_in_sun < threshold) return;
+
+    const sunnySlots = sunnySlotsByPub.get(pub_id) || new Set<number>();
+    sunnySlots.add(time);
+    sunnySlotsByPub.set(pub_id, sunnySlots);
+  });
+
+  return sunnySlotsByPub;
+};
+
+// Minutes in the sun between two times, counting part slots
+export const getSunMinutesBetween = (
+  sunnySlots: Set<number> | undefined,
+  from: number,
+  to: number
+) => {
+  if (!sunnySlots?.size) return 0;
+
+  const { startMinutes } = TIME_SLOT_CONFIG;
+  const firstSlot =
+    startMinutes +
+    Math.floor((from - startMinutes) / TIME_SLOT_MINUTES) * TIME_SLOT_MINUTES;
+
+  let sunMinutes = 0;
+
+  for (let slot = firstSlot; slot < to; slot += TIME_SLOT_MINUTES) {
+    if (!sunnySlots.has(slot)) continue;
+
+    sunMinutes += Math.min(to, slot + TIME_SLOT_MINUTES) - Math.max(from, slot);
+  }
+
+  return sunMinutes;
+};
+
+//
+
+// Planning
+
+/**
+ * Pubs worth planning a crawl around: those the whole crawl could walk to,
+ * nearest first
+ */
+export const selectCrawlCandidates = (
+  pubs: CrawlPub[],
+  { start, stops, maxWalkMinutes }: CrawlRequest,
+  config = DEFAULT_CRAWL_PLANNER_CONFIG
+) =>
+  pubs
+    .map((pub) => ({ pub, walk: config.getWalk(start, pub.location) }))
+    .filter(({ walk }) => walk.walkingMinutes <= stops * maxWalkMinutes)
+    .sort((a, b) => a.walk.distance - b.walk.distance)
+    .slice(0, config.maxCandidates)
+    .map(({ pub }) => pub);
+
+// Most sun first, then the least walking, then the most day left
+const compareDrafts = (a: CrawlDraft, b: CrawlDraft) =>
+  b.totalSunMinutes - a.totalSunMinutes ||
+  a.totalWalkMinutes - b.totalWalkMinutes ||
+  a.time - b.time;
+
+/**
+ * Plans the crawl with the most minutes in the sun, one stop at a time,
+ * keeping the best few part-planned crawls at each stop (a beam search).
+ * Every stop must be a walk of at most maxWalkMinutes from the last, and the
+ * crawl has to finish by the last timeslot.
+ *
+ * Returns a shorter crawl if there aren't enough pubs in reach, and null if
+ * there are none.
+ *
+ * @param pubs Pubs to choose from, see selectCrawlCandidates
+ * @param sunEvals Evals for the pubs' areas on the day
+ */
+export const planCrawl = (
+  pubs: CrawlPub[],
+  sunEvals: SunEval[],
+  request: CrawlRequest,
+  config = DEFAULT_CRAWL_PLANNER_CONFIG
+): CrawlPlan | null => {
+  const { start, startTime, stops, maxWalkMinutes } = request;
+  const { stayOptions, beamWidth, threshold, getWalk } = config;
+
+  const sunnySlotsByPub = getSunnySlotsByPub(sunEvals, threshold);
+
+  // Walks between the same pubs come up over and over
+  const walks = new Map<string, WalkingRoute>();
+  const getCachedWalk = (from: PolygonCoordinate, to: CrawlPub) => {
+    const key = `${from.lat},${from.lng}:${to.id}`;
+    const walk = walks.get(key) || getWalk(from, to.location);
+
+    walks.set(key, walk);
+    return walk;
+  };
+
+  let drafts: CrawlDraft[] = [
+    {
+      stops: [],
+      location: start,
+      time: startTime,
+      totalSunMinutes: 0,
+      totalWalkMinutes: 0,
+    },
+  ];
+
+  for (let stop = 0; stop < stops; stop++) {
+    const nextDrafts: CrawlDraft[] = [];
+
+    drafts.forEach((draft) => {
+      pubs.forEach((pub) => {
+        if (draft.stops.some((visited) => visited.pub.id === pub.id)) return;
+
+        const { walkingMinutes } = getCachedWalk(draft.location, pub);
+        if (walkingMinutes > maxWalkMinutes) return;
+
+        const arrival = draft.time + walkingMinutes;
+
+        stayOptions.forEach((stay) => {
+          const departure = arrival + stay;
+          if (departure > TIME_SLOT_CONFIG.endMinutes) return;
+
+          const sunMinutes = getSunMinutesBetween(
+            sunnySlotsByPub.get(pub.id),
+            arrival,
+            departure
+          );
+
+          nextDrafts.push({
+            stops: [
+              ...draft.stops,
+              {
+                pub,
+                walkMinutes: walkingMinutes,
+                arrival,
+                departure,
+                sunMinutes,
+              },
+            ],
+            location: pub.location,
+            time: departure,
+            totalSunMinutes: draft.totalSunMinutes + sunMinutes,
+            totalWalkMinutes: draft.totalWalkMinutes + walkingMinutes,
+          });
+        });
+      });
+    });
+
+    // Nowhere else in reach, go with what we have
+    if (!nextDrafts.length) break;
+
+    drafts = nextDrafts.sort(compareDrafts).slice(0, beamWidth);
+  }
+
+  const [best] = drafts;
+  if (!best?.stops.length) return null;
+
+  return {
+    stops: best.stops,
+    totalSunMinutes: best.totalSunMinutes,
+    totalWalkMinutes: best.totalWalkMinutes,
+  };
+};
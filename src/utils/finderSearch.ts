@@ -0,0 +1,215 @@
+import { AreaType, SunQuality } from "../_shared/providers/FiltersProvider";
+import { LAST_TIME_SLOT } from "./timeSlots";
+import { normalizeSunThresholds, SunThresholds } from "./sunQuality";
+
+// The drawer open over the map, besides a selected pub's
+export type FinderView = "filters" | "list";
+
+/**
+ * Finder state in the URL, so a shared link opens on what the sender saw,
+ * e.g. /finder?pub=123&slot=14&q=GOOD&types=beer-garden
+ */
+export interface FinderSearch {
+  // Selected pub id, opens its drawer
+  pub?: number;
+
+  // Timeslot index and forecast day (YYYY-MM-DD)
+  slot?: number;
+  date?: string;
+
+  // Comma separated sun qualities and area types
+  q?: string;
+  types?: string;
+
+  // Group size filter
+  group?: number;
+
+  // The user's own sun quality thresholds, only ever set as a pair
+  good?: number;
+  some?: number;
+
+  // Map centre and zoom
+  lat?: number;
+  lng?: number;
+  zoom?: number;
+
+  view?: FinderView;
+}
+
+// Values in a FinderSearch once parsed, ready for the providers
+export interface FinderSearchState {
+  selectedPubId: number | null;
+  selectedTimeslot: number | null;
+  forecastDate: string | null;
+  sunQualityFilters: SunQuality[] | null;
+  areaTypeFilters: AreaType[] | null;
+  groupSizeFilter: number | null;
+  sunThresholds: SunThresholds | null;
+  center: google.maps.LatLngLiteral | null;
+  zoom: number | null;
+  view: FinderView | null;
+}
+
+const SUN_QUALITIES = Object.values(SunQuality) as string[];
+const AREA_TYPES = Object.values(AreaType) as string[];
+const FINDER_VIEWS: FinderView[] = ["filters", "list"];
+
+//
+
+// Validation
+
+// Numbers arrive parsed from JSON or as strings, depending on how the link
+// was written
+const toNumber = (value: unknown) => {
+  const number =
+    typeof value === "number"
+      ? value
+      : typeof value === "string" && value.trim()
+        ? Number(value)
+        : NaN;
+
+  return Number.isFinite(number) ? number : undefined;
+};
+
+const toInteger = (value: unknown, min: number, max: number) => {
+  const number = toNumber(value);
+
+  return number !== undefined &&
+    Number.isInteger(number) &&
+    number >= min &&
+    number <= max
+    ? number
+    : undefined;
+};
+
+const toInRange = (value: unknown, min: number, max: number) => {
+  const number = toNumber(value);
+
+  return number !== undefined && number >= min && number <= max
+    ? number
+    : undefined;
+};
+
+// Keeps the known values of a comma separated list, undefined if none are
+const toList = (value: unknown, allowed: string[]) => {
+  if (typeof value !== "string") return undefined;
+
+  const items = [
+    ...new Set(value.split(",").filter((item) => allowed.includes(item))),
+  ];
+
+  return items.length ? items.join(",") : undefined;
+};
+
+const isDateKey = (value: unknown): value is string =>
+  typeof value === "string" &&
+  /^\d{4}-\d{2}-\d{2}$/.test(value) &&
+  !Number.isNaN(Date.parse(value));
+
+/**
+ * The route's validateSearch. Anything missing or invalid is dropped rather
+ * than failing the route, so a mangled link still opens the finder.
+ */
+export const validateFinderSearch = (
+  search: Record<string, unknown>
+): FinderSearch => {
+  const lat = toInRange(search.lat, -90, 90);
+  const lng = toInRange(search.lng, -180, 180);
+  const hasCenter = lat !== undefined && lng !== undefined;
+  const good = toInRange(search.good, 0, 100);
+  const some = toInRange(search.some, 0, 100);
+  const hasThresholds = good !== undefined && some !== undefined;
+
+  return {
+    pub: toInteger(search.pub, 1, Number.MAX_SAFE_INTEGER),
+    slot: toInteger(search.slot, 0, LAST_TIME_SLOT),
+    date: isDateKey(search.date) ? search.date : undefined,
+    q: toList(search.q, SUN_QUALITIES),
+    types: toList(search.types, AREA_TYPES),
+    group: toInteger(search.group, 1, 100),
+    good: hasThresholds ? good : undefined,
+    some: hasThresholds ? some : undefined,
+    lat: hasCenter ? lat : undefined,
+    lng: hasCenter ? lng : undefined,
+    zoom: toInteger(search.zoom, 1, 22),
+    view: FINDER_VIEWS.find((view) => view === search.view),
+  };
+};
+
+//
+
+// Conversion
+
+// ~1m is plenty, and keeps the URL tidy
+export const toSearchCoordinate = (degrees: number) =>
+  Number(degrees.toFixed(5));
+
+// Whether a link carries any finder state, rather than just opening the
+// finder on whatever was left in localStorage
+export const hasFinderSearch = (search: FinderSearch) =>
+  Object.values(search).some((value) => value !== undefined);
+
+export const parseFinderSearch = (search: FinderSearch): FinderSearchState => ({
+  selectedPubId: search.pub ?? null,
+  selectedTimeslot: search.slot ?? null,
+  forecastDate: search.date ?? null,
+  sunQualityFilters: search.q ? (search.q.split(",") as SunQuality[]) : null,
+  areaTypeFilters: search.types
+    ? (search.types.split(",") as AreaType[])
+    : null,
+  groupSizeFilter: search.group ?? null,
+  sunThresholds:
+    search.good !== undefined && search.some !== undefined
+      ? normalizeSunThresholds({ GOOD: search.good, SOME: search.some })
+      : null,
+  center:
+    search.lat !== undefined && search.lng !== undefined
+      ? { lat: search.lat, lng: search.lng }
+      : null,
+  zoom: search.zoom ?? null,
+  view: search.view ?? null,
+});
+
+/**
+ * Search params for the finder's current state. Every area type is the
+ * default, so it's left out to keep links short, as are the season's own
+ * sun thresholds.
+ */
+export const createFinderSearch = ({
+  selectedPubId,
+  selectedTimeslot,
+  forecastDate,
+  sunQualityFilters,
+  areaTypeFilters,
+  groupSizeFilter,
+  sunThresholds,
+  center,
+  zoom,
+  view,
+}: FinderSearchState): FinderSearch => {
+  const thresholds = sunThresholds
+    ? normalizeSunThresholds(sunThresholds)
+    : null;
+
+  const isEveryAreaType =
+    !!areaTypeFilters &&
+    AREA_TYPES.every((type) => areaTypeFilters.includes(type as AreaType));
+
+  return {
+    pub: selectedPubId || undefined,
+    slot: selectedTimeslot ?? undefined,
+    date: forecastDate || undefined,
+    q: sunQualityFilters?.length ? sunQualityFilters.join(",") : undefined,
+    types:
+      areaTypeFilters?.length && !isEveryAreaType
+        ? areaTypeFilters.join(",")
+        : undefined,
+    group: groupSizeFilter || undefined,
+    good: thresholds?.GOOD,
+    some: thresholds?.SOME,
+    lat: center ? toSearchCoordinate(center.lat) : undefined,
+    lng: center ? toSearchCoordinate(center.lng) : undefined,
+    zoom: zoom ?? undefined,
+    view: view || undefined,
+  };
+};
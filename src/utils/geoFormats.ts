@@ -0,0 +1,242 @@
+import { Pub, PubArea } from "../_shared/types";
+import { PolygonCoordinate } from "../_shared/hooks/pubAreas/usePubAreas";
+import { isPolygonSelfIntersecting } from "./geodesic";
+
+// GeoJSON positions are [lng, lat], optionally with an altitude
+type GeoJsonPosition = number[];
+
+interface GeoJsonGeometry {
+  type: string;
+  coordinates?: unknown;
+  geometries?: GeoJsonGeometry[];
+}
+
+interface GeoJsonFeature {
+  type: "Feature";
+  geometry: GeoJsonGeometry | null;
+  properties: Record<string, unknown> | null;
+}
+
+export interface GeoJsonFeatureCollection {
+  type: "FeatureCollection";
+  features: GeoJsonFeature[];
+}
+
+/**
+ * Why a file couldn't be read as a floor polygon
+ */
+export type PolygonImportError =
+  | "unreadable"
+  | "no-polygon"
+  | "not-enough-points"
+  | "self-intersecting";
+
+export type PolygonImportResult =
+  | { coordinates: PolygonCoordinate[]; error: null }
+  | { coordinates: null; error: PolygonImportError };
+
+export const POLYGON_IMPORT_ERROR_MESSAGES: Record<PolygonImportError, string> =
+  {
+    unreadable: "The file isn't valid GeoJSON or KML",
+    "no-polygon": "The file doesn't contain a polygon",
+    "not-enough-points": "The polygon needs at least 3 points",
+    "self-intersecting": "The polygon's edges cross each other",
+  };
+
+//
+
+// Import
+
+const isPosition = (value: unknown): value is GeoJsonPosition =>
+  Array.isArray(value) &&
+  value.length >= 2 &&
+  typeof value[0] === "number" &&
+  typeof value[1] === "number";
+
+// Files close their rings by repeating the first point, the sizer doesn't
+const openRing = (ring: PolygonCoordinate[]) => {
+  const first = ring[0];
+  const last = ring[ring.length - 1];
+
+  return ring.length > 1 && first.lat === last.lat && first.lng === last.lng
+    ? ring.slice(0, -1)
+    : ring;
+};
+
+const toPolygonResult = (
+  ring: PolygonCoordinate[] | null
+): PolygonImportResult => {
+  if (!ring) return { coordinates: null, error: "no-polygon" };
+
+  const coordinates = openRing(ring);
+
+  if (coordinates.length < 3) {
+    return { coordinates: null, error: "not-enough-points" };
+  }
+
+  if (isPolygonSelfIntersecting(coordinates)) {
+    return { coordinates: null, error: "self-intersecting" };
+  }
+
+  return { coordinates, error: null };
+};
+
+// The outer ring of the first polygon in a geometry. Holes aren't used, a
+// floor area is a single ring.
+const findGeoJsonRing = (
+  geometry: GeoJsonGeometry | null | undefined
+): PolygonCoordinate[] | null => {
+  if (!geometry) return null;
+
+  const toRing = (ring: unknown) =>
+    Array.isArray(ring) && ring.every(isPosition)
+      ? ring.map(([lng, lat]) => ({ lat, lng }))
+      : null;
+
+  switch (geometry.type) {
+    case "Polygon":
+      return Array.isArray(geometry.coordinates)
+        ? toRing(geometry.coordinates[0])
+        : null;
+    case "MultiPolygon":
+      return Array.isArray(geometry.coordinates) &&
+        Array.isArray(geometry.coordinates[0])
+        ? toRing(geometry.coordinates[0][0])
+        : null;
+    case "GeometryCollection":
+      for (const child of geometry.geometries || []) {
+        const ring = findGeoJsonRing(child);
+        if (ring) return ring;
+      }
+      return null;
+    default:
+      return null;
+  }
+};
+
+/**
+ * Reads the first polygon from a GeoJSON FeatureCollection, Feature or
+ * geometry, e.g. an OSM outline
+ */
+export const parseGeoJsonPolygon = (text: string): PolygonImportResult => {
+  let json: {
+    type?: string;
+    features?: GeoJsonFeature[];
+    geometry?: GeoJsonGeometry;
+  };
+
+  try {
+    json = JSON.parse(text);
+  } catch {
+    return { coordinates: null, error: "unreadable" };
+  }
+
+  if (!json || typeof json !== "object") {
+    return { coordinates: null, error: "unreadable" };
+  }
+
+  switch (json.type) {
+    case "FeatureCollection": {
+      if (!Array.isArray(json.features)) {
+        return { coordinates: null, error: "unreadable" };
+      }
+
+      const ring = json.features
+        .map((feature) => findGeoJsonRing(feature?.geometry))
+        .find((found) => !!found);
+
+      return toPolygonResult(ring || null);
+    }
+    case "Feature":
+      return toPolygonResult(findGeoJsonRing(json.geometry));
+    default:
+      return toPolygonResult(findGeoJsonRing(json as GeoJsonGeometry));
+  }
+};
+
+/**
+ * Reads the outer boundary of the first polygon in a KML document, e.g. one
+ * exported from Google Earth or a licensing plan
+ */
+export const parseKmlPolygon = (text: string): PolygonImportResult => {
+  const kml = new DOMParser().parseFromString(text, "application/xml");
+
+  if (kml.getElementsByTagName("parsererror").length) {
+    return { coordinates: null, error: "unreadable" };
+  }
+
+  const polygon = kml.getElementsByTagName("Polygon")[0];
+  const boundary = polygon?.getElementsByTagName("outerBoundaryIs")[0];
+  const coordinatesText =
+    boundary?.getElementsByTagName("coordinates")[0]?.textContent;
+
+  if (!coordinatesText) return { coordinates: null, error: "no-polygon" };
+
+  // "lng,lat[,alt]" tuples separated by whitespace
+  const ring = coordinatesText
+    .trim()
+    .split(/\s+/)
+    .map((tuple) => tuple.split(",").map(Number))
+    .filter(([lng, lat]) => Number.isFinite(lng) && Number.isFinite(lat))
+    .map(([lng, lat]) => ({ lat, lng }));
+
+  return toPolygonResult(ring);
+};
+
+/**
+ * Reads a floor polygon from an uploaded file, as KML if it looks like XML and
+ * GeoJSON otherwise
+ *
+ * @param text The file contents
+ * @param fileName Used to tell the formats apart
+ */
+export const parsePolygonFile = (
+  text: string,
+  fileName = ""
+): PolygonImportResult => {
+  const isKml =
+    fileName.toLowerCase().endsWith(".kml") || text.trimStart().startsWith("<");
+
+  return isKml ? parseKmlPolygon(text) : parseGeoJsonPolygon(text);
+};
+
+//
+
+// Export
+
+// A closed GeoJSON ring from a sizer polygon
+const toGeoJsonRing = (coordinates: PolygonCoordinate[]): GeoJsonPosition[] => {
+  const ring = coordinates.map(({ lat, lng }) => [lng, lat]);
+
+  return [...ring, ring[0]];
+};
+
+/**
+ * Every area of a pub as a FeatureCollection. Sized areas are their floor
+ * polygon, the rest a point at the area's location.
+ */
+export const createPubAreasFeatureCollection = (
+  pub: Pub,
+  areas: PubArea[]
+): GeoJsonFeatureCollection => ({
+  type: "FeatureCollection",
+  features: areas.map((area) => ({
+    type: "Feature",
+    geometry:
+      (area.coordinates?.length || 0) >= 3
+        ? { type: "Polygon", coordinates: [toGeoJsonRing(area.coordinates)] }
+        : { type: "Point", coordinates: [area.longitude, area.latitude] },
+    properties: {
+      id: area.id,
+      name: area.name,
+      description: area.description,
+      type: area.type,
+      floor_area: area.floor_area,
+      latitude: area.latitude,
+      longitude: area.longitude,
+      created_at: area.created_at,
+      pub_id: pub.id,
+      pub_name: pub.name,
+    },
+  })),
+});
@@ -0,0 +1,200 @@
+import { PubArea } from "../_shared/types";
+import { PolygonCoordinate } from "../_shared/hooks/pubAreas/usePubAreas";
+import { isRingSelfIntersecting } from "./visionMaskChecks";
+
+// The sphere Google's geometry library uses, so areas match the floor_area
+// values measured with it
+export const EARTH_RADIUS = 6378137;
+
+// How far a stored floor_area can drift from the recomputed one before the
+// audit flags it
+export const FLOOR_AREA_TOLERANCE = 0.01;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+export interface PolygonMeasurement {
+  // Square metres
+  area: number;
+
+  // Metres, including the closing edge
+  perimeter: number;
+  centroid: PolygonCoordinate | null;
+  isSelfIntersecting: boolean;
+}
+
+export interface FloorAreaAudit {
+  storedArea: number;
+  computedArea: number;
+
+  // Share of the computed area the stored one is off by
+  difference: number;
+  isSelfIntersecting: boolean;
+  isValid: boolean;
+}
+
+//
+
+// Distances
+
+/**
+ * Great circle distance between two points, in metres
+ */
+export const getDistance = (a: PolygonCoordinate, b: PolygonCoordinate) => {
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) *
+      Math.cos(toRadians(b.lat)) *
+      Math.sin(dLng / 2) ** 2;
+
+  return 2 * EARTH_RADIUS * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+// Each point in metres east (x) and north (y) of `origin`. Close enough to
+// flat for anything the size of a beer garden.
+const toLocalPoints = (
+  coordinates: PolygonCoordinate[],
+  origin: PolygonCoordinate
+) => {
+  const metresPerDegree = toRadians(EARTH_RADIUS);
+  const cosLat = Math.cos(toRadians(origin.lat));
+
+  return coordinates.map(({ lat, lng }) => ({
+    x: (lng - origin.lng) * metresPerDegree * cosLat,
+    y: (lat - origin.lat) * metresPerDegree,
+  }));
+};
+
+//
+
+// Polygons
+
+// Signed area of the spherical triangle between two points and the pole
+const getPolarTriangleArea = (
+  tan1: number,
+  lng1: number,
+  tan2: number,
+  lng2: number
+) => {
+  const deltaLng = lng1 - lng2;
+  const t = tan1 * tan2;
+
+  return 2 * Math.atan2(t * Math.sin(deltaLng), 1 + t * Math.cos(deltaLng));
+};
+
+/**
+ * Area on the sphere in square metres, whichever way the polygon winds
+ */
+export const getPolygonArea = (coordinates: PolygonCoordinate[]) => {
+  if (coordinates.length < 3) return 0;
+
+  let total = 0;
+  let prev = coordinates[coordinates.length - 1];
+
+  coordinates.forEach((point) => {
+    total += getPolarTriangleArea(
+      Math.tan((Math.PI / 2 - toRadians(point.lat)) / 2),
+      toRadians(point.lng),
+      Math.tan((Math.PI / 2 - toRadians(prev.lat)) / 2),
+      toRadians(prev.lng)
+    );
+    prev = point;
+  });
+
+  return Math.abs(total * EARTH_RADIUS * EARTH_RADIUS);
+};
+
+/**
+ * Length around the polygon in metres, back to the first point
+ */
+export const getPolygonPerimeter = (coordinates: PolygonCoordinate[]) => {
+  if (coordinates.length < 2) return 0;
+
+  return coordinates.reduce(
+    (total, point, index) =>
+      total + getDistance(point, coordinates[(index + 1) % coordinates.length]),
+    0
+  );
+};
+
+/**
+ * Area-weighted middle of the polygon, or null if it encloses nothing
+ */
+export const getPolygonCentroid = (
+  coordinates: PolygonCoordinate[]
+): PolygonCoordinate | null => {
+  if (coordinates.length < 3) return null;
+
+  const origin = coordinates[0];
+  const points = toLocalPoints(coordinates, origin);
+
+  let doubleArea = 0;
+  let x = 0;
+  let y = 0;
+
+  points.forEach((point, index) => {
+    const next = points[(index + 1) % points.length];
+    const cross = point.x * next.y - next.x * point.y;
+
+    doubleArea += cross;
+    x += (point.x + next.x) * cross;
+    y += (point.y + next.y) * cross;
+  });
+
+  if (!doubleArea) return null;
+
+  const metresPerDegree = toRadians(EARTH_RADIUS);
+  const centroidX = x / (3 * doubleArea);
+  const centroidY = y / (3 * doubleArea);
+
+  return {
+    lat: origin.lat + centroidY / metresPerDegree,
+    lng:
+      origin.lng +
+      centroidX / (metresPerDegree * Math.cos(toRadians(origin.lat))),
+  };
+};
+
+// Any two edges crossing, which makes the area meaningless
+export const isPolygonSelfIntersecting = (coordinates: PolygonCoordinate[]) =>
+  coordinates.length >= 4 &&
+  isRingSelfIntersecting(toLocalPoints(coordinates, coordinates[0]));
+
+export const measurePolygon = (
+  coordinates: PolygonCoordinate[]
+): PolygonMeasurement => ({
+  area: getPolygonArea(coordinates),
+  perimeter: getPolygonPerimeter(coordinates),
+  centroid: getPolygonCentroid(coordinates),
+  isSelfIntersecting: isPolygonSelfIntersecting(coordinates),
+});
+
+/**
+ * Recompute an area's floor_area from its polygon and compare it with the one
+ * stored. Nothing here needs the Maps SDK, so it can run anywhere.
+ */
+export const auditFloorArea = (
+  area: Pick<PubArea, "floor_area" | "coordinates">,
+  tolerance = FLOOR_AREA_TOLERANCE
+): FloorAreaAudit => {
+  const coordinates = area.coordinates || [];
+  const storedArea = area.floor_area || 0;
+  const computedArea = getPolygonArea(coordinates);
+  const isSelfIntersecting = isPolygonSelfIntersecting(coordinates);
+
+  const difference = computedArea
+    ? Math.abs(storedArea - computedArea) / computedArea
+    : storedArea
+      ? 1
+      : 0;
+
+  return {
+    storedArea,
+    computedArea,
+    difference,
+    isSelfIntersecting,
+    isValid: !isSelfIntersecting && difference <= tolerance,
+  };
+};
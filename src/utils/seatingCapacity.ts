@@ -0,0 +1,58 @@
+import { PubArea } from "../_shared/types";
+
+export interface SeatingCapacityConfig {
+  // Floor space each seat takes up, tables and gangways included, by area type
+  squareMetresPerSeat: Record<string, number>;
+
+  // For area types without their own density
+  defaultSquareMetresPerSeat: number;
+}
+
+// Pavements and frontages are packed in along a wall, gardens are roomier
+// with benches spread out across the lawn
+export const DEFAULT_SEATING_CONFIG: SeatingCapacityConfig = {
+  squareMetresPerSeat: {
+    pavement: 1.2,
+    "frontage-seating": 1.2,
+    terrace: 1.5,
+    "terrace-waterfront": 1.8,
+    "beer-garden": 2,
+    courtyard: 1.5,
+  },
+  defaultSquareMetresPerSeat: 1.8,
+};
+
+/**
+ * How many people an area seats: the manual override when one's been set,
+ * otherwise an estimate from its floor area and type
+ *
+ * @param area The area to estimate, floor_area in square metres
+ * @param config Seat densities to use
+ */
+export const estimateSeats = (
+  area: Pick<PubArea, "type" | "floor_area" | "seating_capacity">,
+  config: SeatingCapacityConfig = DEFAULT_SEATING_CONFIG
+) => {
+  if (area.seating_capacity != null) return area.seating_capacity;
+
+  const squareMetresPerSeat =
+    config.squareMetresPerSeat[area.type] ?? config.defaultSquareMetresPerSeat;
+
+  return Math.floor((area.floor_area || 0) / squareMetresPerSeat);
+};
+
+// Whether an area seats the whole group, any area will do without one
+export const hasRoomForGroup = (
+  area: Pick<PubArea, "estimated_seats">,
+  groupSize: number | null
+) => !groupSize || (area.estimated_seats || 0) >= groupSize;
+
+// Rows from pub_area with their estimated_seats filled in
+export const withEstimatedSeats = (
+  areas: Omit<PubArea, "estimated_seats">[],
+  config: SeatingCapacityConfig = DEFAULT_SEATING_CONFIG
+): PubArea[] =>
+  areas.map((area) => ({
+    ...area,
+    estimated_seats: estimateSeats(area, config),
+  }));
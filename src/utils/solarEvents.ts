@@ -0,0 +1,223 @@
+import { calculateSolarCoordinates } from "./sun";
+
+// Sun altitudes (degrees) that define each event
+export const SOLAR_ALTITUDES = {
+  // Upper limb on the horizon, allowing for standard refraction
+  SUNRISE_SUNSET: -0.833,
+  CIVIL_TWILIGHT: -6,
+  NAUTICAL_TWILIGHT: -12,
+  GOLDEN_HOUR_UPPER: 6,
+  GOLDEN_HOUR_LOWER: -4,
+};
+
+// A window of time between two events. A null bound means the sun never
+// crosses that altitude on the day, so the window is open at that end.
+export interface SolarWindow {
+  start: Date | null;
+  end: Date | null;
+}
+
+export interface SolarEvents {
+  solarNoon: Date;
+
+  // Sun crossing the horizon
+  sunrise: Date | null;
+  sunset: Date | null;
+
+  // Twilight
+  civilDawn: Date | null;
+  civilDusk: Date | null;
+  nauticalDawn: Date | null;
+  nauticalDusk: Date | null;
+
+  // Photography windows
+  morningGoldenHour: SolarWindow;
+  eveningGoldenHour: SolarWindow;
+  morningBlueHour: SolarWindow;
+  eveningBlueHour: SolarWindow;
+
+  // High latitude edge cases
+  isPolarDay: boolean;
+  isPolarNight: boolean;
+}
+
+type Crossing =
+  | { type: "crosses"; rising: Date; setting: Date }
+  | { type: "alwaysAbove" }
+  | { type: "alwaysBelow" };
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+const MS_PER_MINUTE = 60 * 1000;
+
+// Solar noon for the UTC day starting at `dayStartUtc`
+const getSolarNoon = (dayStartUtc: number, longitude: number) => {
+  // Start from a naive guess and refine once with the equation of time at noon
+  let solarNoon = dayStartUtc + (720 - 4 * longitude) * MS_PER_MINUTE;
+
+  for (let i = 0; i < 2; i++) {
+    const { equationOfTime } = calculateSolarCoordinates(new Date(solarNoon));
+    solarNoon =
+      dayStartUtc + (720 - 4 * longitude - equationOfTime) * MS_PER_MINUTE;
+  }
+
+  return new Date(solarNoon);
+};
+
+// Find when the sun passes through `altitude` either side of solar noon
+const getAltitudeCrossing = (
+  solarNoon: Date,
+  latitude: number,
+  altitude: number
+): Crossing => {
+  const hourAngleAt = (time: Date) => {
+    const { declination } = calculateSolarCoordinates(time);
+
+    const cosHourAngle =
+      (Math.sin(toRadians(altitude)) -
+        Math.sin(toRadians(latitude)) * Math.sin(toRadians(declination))) /
+      (Math.cos(toRadians(latitude)) * Math.cos(toRadians(declination)));
+
+    return cosHourAngle;
+  };
+
+  const cosAtNoon = hourAngleAt(solarNoon);
+  if (cosAtNoon > 1) return { type: "alwaysBelow" };
+  if (cosAtNoon < -1) return { type: "alwaysAbove" };
+
+  // Declination drifts over the day, so refine each side separately
+  const refine = (direction: -1 | 1) => {
+    let time = solarNoon;
+
+    for (let i = 0; i < 3; i++) {
+      const cosHourAngle = Math.min(1, Math.max(-1, hourAngleAt(time)));
+      const hourAngle = toDegrees(Math.acos(cosHourAngle));
+
+      // The sun moves 15 degrees of hour angle an hour, i.e. 4 minutes per degree
+      time = new Date(
+        solarNoon.getTime() + direction * hourAngle * 4 * MS_PER_MINUTE
+      );
+    }
+
+    return time;
+  };
+
+  return { type: "crosses", rising: refine(-1), setting: refine(1) };
+};
+
+const risingOrNull = (crossing: Crossing) =>
+  crossing.type === "crosses" ? crossing.rising : null;
+
+const settingOrNull = (crossing: Crossing) =>
+  crossing.type === "crosses" ? crossing.setting : null;
+
+// Build the morning/evening windows for the sun sitting between two altitudes
+const getWindows = (
+  solarNoon: Date,
+  lower: Crossing,
+  upper: Crossing
+): { morning: SolarWindow; evening: SolarWindow } | null => {
+  // Sun never reaches the lower altitude, or never drops below the upper
+  // one, so there is no window at all
+  if (lower.type === "alwaysBelow" || upper.type === "alwaysAbove") {
+    return null;
+  }
+
+  // Sun never gets above the upper altitude, so the windows meet at noon
+  const morningEnd =
+    upper.type === "alwaysBelow" ? solarNoon : risingOrNull(upper);
+  const eveningStart =
+    upper.type === "alwaysBelow" ? solarNoon : settingOrNull(upper);
+
+  return {
+    morning: { start: risingOrNull(lower), end: morningEnd },
+    evening: { start: eveningStart, end: settingOrNull(lower) },
+  };
+};
+
+const EMPTY_WINDOW: SolarWindow = { start: null, end: null };
+
+/**
+ * Calculates sunrise, sunset, solar noon, twilight and golden/blue hour
+ * windows for the local calendar day of `date` at the given location.
+ *
+ * Events the sun never reaches on that day (e.g. sunset during polar day)
+ * are returned as null, with `isPolarDay` / `isPolarNight` set accordingly.
+ */
+export function calculateSolarEvents(
+  date: Date,
+  latitude: number,
+  longitude: number
+): SolarEvents {
+  const dayStartUtc = Date.UTC(
+    date.getFullYear(),
+    date.getMonth(),
+    date.getDate()
+  );
+
+  const solarNoon = getSolarNoon(dayStartUtc, longitude);
+
+  const horizon = getAltitudeCrossing(
+    solarNoon,
+    latitude,
+    SOLAR_ALTITUDES.SUNRISE_SUNSET
+  );
+  const civil = getAltitudeCrossing(
+    solarNoon,
+    latitude,
+    SOLAR_ALTITUDES.CIVIL_TWILIGHT
+  );
+  const nautical = getAltitudeCrossing(
+    solarNoon,
+    latitude,
+    SOLAR_ALTITUDES.NAUTICAL_TWILIGHT
+  );
+  const goldenUpper = getAltitudeCrossing(
+    solarNoon,
+    latitude,
+    SOLAR_ALTITUDES.GOLDEN_HOUR_UPPER
+  );
+  const goldenLower = getAltitudeCrossing(
+    solarNoon,
+    latitude,
+    SOLAR_ALTITUDES.GOLDEN_HOUR_LOWER
+  );
+
+  const goldenHours = getWindows(solarNoon, goldenLower, goldenUpper);
+  const blueHours = getWindows(solarNoon, civil, goldenLower);
+
+  return {
+    solarNoon,
+
+    // Horizon
+    sunrise: risingOrNull(horizon),
+    sunset: settingOrNull(horizon),
+
+    // Twilight
+    civilDawn: risingOrNull(civil),
+    civilDusk: settingOrNull(civil),
+    nauticalDawn: risingOrNull(nautical),
+    nauticalDusk: settingOrNull(nautical),
+
+    // Golden and blue hours
+    morningGoldenHour: goldenHours?.morning || EMPTY_WINDOW,
+    eveningGoldenHour: goldenHours?.evening || EMPTY_WINDOW,
+    morningBlueHour: blueHours?.morning || EMPTY_WINDOW,
+    eveningBlueHour: blueHours?.evening || EMPTY_WINDOW,
+
+    // Polar edge cases
+    isPolarDay: horizon.type === "alwaysAbove",
+    isPolarNight: horizon.type === "alwaysBelow",
+  };
+}
+
+// Whether the sun is above the horizon at `time`, given that day's events
+export function isSunUp(time: Date, solarEvents: SolarEvents): boolean {
+  const { sunrise, sunset, isPolarDay, isPolarNight } = solarEvents;
+
+  if (isPolarDay) return true;
+  if (isPolarNight || !sunrise || !sunset) return false;
+
+  return time >= sunrise && time < sunset;
+}
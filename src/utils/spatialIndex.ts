@@ -0,0 +1,165 @@
+import { PolygonCoordinate } from "../_shared/hooks/pubAreas/usePubAreas";
+
+// Grid cell size in degrees, about 1km north-south in London. Small enough
+// that a zoomed in viewport only touches a handful of cells.
+export const DEFAULT_GRID_CELL_SIZE = 0.01;
+
+export interface SpatialIndex<T> {
+  // Items strictly inside the bounds
+  query: (bounds: google.maps.LatLngBoundsLiteral) => T[];
+  size: number;
+}
+
+export interface PointCluster<T> {
+  key: string;
+  items: T[];
+
+  // Mean position of the items, and the box around them
+  center: PolygonCoordinate;
+  bounds: google.maps.LatLngBoundsLiteral;
+}
+
+//
+
+// Index
+
+const getCellKey = (column: number, row: number) => `${column}:${row}`;
+
+/**
+ * Groups items by a key in one pass, e.g. areas by pub_id, so lookups don't
+ * rescan the whole list
+ */
+export const groupBy = <T, K>(items: T[], getKey: (item: T) => K) => {
+  const groups = new Map<K, T[]>();
+
+  items.forEach((item) => {
+    const key = getKey(item);
+    const group = groups.get(key);
+
+    if (group) group.push(item);
+    else groups.set(key, [item]);
+  });
+
+  return groups;
+};
+
+/**
+ * Buckets items into a fixed grid of lat/lng cells, built once so viewport
+ * queries only look at the cells the viewport overlaps instead of every item
+ *
+ * @param items Anything with a position, e.g. pubs
+ * @param getPoint Where an item is
+ * @param cellSize Cell size in degrees
+ */
+export const createSpatialIndex = <T>(
+  items: T[],
+  getPoint: (item: T) => PolygonCoordinate,
+  cellSize = DEFAULT_GRID_CELL_SIZE
+): SpatialIndex<T> => {
+  const cells = groupBy(items, (item) => {
+    const { lat, lng } = getPoint(item);
+    return getCellKey(Math.floor(lng / cellSize), Math.floor(lat / cellSize));
+  });
+
+  const query = ({
+    north,
+    south,
+    east,
+    west,
+  }: google.maps.LatLngBoundsLiteral) => {
+    if (north <= south || east <= west) return [];
+
+    const minColumn = Math.floor(west / cellSize);
+    const maxColumn = Math.floor(east / cellSize);
+    const minRow = Math.floor(south / cellSize);
+    const maxRow = Math.floor(north / cellSize);
+
+    // Zoomed right out the viewport covers more cells than there are
+    // filled ones, so walk those instead
+    const isWiderThanIndex =
+      (maxColumn - minColumn + 1) * (maxRow - minRow + 1) > cells.size;
+
+    const candidates: T[] = [];
+
+    if (isWiderThanIndex) {
+      cells.forEach((cell) => candidates.push(...cell));
+    } else {
+      for (let column = minColumn; column <= maxColumn; column++) {
+        for (let row = minRow; row <= maxRow; row++) {
+          candidates.push(...(cells.get(getCellKey(column, row)) || []));
+        }
+      }
+    }
+
+    return candidates.filter((item) => {
+      const { lat, lng } = getPoint(item);
+      return lat > south && lat < north && lng > west && lng < east;
+    });
+  };
+
+  return { query, size: items.length };
+};
+
+//
+
+// Clusters
+
+// Web Mercator world coordinates, 0-256 at zoom 0 like the Maps SDK's
+const toWorldPoint = ({ lat, lng }: PolygonCoordinate) => {
+  const sinLat = Math.min(
+    Math.max(Math.sin((lat * Math.PI) / 180), -0.9999),
+    0.9999
+  );
+
+  return {
+    x: 256 * (0.5 + lng / 360),
+    y: 256 * (0.5 - Math.log((1 + sinLat) / (1 - sinLat)) / (4 * Math.PI)),
+  };
+};
+
+/**
+ * Groups points that would overlap on screen at a zoom level, by snapping
+ * them to a grid of `radius` pixel squares
+ *
+ * @param items Points to cluster
+ * @param getPoint Where an item is
+ * @param zoom Map zoom level
+ * @param radius Cluster size in screen pixels
+ */
+export const clusterPoints = <T>(
+  items: T[],
+  getPoint: (item: T) => PolygonCoordinate,
+  zoom: number,
+  radius = 60
+): PointCluster<T>[] => {
+  const scale = 2 ** zoom;
+
+  const groups = groupBy(items, (item) => {
+    const { x, y } = toWorldPoint(getPoint(item));
+    return getCellKey(
+      Math.floor((x * scale) / radius),
+      Math.floor((y * scale) / radius)
+    );
+  });
+
+  return [...groups.entries()].map(([key, clusterItems]) => {
+    const points = clusterItems.map(getPoint);
+    const lats = points.map(({ lat }) => lat);
+    const lngs = points.map(({ lng }) => lng);
+
+    return {
+      key,
+      items: clusterItems,
+      center: {
+        lat: lats.reduce((sum, lat) => sum + lat, 0) / points.length,
+        lng: lngs.reduce((sum, lng) => sum + lng, 0) / points.length,
+      },
+      bounds: {
+        north: Math.max(...lats),
+        south: Math.min(...lats),
+        east: Math.max(...lngs),
+        west: Math.min(...lngs),
+      },
+    };
+  });
+};
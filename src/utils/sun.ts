@@ -1,112 +1,336 @@
 import * as THREE from "three";
 
-// This function calculates the sun position based on date, time, and location
-export function calculateSunPosition(
-  date: Date,
-  latitude: number,
-  longitude: number
-) {
-  // Convert date to Julian date
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+// Declination and equation of time (NOAA spreadsheet formulae) for a given instant
+export function calculateSolarCoordinates(date: Date): {
+  declination: number;
+  equationOfTime: number;
+} {
   const julian = date.getTime() / 86400000.0 + 2440587.5;
   const julianCentury = (julian - 2451545.0) / 36525.0;
 
-  // Calculate geometric mean longitude of the sun
-  let geomMeanLongSun =
+  const geomMeanLongSun =
     (280.46646 + julianCentury * (36000.76983 + julianCentury * 0.0003032)) %
     360;
-
-  // Calculate geometric mean anomaly of the sun
   const geomMeanAnomSun =
     357.52911 + julianCentury * (35999.05029 - 0.0001537 * julianCentury);
+  const eccentEarthOrbit =
+    0.016708634 - julianCentury * (0.000042037 + 0.0000001267 * julianCentury);
 
-  // Calculate sun's equation of center
   const sunEqOfCenter =
-    Math.sin((geomMeanAnomSun * Math.PI) / 180) *
+    Math.sin(toRadians(geomMeanAnomSun)) *
       (1.914602 - julianCentury * (0.004817 + 0.000014 * julianCentury)) +
-    Math.sin((2 * geomMeanAnomSun * Math.PI) / 180) *
+    Math.sin(toRadians(2 * geomMeanAnomSun)) *
       (0.019993 - 0.000101 * julianCentury) +
-    Math.sin((3 * geomMeanAnomSun * Math.PI) / 180) * 0.000289;
+    Math.sin(toRadians(3 * geomMeanAnomSun)) * 0.000289;
 
-  // Calculate sun's true longitude
-  const sunTrueLong = geomMeanLongSun + sunEqOfCenter;
-
-  // Calculate sun's apparent longitude
+  const omega = 125.04 - 1934.136 * julianCentury;
   const sunAppLong =
-    sunTrueLong -
+    geomMeanLongSun +
+    sunEqOfCenter -
     0.00569 -
-    0.00478 * Math.sin(((125.04 - 1934.136 * julianCentury) * Math.PI) / 180);
-
-  // Calculate obliquity of the ecliptic
-  const obliqCorr =
-    23.439291 -
-    julianCentury *
-      (0.0130042 - julianCentury * (0.00000016 + 0.000000504 * julianCentury));
-
-  // Calculate sun's declination
-  const declination =
-    (Math.asin(
-      Math.sin((obliqCorr * Math.PI) / 180) *
-        Math.sin((sunAppLong * Math.PI) / 180)
-    ) *
-      180) /
-    Math.PI;
-
-  // Calculate the local time (hours from midnight)
-  const localTime =
-    (date.getUTCHours() +
-      date.getUTCMinutes() / 60 +
-      date.getUTCSeconds() / 3600 +
-      longitude / 15) %
-    24;
-
-  // Calculate solar time
-  const eqOfTime =
+    0.00478 * Math.sin(toRadians(omega));
+
+  const meanObliqEcliptic =
+    23 +
+    (26 +
+      (21.448 -
+        julianCentury *
+          (46.815 + julianCentury * (0.00059 - julianCentury * 0.001813))) /
+        60) /
+      60;
+  const obliqCorr = meanObliqEcliptic + 0.00256 * Math.cos(toRadians(omega));
+
+  const declination = toDegrees(
+    Math.asin(Math.sin(toRadians(obliqCorr)) * Math.sin(toRadians(sunAppLong)))
+  );
+
+  const y = Math.tan(toRadians(obliqCorr / 2)) ** 2;
+  const equationOfTime =
     4 *
-    (geomMeanLongSun -
-      0.0057183 -
-      0.0008 * Math.sin((geomMeanLongSun * Math.PI) / 180) -
-      Math.sin((2 * geomMeanLongSun * Math.PI) / 180) * 0.0003 -
-      (Math.atan2(
-        Math.tan((obliqCorr * Math.PI) / 180),
-        Math.cos((sunAppLong * Math.PI) / 180)
-      ) *
-        180) /
-        Math.PI);
-
-  const solarTime = (localTime + eqOfTime / 60) % 24;
-
-  // Calculate solar hour angle
-  const hourAngle = (solarTime - 12) * 15;
+    toDegrees(
+      y * Math.sin(2 * toRadians(geomMeanLongSun)) -
+        2 * eccentEarthOrbit * Math.sin(toRadians(geomMeanAnomSun)) +
+        4 *
+          eccentEarthOrbit *
+          y *
+          Math.sin(toRadians(geomMeanAnomSun)) *
+          Math.cos(2 * toRadians(geomMeanLongSun)) -
+        0.5 * y * y * Math.sin(4 * toRadians(geomMeanLongSun)) -
+        1.25 *
+          eccentEarthOrbit *
+          eccentEarthOrbit *
+          Math.sin(2 * toRadians(geomMeanAnomSun))
+    );
+
+  return { declination, equationOfTime };
+}
+
+export interface SunPositionOptions {
+  // "standard" is the quick NOAA approximation, "high" adds the corrections
+  // that matter near the horizon (nutation, parallax and refraction)
+  accuracy?: "standard" | "high";
+
+  // Atmosphere at the observer, used for the refraction correction
+  pressure?: number; // millibars
+  temperature?: number; // degrees C
+
+  // Difference between terrestrial and universal time, in seconds
+  deltaT?: number;
+
+  // IANA time zone (e.g. "Europe/London") that the wall clock time of `date`
+  // is in. Without it, `date` is treated as an absolute instant.
+  timeZone?: string;
+}
+
+export interface SunPosition {
+  x: number;
+  y: number;
+  z: number;
+  elevation: number;
+  azimuth: number;
+}
+
+const DEFAULT_PRESSURE = 1010;
+const DEFAULT_TEMPERATURE = 10;
+const DEFAULT_DELTA_T = 69;
+
+// Offset of `timeZone` from UTC at a given instant, in milliseconds
+const getTimeZoneOffset = (instant: number, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat("en-GB", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(instant));
+
+  const getPart = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value);
+
+  const wallClockAsUtc = Date.UTC(
+    getPart("year"),
+    getPart("month") - 1,
+    getPart("day"),
+    getPart("hour"),
+    getPart("minute"),
+    getPart("second")
+  );
+
+  return wallClockAsUtc - Math.floor(instant / 1000) * 1000;
+};
+
+/**
+ * Reads the wall clock time of `date` as a time in `timeZone`, and returns
+ * the matching instant. e.g. 19:00 with "Europe/London" in June is 18:00 UTC,
+ * whatever time zone the browser is in.
+ */
+export function getDateInTimeZone(date: Date, timeZone: string): Date {
+  const wallClockAsUtc = Date.UTC(
+    date.getFullYear(),
+    date.getMonth(),
+    date.getDate(),
+    date.getHours(),
+    date.getMinutes(),
+    date.getSeconds(),
+    date.getMilliseconds()
+  );
+
+  // Check the offset a second time in case the first guess crossed a DST change
+  let instant = wallClockAsUtc - getTimeZoneOffset(wallClockAsUtc, timeZone);
+  instant = wallClockAsUtc - getTimeZoneOffset(instant, timeZone);
+
+  return new Date(instant);
+}
+
+// Atmospheric refraction (degrees) for a true elevation, as used by SPA
+const calculateRefraction = (
+  elevation: number,
+  pressure: number,
+  temperature: number
+) => {
+  // Below this the sun is fully set and refraction no longer applies
+  if (elevation < -(0.26667 + 0.5667)) return 0;
+
+  return (
+    (pressure / 1010) *
+    (283 / (273 + temperature)) *
+    (1.02 / (60 * Math.tan(toRadians(elevation + 10.3 / (elevation + 5.11)))))
+  );
+};
+
+// Hour angle and declination from the NOAA approximation
+const calculateStandardHourAngle = (date: Date, longitude: number) => {
+  const { declination, equationOfTime } = calculateSolarCoordinates(date);
+
+  // True solar time in minutes, from UTC plus the longitude and EoT offsets
+  const utcMinutes =
+    date.getUTCHours() * 60 +
+    date.getUTCMinutes() +
+    date.getUTCSeconds() / 60 +
+    date.getUTCMilliseconds() / 60000;
+  const trueSolarTime = (utcMinutes + 4 * longitude + equationOfTime) % 1440;
+
+  return { hourAngle: trueSolarTime / 4 - 180, declination };
+};
+
+// Hour angle and declination from apparent sidereal time, SPA-style, with
+// the main nutation terms and the Earth-Sun distance for parallax
+const calculateHighAccuracyHourAngle = (
+  date: Date,
+  longitude: number,
+  deltaT: number
+) => {
+  const julianDay = date.getTime() / 86400000.0 + 2440587.5;
+  const julianEphemerisDay = julianDay + deltaT / 86400;
+  const julianCentury = (julianEphemerisDay - 2451545.0) / 36525.0;
+
+  const meanLongSun =
+    280.46646 + julianCentury * (36000.76983 + julianCentury * 0.0003032);
+  const meanLongMoon = 218.3165 + 481267.8813 * julianCentury;
+  const meanAnomSun =
+    357.52911 + julianCentury * (35999.05029 - 0.0001537 * julianCentury);
+  const eccentricity =
+    0.016708634 - julianCentury * (0.000042037 + 0.0000001267 * julianCentury);
+  const omega =
+    125.04452 - 1934.136261 * julianCentury + 0.0020708 * julianCentury ** 2;
+
+  const equationOfCenter =
+    Math.sin(toRadians(meanAnomSun)) *
+      (1.914602 - julianCentury * (0.004817 + 0.000014 * julianCentury)) +
+    Math.sin(toRadians(2 * meanAnomSun)) *
+      (0.019993 - 0.000101 * julianCentury) +
+    Math.sin(toRadians(3 * meanAnomSun)) * 0.000289;
+
+  const trueLongitude = meanLongSun + equationOfCenter;
+  const trueAnomaly = meanAnomSun + equationOfCenter;
+  const radiusVector =
+    (1.000001018 * (1 - eccentricity ** 2)) /
+    (1 + eccentricity * Math.cos(toRadians(trueAnomaly)));
+
+  // Nutation in longitude and obliquity (degrees)
+  const nutationLongitude =
+    (-17.2 * Math.sin(toRadians(omega)) -
+      1.32 * Math.sin(toRadians(2 * meanLongSun)) -
+      0.23 * Math.sin(toRadians(2 * meanLongMoon)) +
+      0.21 * Math.sin(toRadians(2 * omega))) /
+    3600;
+  const nutationObliquity =
+    (9.2 * Math.cos(toRadians(omega)) +
+      0.57 * Math.cos(toRadians(2 * meanLongSun)) +
+      0.1 * Math.cos(toRadians(2 * meanLongMoon)) -
+      0.09 * Math.cos(toRadians(2 * omega))) /
+    3600;
+
+  const meanObliquity =
+    23 +
+    (26 +
+      (21.448 -
+        julianCentury *
+          (46.815 + julianCentury * (0.00059 - julianCentury * 0.001813))) /
+        60) /
+      60;
+  const obliquity = meanObliquity + nutationObliquity;
+
+  // Apparent longitude, corrected for nutation and aberration
+  const aberration = -20.4898 / (3600 * radiusVector);
+  const apparentLongitude = trueLongitude + nutationLongitude + aberration;
+
+  const rightAscension = toDegrees(
+    Math.atan2(
+      Math.cos(toRadians(obliquity)) * Math.sin(toRadians(apparentLongitude)),
+      Math.cos(toRadians(apparentLongitude))
+    )
+  );
+  const declination = toDegrees(
+    Math.asin(
+      Math.sin(toRadians(obliquity)) * Math.sin(toRadians(apparentLongitude))
+    )
+  );
+
+  // Apparent sidereal time at Greenwich uses universal (not ephemeris) time
+  const universalCentury = (julianDay - 2451545.0) / 36525.0;
+  const meanSiderealTime =
+    280.46061837 +
+    360.98564736629 * (julianDay - 2451545.0) +
+    0.000387933 * universalCentury ** 2 -
+    universalCentury ** 3 / 38710000;
+  const apparentSiderealTime =
+    meanSiderealTime + nutationLongitude * Math.cos(toRadians(obliquity));
+
+  const hourAngle =
+    ((((apparentSiderealTime + longitude - rightAscension) % 360) + 540) %
+      360) -
+    180;
+
+  return { hourAngle, declination, radiusVector };
+};
+
+/**
+ * Calculates the sun position based on date, time, and location.
+ *
+ * Azimuth is measured clockwise from north, and x/y/z point towards the sun
+ * with x = east, y = up and z = north.
+ */
+export function calculateSunPosition(
+  date: Date,
+  latitude: number,
+  longitude: number,
+  options: SunPositionOptions = {}
+): SunPosition {
+  const {
+    accuracy = "standard",
+    pressure = DEFAULT_PRESSURE,
+    temperature = DEFAULT_TEMPERATURE,
+    deltaT = DEFAULT_DELTA_T,
+    timeZone,
+  } = options;
+
+  const instant = timeZone ? getDateInTimeZone(date, timeZone) : date;
+  const isHighAccuracy = accuracy === "high";
+
+  const { hourAngle, declination, radiusVector } = isHighAccuracy
+    ? calculateHighAccuracyHourAngle(instant, longitude, deltaT)
+    : { ...calculateStandardHourAngle(instant, longitude), radiusVector: 1 };
 
   // Calculate solar elevation
-  const elevation =
-    (Math.asin(
-      Math.sin((latitude * Math.PI) / 180) *
-        Math.sin((declination * Math.PI) / 180) +
-        Math.cos((latitude * Math.PI) / 180) *
-          Math.cos((declination * Math.PI) / 180) *
-          Math.cos((hourAngle * Math.PI) / 180)
-    ) *
-      180) /
-    Math.PI;
-
-  // Calculate solar azimuth
-  let azimuth =
-    (Math.atan2(
-      -Math.sin((hourAngle * Math.PI) / 180),
-      Math.cos((latitude * Math.PI) / 180) *
-        Math.tan((declination * Math.PI) / 180) -
-        Math.sin((latitude * Math.PI) / 180) *
-          Math.cos((hourAngle * Math.PI) / 180)
-    ) *
-      180) /
-    Math.PI;
-
-  azimuth = (azimuth + 180) % 360;
+  let elevation = toDegrees(
+    Math.asin(
+      Math.sin(toRadians(latitude)) * Math.sin(toRadians(declination)) +
+        Math.cos(toRadians(latitude)) *
+          Math.cos(toRadians(declination)) *
+          Math.cos(toRadians(hourAngle))
+    )
+  );
+
+  // Calculate solar azimuth, clockwise from north
+  const azimuth =
+    (toDegrees(
+      Math.atan2(
+        Math.sin(toRadians(hourAngle)),
+        Math.cos(toRadians(hourAngle)) * Math.sin(toRadians(latitude)) -
+          Math.tan(toRadians(declination)) * Math.cos(toRadians(latitude))
+      )
+    ) +
+      540) %
+    360;
+
+  if (isHighAccuracy) {
+    // Seen from the surface rather than the Earth's centre
+    const parallax = 8.794 / (3600 * radiusVector);
+    elevation -= parallax * Math.cos(toRadians(elevation));
+
+    elevation += calculateRefraction(elevation, pressure, temperature);
+  }
 
   // Convert elevation and azimuth to Cartesian coordinates
-  const phi = (azimuth * Math.PI) / 180;
-  const theta = ((90 - elevation) * Math.PI) / 180;
+  const phi = toRadians(azimuth);
+  const theta = toRadians(90 - elevation);
 
   const x = Math.sin(theta) * Math.sin(phi);
   const y = Math.cos(theta);
@@ -0,0 +1,287 @@
+import { SunEval } from "../_shared/types";
+import { supabaseClient } from "../_shared/hooks/useSupabase";
+import { getWeekKeyForDate, getWeeksBetweenWeekKeys } from "./weekKeys";
+import { getTimeSlotMinutes, LAST_TIME_SLOT } from "./timeSlots";
+
+// How far either side of the requested week to look for simulated weeks.
+// Beyond this the sun's path has moved too far for an estimate to be useful.
+export const MAX_FORECAST_WEEK_GAP = 8;
+
+export interface SunEvalsForecast {
+  sunEvals: SunEval[];
+
+  // Whether any eval was estimated from nearby weeks rather than simulated
+  isInterpolated: boolean;
+}
+
+// Supabase caps how many rows come back per request
+const PAGE_SIZE = 1000;
+
+export interface SunEvalsForecastFilters {
+  pubId?: number;
+  areaId?: number;
+  areaIds?: number[];
+
+  // Minutes after midnight, either exactly or from this slot onwards
+  time?: number;
+  fromTime?: number;
+
+  // Up to and including this slot
+  toTime?: number;
+}
+
+// The range of week keys worth fetching to forecast a given day
+export const getForecastJulianWeekRange = (date: Date) => {
+  const earliestDate = new Date(date);
+  earliestDate.setDate(earliestDate.getDate() - MAX_FORECAST_WEEK_GAP * 7);
+
+  const latestDate = new Date(date);
+  latestDate.setDate(latestDate.getDate() + MAX_FORECAST_WEEK_GAP * 7);
+
+  return {
+    earliestJulianWeek: getWeekKeyForDate(earliestDate),
+    latestJulianWeek: getWeekKeyForDate(latestDate),
+  };
+};
+
+/**
+ * Picks one sun eval per area and timeslot for the given week key.
+ *
+ * Uses the simulated eval for that week where there is one. Otherwise
+ * linearly interpolates pc_in_sun between the nearest simulated weeks either
+ * side, or falls back to whichever side exists.
+ */
+export const forecastSunEvals = (
+  sunEvals: SunEval[],
+  julianWeek: number
+): SunEvalsForecast => {
+  const sunEvalsBySlot = new Map<string, SunEval[]>();
+
+  sunEvals.forEach((sunEval) => {
+    const slotKey = `${sunEval.area_id}-${sunEval.time}`;
+    sunEvalsBySlot.set(slotKey, [
+      ...(sunEvalsBySlot.get(slotKey) || []),
+      sunEval,
+    ]);
+  });
+
+  let isInterpolated = false;
+
+  const forecastEvals = Array.from(sunEvalsBySlot.values()).map((slotEvals) => {
+    let before: { sunEval: SunEval; gap: number } | null = null;
+    let after: { sunEval: SunEval; gap: number } | null = null;
+
+    for (const sunEval of slotEvals) {
+      const gap = getWeeksBetweenWeekKeys(julianWeek, sunEval.julian_week);
+
+      // Simulated for this week
+      if (gap === 0) return sunEval;
+
+      if (gap < 0 && (!before || gap > before.gap)) {
+        before = { sunEval, gap };
+      } else if (gap > 0 && (!after || gap < after.gap)) {
+        after = { sunEval, gap };
+      }
+    }
+
+    isInterpolated = true;
+
+    if (before && after) {
+      const progress = -before.gap / (after.gap - before.gap);
+      const pcInSun =
+        before.sunEval.pc_in_sun +
+        (after.sunEval.pc_in_sun - before.sunEval.pc_in_sun) * progress;
+
+      return {
+        ...before.sunEval,
+        julian_week: julianWeek,
+        pc_in_sun: Math.round(pcInSun * 100) / 100,
+      };
+    }
+
+    const nearest = (before || after)!;
+
+    return { ...nearest.sunEval, julian_week: julianWeek };
+  });
+
+  return { sunEvals: forecastEvals, isInterpolated };
+};
+
+// Keeps the area list in each request short enough for a URL
+const AREA_ID_BATCH_SIZE = 200;
+
+type WeekRange = { julianWeek: number } | { earliest: number; latest: number };
+
+// Rows matching the filters in the given weeks, a page at a time
+const fetchSunEvalRowsPages = async (
+  { pubId, areaId, areaIds, time, fromTime, toTime }: SunEvalsForecastFilters,
+  weeks: WeekRange
+) => {
+  const sunEvals: SunEval[] = [];
+
+  for (let page = 0; ; page++) {
+    let query = supabaseClient.from("sun_eval_reg").select("*");
+
+    query =
+      "julianWeek" in weeks
+        ? query.eq("julian_week", weeks.julianWeek)
+        : query
+            .gte("julian_week", weeks.earliest)
+            .lte("julian_week", weeks.latest);
+
+    if (pubId !== undefined) query = query.eq("pub_id", pubId);
+    if (areaId !== undefined) query = query.eq("area_id", areaId);
+    if (areaIds !== undefined) query = query.in("area_id", areaIds);
+    if (time !== undefined) query = query.eq("time", time);
+    if (fromTime !== undefined) query = query.gte("time", fromTime);
+    if (toTime !== undefined) query = query.lte("time", toTime);
+
+    const { data, error } = await query
+      .order("id")
+      .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1);
+
+    if (error) throw error;
+
+    sunEvals.push(...data);
+    if (data.length < PAGE_SIZE) break;
+  }
+
+  return sunEvals;
+};
+
+// As fetchSunEvalRowsPages, splitting long area lists into batches
+const fetchSunEvalRows = async (
+  filters: SunEvalsForecastFilters,
+  weeks: WeekRange
+) => {
+  const { areaIds } = filters;
+
+  if (!areaIds || areaIds.length <= AREA_ID_BATCH_SIZE) {
+    return fetchSunEvalRowsPages(filters, weeks);
+  }
+
+  const sunEvals: SunEval[] = [];
+
+  for (let i = 0; i < areaIds.length; i += AREA_ID_BATCH_SIZE) {
+    sunEvals.push(
+      ...(await fetchSunEvalRowsPages(
+        { ...filters, areaIds: areaIds.slice(i, i + AREA_ID_BATCH_SIZE) },
+        weeks
+      ))
+    );
+  }
+
+  return sunEvals;
+};
+
+// The areas a request covers. Only areas with a vision mask get simulated,
+// so the rest are never missing a week.
+const fetchAreaIdsForFilters = async ({
+  pubId,
+  areaId,
+  areaIds,
+}: SunEvalsForecastFilters) => {
+  if (areaId !== undefined) return [areaId];
+  if (areaIds !== undefined) return areaIds;
+
+  const ids: number[] = [];
+
+  for (let page = 0; ; page++) {
+    let query = supabaseClient
+      .from("pub_area")
+      .select("id")
+      .not("vision_mask_points", "is", null);
+
+    if (pubId !== undefined) query = query.eq("pub_id", pubId);
+
+    const { data, error } = await query
+      .order("id")
+      .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1);
+
+    if (error) throw error;
+
+    ids.push(...data.map(({ id }) => id));
+    if (data.length < PAGE_SIZE) break;
+  }
+
+  return ids;
+};
+
+// Minutes after midnight of every timeslot the filters ask for
+const getSlotMinutesForFilters = ({
+  time,
+  fromTime,
+  toTime,
+}: SunEvalsForecastFilters) =>
+  Array.from({ length: LAST_TIME_SLOT + 1 }, (_, timeSlot) =>
+    getTimeSlotMinutes(timeSlot)
+  ).filter(
+    (minutes) =>
+      (time === undefined || minutes === time) &&
+      (fromTime === undefined || minutes >= fromTime) &&
+      (toTime === undefined || minutes <= toTime)
+  );
+
+// Areas without an eval for every slot asked for in the week
+const findAreasMissingSlots = (
+  weekSunEvals: SunEval[],
+  areaIds: number[],
+  slotMinutes: number[]
+) => {
+  const slotsByArea = new Map<number, Set<number>>();
+
+  weekSunEvals.forEach(({ area_id, time }) => {
+    slotsByArea.set(area_id, (slotsByArea.get(area_id) || new Set()).add(time));
+  });
+
+  return areaIds.filter((areaId) => {
+    const slots = slotsByArea.get(areaId);
+    return !slots || slotMinutes.some((minutes) => !slots.has(minutes));
+  });
+};
+
+/**
+ * Sun evals for the forecast day. Fetches the day's own week first, then
+ * the weeks around it only for the areas that week is missing slots for, so
+ * they can be estimated from the nearest weeks either side.
+ */
+export const fetchSunEvalsForecast = async (
+  forecastDay: Date,
+  filters: SunEvalsForecastFilters
+): Promise<SunEvalsForecast> => {
+  const julianWeek = getWeekKeyForDate(forecastDay);
+  const weekSunEvals = await fetchSunEvalRows(filters, { julianWeek });
+
+  const { earliestJulianWeek, latestJulianWeek } =
+    getForecastJulianWeekRange(forecastDay);
+  const nearbyWeeks = {
+    earliest: earliestJulianWeek,
+    latest: latestJulianWeek,
+  };
+
+  // Nothing simulated for the week, so every area needs its neighbours
+  if (!weekSunEvals.length) {
+    return forecastSunEvals(
+      await fetchSunEvalRows(filters, nearbyWeeks),
+      julianWeek
+    );
+  }
+
+  const missingAreaIds = findAreasMissingSlots(
+    weekSunEvals,
+    await fetchAreaIdsForFilters(filters),
+    getSlotMinutesForFilters(filters)
+  );
+
+  const { pubId, time, fromTime, toTime } = filters;
+
+  const nearbySunEvals = missingAreaIds.length
+    ? await fetchSunEvalRows(
+        { pubId, areaIds: missingAreaIds, time, fromTime, toTime },
+        nearbyWeeks
+      )
+    : [];
+
+  // The week's own evals win wherever both have a slot
+  return forecastSunEvals([...weekSunEvals, ...nearbySunEvals], julianWeek);
+};
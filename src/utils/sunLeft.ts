@@ -0,0 +1,109 @@
+import { SunEval } from "../_shared/types";
+import { SUN_THRESHOLDS } from "./sunQuality";
+import { TIME_SLOT_MINUTES } from "./timeSlots";
+
+// pc_in_sun an area needs before it counts as sunny
+export const DEFAULT_SUN_LEFT_THRESHOLD = SUN_THRESHOLDS.SOME;
+
+// A run of back-to-back sunny slots, in minutes after midnight. The end is
+// when the last sunny slot finishes.
+export interface SunnyWindow {
+  start: number;
+  end: number;
+}
+
+export interface SunLeft {
+  // Continuous sun from now, 0 if the area isn't sunny right now
+  minutesOfSunLeft: number;
+
+  // The window we're in, or the next one to come if it isn't sunny now
+  nextSunnyWindow: SunnyWindow | null;
+
+  // When the last sunny window of the day finishes
+  endOfSun: number | null;
+}
+
+interface SunLeftOptions {
+  threshold?: number;
+}
+
+// Group sunny slots into windows, splitting wherever a slot isn't sunny or
+// is missing (evals aren't kept for slots after sunset)
+const getSunnyWindows = (sunEvals: SunEval[], threshold: number) => {
+  const sortedEvals = [...sunEvals].sort((a, b) => a.time - b.time);
+  const windows: SunnyWindow[] = [];
+
+  sortedEvals.forEach(({ time, pc_in_sun }) => {
+    if (pc_in_sun < threshold) return;
+
+    const lastWindow = windows[windows.length - 1];
+
+    if (lastWindow && lastWindow.end === time) {
+      lastWindow.end = time + TIME_SLOT_MINUTES;
+    } else {
+      windows.push({ start: time, end: time + TIME_SLOT_MINUTES });
+    }
+  });
+
+  return windows;
+};
+
+/**
+ * Walks one area's sun evals forward from the current time.
+ *
+ * @param sunEvals Evals for a single area on the day
+ * @param currentTime Minutes after midnight to count from
+ */
+export const calculateSunLeft = (
+  sunEvals: SunEval[],
+  currentTime: number,
+  { threshold = DEFAULT_SUN_LEFT_THRESHOLD }: SunLeftOptions = {}
+): SunLeft => {
+  const upcomingWindows = getSunnyWindows(sunEvals, threshold).filter(
+    ({ end }) => end > currentTime
+  );
+
+  const nextSunnyWindow = upcomingWindows[0] || null;
+  const isSunnyNow = !!nextSunnyWindow && nextSunnyWindow.start <= currentTime;
+
+  return {
+    minutesOfSunLeft: isSunnyNow ? nextSunnyWindow.end - currentTime : 0,
+    nextSunnyWindow,
+    endOfSun: upcomingWindows[upcomingWindows.length - 1]?.end ?? null,
+  };
+};
+
+// Sun left for every area in a set of evals, keyed by area id
+export const calculateSunLeftByArea = (
+  sunEvals: SunEval[],
+  currentTime: number,
+  options: SunLeftOptions = {}
+) => {
+  const sunEvalsByArea = new Map<number, SunEval[]>();
+
+  sunEvals.forEach((sunEval) => {
+    sunEvalsByArea.set(sunEval.area_id, [
+      ...(sunEvalsByArea.get(sunEval.area_id) || []),
+      sunEval,
+    ]);
+  });
+
+  return new Map(
+    Array.from(sunEvalsByArea, ([areaId, areaEvals]) => [
+      areaId,
+      calculateSunLeft(areaEvals, currentTime, options),
+    ])
+  );
+};
+
+// The area with the most sun left, preferring the one that's sunny latest
+export const getBestSunLeft = (sunLefts: SunLeft[]): SunLeft | null =>
+  sunLefts.reduce<SunLeft | null>((best, sunLeft) => {
+    if (!best) return sunLeft;
+
+    if (sunLeft.minutesOfSunLeft !== best.minutesOfSunLeft) {
+      return sunLeft.minutesOfSunLeft > best.minutesOfSunLeft ? sunLeft : best;
+    }
+
+    return (sunLeft.endOfSun || 0) > (best.endOfSun || 0) ? sunLeft : best;
+  }, null);
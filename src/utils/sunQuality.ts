@@ -0,0 +1,76 @@
+import { SunQuality } from "../_shared/providers/FiltersProvider";
+
+// Lowest sun score (see sunScore.ts) for each quality, anything under SOME
+// is NO sun
+export interface SunThresholds {
+  GOOD: number;
+  SOME: number;
+}
+
+export type Season = "spring" | "summer" | "autumn" | "winter";
+
+export const SEASONS: Season[] = ["spring", "summer", "autumn", "winter"];
+
+// Used until an admin sets defaults for the season
+export const SUN_THRESHOLDS: SunThresholds = {
+  GOOD: 75,
+  SOME: 50,
+};
+
+// Meteorological seasons, month by month from January
+const SEASON_BY_MONTH: Season[] = [
+  "winter",
+  "winter",
+  "spring",
+  "spring",
+  "spring",
+  "summer",
+  "summer",
+  "summer",
+  "autumn",
+  "autumn",
+  "autumn",
+  "winter",
+];
+
+export const getSeasonForDate = (date: Date): Season =>
+  SEASON_BY_MONTH[date.getMonth()];
+
+export const formatSeason = (season: Season) =>
+  season.charAt(0).toUpperCase() + season.slice(1);
+
+/**
+ * Keeps thresholds usable whatever they were set to: within 0-100, and SOME
+ * no higher than GOOD
+ */
+export const normalizeSunThresholds = ({
+  GOOD,
+  SOME,
+}: SunThresholds): SunThresholds => {
+  const clamp = (value: number) =>
+    Math.min(100, Math.max(0, Number.isFinite(value) ? value : 0));
+
+  const good = clamp(GOOD);
+
+  return { GOOD: good, SOME: Math.min(clamp(SOME), good) };
+};
+
+/**
+ * The sun quality a pub's sun score, or an area's pc_in_sun, falls into
+ */
+export const classifySunQuality = (
+  value: number,
+  thresholds: SunThresholds = SUN_THRESHOLDS
+): SunQuality => {
+  if (value >= thresholds.GOOD) return SunQuality.GOOD;
+  if (value >= thresholds.SOME) return SunQuality.SOME;
+  return SunQuality.NO;
+};
+
+// Best first
+const SUN_QUALITY_ORDER = [SunQuality.GOOD, SunQuality.SOME, SunQuality.NO];
+
+// The best of several, e.g. across the pubs in a map cluster
+export const getBestSunQuality = (qualities: SunQuality[]) =>
+  SUN_QUALITY_ORDER.find((quality) => qualities.includes(quality)) ||
+  SunQuality.NO;
@@ -0,0 +1,139 @@
+import { SunLeft } from "./sunLeft";
+
+export interface SunScoreConfig {
+  // How much each area type is worth, e.g. a garden is nicer to sit in than
+  // a pavement by the traffic
+  areaTypeWeights: Record<string, number>;
+
+  // For area types without their own weight
+  defaultAreaTypeWeight: number;
+
+  // Floor area (square metres) an area needs to count in full. Smaller areas
+  // are scaled down by the square root of their share of it.
+  referenceFloorArea: number;
+
+  // Minutes of sun left that count as the sun lasting
+  referenceSunMinutes: number;
+
+  // Share of the score that rides on the sun lasting, the rest is the sun
+  // right now
+  durationWeight: number;
+}
+
+export const DEFAULT_SUN_SCORE_CONFIG: SunScoreConfig = {
+  areaTypeWeights: {
+    "beer-garden": 1,
+    terrace: 1,
+    "terrace-waterfront": 1,
+    courtyard: 1,
+    "frontage-seating": 0.9,
+    pavement: 0.8,
+  },
+  defaultAreaTypeWeight: 1,
+  referenceFloorArea: 30,
+  referenceSunMinutes: 180,
+  durationWeight: 0.3,
+};
+
+export interface SunScoreArea {
+  type: string;
+  pc_in_sun: number;
+  floor_area: number | null;
+
+  // Left out while sun left is loading, the score is then the sun right now
+  minutesOfSunLeft?: number;
+}
+
+const clampScore = (score: number) => Math.min(100, Math.max(0, score));
+
+// Areas that haven't been sized yet aren't scaled down, so they can still
+// reach good sun until someone measures them
+const getSizeFactor = (
+  floorArea: number | null,
+  { referenceFloorArea }: SunScoreConfig
+) => (floorArea ? Math.min(1, Math.sqrt(floorArea / referenceFloorArea)) : 1);
+
+/**
+ * How good an area is to sit in the sun at, 0-100. pc_in_sun scaled by the
+ * area's size and type, and by how long the sun lasts when that's known.
+ *
+ * @param area The area with its sun for the selected timeslot
+ * @param config Weights to score with
+ */
+export const getAreaSunScore = (
+  area: SunScoreArea,
+  config: SunScoreConfig = DEFAULT_SUN_SCORE_CONFIG
+) => {
+  if (area.pc_in_sun <= 0) return 0;
+
+  const typeWeight =
+    config.areaTypeWeights[area.type] ?? config.defaultAreaTypeWeight;
+
+  const sunNow = area.pc_in_sun * getSizeFactor(area.floor_area, config);
+
+  if (area.minutesOfSunLeft === undefined) {
+    return clampScore(sunNow * typeWeight);
+  }
+
+  const duration = Math.min(
+    1,
+    area.minutesOfSunLeft / config.referenceSunMinutes
+  );
+
+  return clampScore(
+    sunNow *
+      typeWeight *
+      (1 - config.durationWeight + config.durationWeight * duration)
+  );
+};
+
+/**
+ * A pub scores as its best area, so a shady side yard doesn't drag down a
+ * sunny garden. 0 for a pub without areas.
+ */
+export const getPubSunScore = (
+  areas: SunScoreArea[],
+  config: SunScoreConfig = DEFAULT_SUN_SCORE_CONFIG
+) =>
+  areas.reduce(
+    (best, area) => Math.max(best, getAreaSunScore(area, config)),
+    0
+  );
+
+// Sun left for an area, or undefined while it's loading or couldn't be
+// loaded, so the area scores on the sun right now rather than on no sun left
+const getMinutesOfSunLeft = (
+  sunLeftByArea: Map<number, SunLeft>,
+  areaId: number,
+  isSunLeftUnknown: boolean
+) =>
+  isSunLeftUnknown
+    ? undefined
+    : sunLeftByArea.get(areaId)?.minutesOfSunLeft || 0;
+
+/**
+ * A pub's sun score with its areas' sun left filled in. Markers, the finder
+ * list and the rankings all score through this, so a pub scores the same
+ * wherever it's shown.
+ *
+ * @param areas The pub's areas with their sun for the selected timeslot
+ * @param sunLeftByArea Sun left from the selected timeslot, by area id
+ * @param isSunLeftUnknown Whether sun left is still loading or failed
+ */
+export const scorePubSun = (
+  areas: (Omit<SunScoreArea, "minutesOfSunLeft"> & { id: number })[],
+  sunLeftByArea: Map<number, SunLeft>,
+  isSunLeftUnknown: boolean,
+  config: SunScoreConfig = DEFAULT_SUN_SCORE_CONFIG
+) =>
+  getPubSunScore(
+    areas.map((area) => ({
+      ...area,
+      minutesOfSunLeft: getMinutesOfSunLeft(
+        sunLeftByArea,
+        area.id,
+        isSunLeftUnknown
+      ),
+    })),
+    config
+  );
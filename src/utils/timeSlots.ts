@@ -0,0 +1,86 @@
+// Timeslots split the part of the day we simulate into fixed steps. Slot
+// indexes only exist in the UI: sun_eval_reg stores the minutes after
+// midnight a slot starts at, so changing the config doesn't invalidate
+// evals that have already been simulated.
+
+export interface TimeSlotConfig {
+  // Minutes after midnight (local time) of the first and last slots
+  startMinutes: number;
+  endMinutes: number;
+
+  // Minutes between slots
+  resolutionMinutes: number;
+}
+
+export const TIME_SLOT_CONFIG: TimeSlotConfig = {
+  // Early enough for breakfast terraces, late enough for last orders
+  startMinutes: 9 * 60,
+  endMinutes: 22 * 60,
+  resolutionMinutes: 15,
+};
+
+export const TIME_SLOT_MINUTES = TIME_SLOT_CONFIG.resolutionMinutes;
+
+// The last slot of the day
+export const LAST_TIME_SLOT = Math.floor(
+  (TIME_SLOT_CONFIG.endMinutes - TIME_SLOT_CONFIG.startMinutes) /
+    TIME_SLOT_CONFIG.resolutionMinutes
+);
+
+//
+
+// Conversions
+
+// Minutes after midnight (local time) for a date
+export const getMinutesOfDay = (date: Date) =>
+  date.getHours() * 60 + date.getMinutes();
+
+// Minutes after midnight a slot starts at, as stored in sun_eval_reg.time
+export const getTimeSlotMinutes = (timeSlot: number) =>
+  TIME_SLOT_CONFIG.startMinutes + timeSlot * TIME_SLOT_CONFIG.resolutionMinutes;
+
+// The slot a time of day falls in, clamped to the first and last slots
+export const getTimeSlotForMinutes = (minutes: number) => {
+  const timeSlot = Math.floor(
+    (minutes - TIME_SLOT_CONFIG.startMinutes) /
+      TIME_SLOT_CONFIG.resolutionMinutes
+  );
+
+  return Math.min(Math.max(timeSlot, 0), LAST_TIME_SLOT);
+};
+
+export const getTimeSlotForDate = (date: Date) =>
+  getTimeSlotForMinutes(getMinutesOfDay(date));
+
+export const getCurrentTimeSlot = () => getTimeSlotForDate(new Date());
+
+// A time of day on the given day
+export const getDateForMinutes = (minutes: number, date = new Date()) => {
+  const minutesDate = new Date(date);
+
+  minutesDate.setHours(0, minutes, 0, 0);
+
+  return minutesDate;
+};
+
+// The local time a slot starts at on the given day
+export const getDateForTimeSlot = (timeSlot: number, date = new Date()) =>
+  getDateForMinutes(getTimeSlotMinutes(timeSlot), date);
+
+//
+
+// Labels
+
+// Format minutes after midnight as a 12-hour time (e.g. 570 = "9:30am")
+export const formatTimeOfDay = (minutes: number) => {
+  const hour = Math.floor(minutes / 60) % 24;
+  const minute = minutes % 60;
+
+  const displayHour = hour % 12 || 12;
+  const period = hour < 12 ? "am" : "pm";
+
+  return `${displayHour}:${minute.toString().padStart(2, "0")}${period}`;
+};
+
+export const formatTimeSlot = (timeSlot: number) =>
+  formatTimeOfDay(getTimeSlotMinutes(timeSlot));
@@ -0,0 +1,272 @@
+import {
+  NormalizedVisionMask,
+  StoredVisionMask,
+  VisionMask,
+  VisionMaskPoint,
+  VisionMaskPolygon,
+} from "../_shared/types";
+
+export const VISION_MASK_VERSION = 2;
+export const NORMALIZED_VISION_MASK_VERSION = 3;
+
+// Size of the overlay canvas masks are drawn on, in pixels
+export const VISION_MASK_CANVAS_WIDTH = 800;
+export const VISION_MASK_CANVAS_HEIGHT = 600;
+
+// The tiles canvas sits behind the overlay at 800x850, zoomed 1.1x about its
+// centre, so the camera's view spills past the overlay on every side
+const TILES_CANVAS_WIDTH = 800;
+const TILES_CANVAS_HEIGHT = 850;
+const TILES_CANVAS_SCALE = 1.1;
+
+// A ring needs three points before it encloses anything
+const MIN_RING_POINTS = 3;
+
+// Where the camera's view lies, in whatever pixels the mask is in
+export interface ViewRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// The camera's view on the default overlay. Version 1 and 2 masks were all
+// drawn against this.
+export const DEFAULT_VISION_MASK_VIEW: ViewRect = {
+  left: (TILES_CANVAS_WIDTH * (1 - TILES_CANVAS_SCALE)) / 2,
+  top: (TILES_CANVAS_HEIGHT * (1 - TILES_CANVAS_SCALE)) / 2,
+  width: TILES_CANVAS_WIDTH * TILES_CANVAS_SCALE,
+  height: TILES_CANVAS_HEIGHT * TILES_CANVAS_SCALE,
+};
+
+export const createVisionMask = (
+  polygons: VisionMaskPolygon[] = []
+): VisionMask => ({
+  version: VISION_MASK_VERSION,
+  polygons,
+});
+
+//
+
+// View coordinates
+
+/**
+ * Pixels to view coordinates: measured from the centre of the view in half
+ * view heights, y down. The camera's field of view is vertical, so a point
+ * keeps its place in the scene whatever the canvas size or aspect.
+ *
+ * @param view Where the camera's view lies, in the same pixels as the point
+ */
+export const toViewPoint = (
+  { x, y }: VisionMaskPoint,
+  view: ViewRect
+): VisionMaskPoint => {
+  const halfHeight = view.height / 2;
+
+  return {
+    x: (x - view.left - view.width / 2) / halfHeight,
+    y: (y - view.top - halfHeight) / halfHeight,
+  };
+};
+
+export const fromViewPoint = (
+  { x, y }: VisionMaskPoint,
+  view: ViewRect
+): VisionMaskPoint => {
+  const halfHeight = view.height / 2;
+
+  return {
+    x: view.left + view.width / 2 + x * halfHeight,
+    y: view.top + halfHeight + y * halfHeight,
+  };
+};
+
+// The camera's view in a canvas's own pixels, given both client rects. Falls
+// back to the default layout when the scene isn't there to measure.
+export const getCanvasView = (
+  canvas: HTMLCanvasElement,
+  viewClientRect: ViewRect | null
+): ViewRect => {
+  if (!viewClientRect) return DEFAULT_VISION_MASK_VIEW;
+
+  const rect = canvas.getBoundingClientRect();
+  const scaleX = canvas.width / rect.width;
+  const scaleY = canvas.height / rect.height;
+
+  return {
+    left: (viewClientRect.left - rect.left) * scaleX,
+    top: (viewClientRect.top - rect.top) * scaleY,
+    width: viewClientRect.width * scaleX,
+    height: viewClientRect.height * scaleY,
+  };
+};
+
+// A pixel mask ready to store
+export const normalizeVisionMask = (
+  mask: VisionMask,
+  view: ViewRect
+): NormalizedVisionMask => ({
+  version: NORMALIZED_VISION_MASK_VERSION,
+  polygons: mapVisionMask(mask, (point) => toViewPoint(point, view)).polygons,
+});
+
+// A stored mask in the pixels of a canvas showing `view`
+export const denormalizeVisionMask = (
+  mask: NormalizedVisionMask,
+  view: ViewRect
+): VisionMask =>
+  mapVisionMask(createVisionMask(mask.polygons), (point) =>
+    fromViewPoint(point, view)
+  );
+
+/**
+ * Reads a mask as stored on pub_area.vision_mask_points, whichever version
+ * it was saved in, into view coordinates
+ *
+ * @param stored The raw column value
+ */
+export const parseVisionMask = (
+  stored: StoredVisionMask | null | undefined
+): NormalizedVisionMask => {
+  const normalize = (polygons: VisionMaskPolygon[]) =>
+    normalizeVisionMask(createVisionMask(polygons), DEFAULT_VISION_MASK_VIEW);
+
+  if (!stored) return normalize([]);
+
+  // Version 1: a single ring of overlay pixels
+  if (Array.isArray(stored)) {
+    return normalize(stored.length ? [{ outer: stored, holes: [] }] : []);
+  }
+
+  const polygons = (stored.polygons || []).map(
+    ({ outer = [], holes = [] }) => ({ outer, holes })
+  );
+
+  // Version 2: overlay pixels
+  if (stored.version !== NORMALIZED_VISION_MASK_VERSION) {
+    return normalize(polygons);
+  }
+
+  return { version: NORMALIZED_VISION_MASK_VERSION, polygons };
+};
+
+// A stored mask in pixels, by default those of the standard overlay
+export const getVisionMaskPixels = (
+  stored: StoredVisionMask | null | undefined,
+  view: ViewRect = DEFAULT_VISION_MASK_VIEW
+) => denormalizeVisionMask(parseVisionMask(stored), view);
+
+// Drops rings too small to enclose anything, and holes left without a polygon
+export const cleanVisionMask = (mask: VisionMask): VisionMask =>
+  createVisionMask(
+    mask.polygons
+      .filter(({ outer }) => outer.length >= MIN_RING_POINTS)
+      .map(({ outer, holes }) => ({
+        outer,
+        holes: holes.filter((hole) => hole.length >= MIN_RING_POINTS),
+      }))
+  );
+
+export const hasVisionMask = (stored: StoredVisionMask | null | undefined) =>
+  parseVisionMask(stored).polygons.some(
+    ({ outer }) => outer.length >= MIN_RING_POINTS
+  );
+
+export const getVisionMaskPointCount = (
+  stored: StoredVisionMask | null | undefined
+) =>
+  parseVisionMask(stored).polygons.reduce(
+    (count, { outer, holes }) =>
+      count + outer.length + holes.reduce((sum, hole) => sum + hole.length, 0),
+    0
+  );
+
+// Applies `transform` to every point, e.g. to move a mask into client pixels
+export const mapVisionMask = (
+  mask: VisionMask,
+  transform: (point: VisionMaskPoint) => VisionMaskPoint
+): VisionMask =>
+  createVisionMask(
+    mask.polygons.map(({ outer, holes }) => ({
+      outer: outer.map(transform),
+      holes: holes.map((hole) => hole.map(transform)),
+    }))
+  );
+
+// Even-odd ray cast against a single ring
+export const isPointInRing = (
+  x: number,
+  y: number,
+  ring: VisionMaskPoint[]
+) => {
+  let isInside = false;
+
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const { x: xi, y: yi } = ring[i];
+    const { x: xj, y: yj } = ring[j];
+
+    const crosses =
+      yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi;
+
+    if (crosses) isInside = !isInside;
+  }
+
+  return isInside;
+};
+
+// Inside one of the polygons and outside all of that polygon's holes
+export const isPointInVisionMask = (x: number, y: number, mask: VisionMask) =>
+  mask.polygons.some(
+    ({ outer, holes }) =>
+      outer.length >= MIN_RING_POINTS &&
+      isPointInRing(x, y, outer) &&
+      !holes.some(
+        (hole) => hole.length >= MIN_RING_POINTS && isPointInRing(x, y, hole)
+      )
+  );
+
+// Box around every outer ring, or null for an empty mask
+export const getVisionMaskBounds = (mask: VisionMask) => {
+  const points = mask.polygons.flatMap(({ outer }) => outer);
+
+  if (!points.length) return null;
+
+  const xs = points.map(({ x }) => x);
+  const ys = points.map(({ y }) => y);
+
+  return {
+    minX: Math.min(...xs),
+    maxX: Math.max(...xs),
+    minY: Math.min(...ys),
+    maxY: Math.max(...ys),
+  };
+};
+
+// Adds a closed ring to the current canvas path
+export const traceVisionMaskRing = (
+  ctx: CanvasRenderingContext2D,
+  ring: VisionMaskPoint[]
+) => {
+  if (ring.length < 2) return;
+
+  ctx.moveTo(ring[0].x, ring[0].y);
+  for (let i = 1; i < ring.length; i++) {
+    ctx.lineTo(ring[i].x, ring[i].y);
+  }
+  ctx.closePath();
+};
+
+/**
+ * Fills each polygon with the current fill style, leaving its holes open.
+ * Polygons are filled one at a time so overlapping ones don't cancel out.
+ */
+export const fillVisionMask = (
+  ctx: CanvasRenderingContext2D,
+  mask: VisionMask
+) => {
+  mask.polygons.forEach(({ outer, holes }) => {
+    ctx.beginPath();
+    [outer, ...holes].forEach((ring) => traceVisionMaskRing(ctx, ring));
+    ctx.fill("evenodd");
+  });
+};
@@ -0,0 +1,314 @@
+import {
+  StoredVisionMask,
+  VisionMask,
+  VisionMaskPoint,
+} from "../_shared/types";
+import {
+  cleanVisionMask,
+  getVisionMaskBounds,
+  getVisionMaskPixels,
+  hasVisionMask,
+  isPointInVisionMask,
+  VISION_MASK_CANVAS_HEIGHT,
+  VISION_MASK_CANVAS_WIDTH,
+} from "./visionMask";
+
+// Smallest mask worth measuring, in square canvas pixels. Anything smaller is
+// a few stray clicks rather than an area.
+export const MIN_VISION_MASK_AREA = 400;
+
+// How far (canvas pixels) the middle of the mask can sit from where the
+// area's lat/lng lands on screen before it looks like the wrong spot
+export const MAX_CENTROID_DISTANCE = 150;
+
+// Share of the masked pixels that should be ground rather than sky or walls
+export const MIN_GROUND_SHARE = 0.5;
+
+// Slack on the canvas edges for rounding when a stored mask is converted back
+// to pixels
+const CANVAS_EDGE_TOLERANCE = 0.01;
+
+export type VisionMaskIssueCode =
+  | "self-intersecting"
+  | "outside-canvas"
+  | "too-small"
+  | "far-from-area"
+  | "not-ground";
+
+export interface VisionMaskIssue {
+  code: VisionMaskIssueCode;
+
+  // Errors stop the mask being saved, warnings need confirming
+  severity: "error" | "warning";
+  message: string;
+}
+
+// What the masked pixels land on in the 3D scene
+export interface VisionMaskSurfaces {
+  ground: number;
+  facade: number;
+  sky: number;
+}
+
+interface VisionMaskCheckOptions {
+  canvasWidth?: number;
+  canvasHeight?: number;
+
+  // Where the area's lat/lng lands on the canvas, if it could be projected
+  areaPoint?: VisionMaskPoint | null;
+  surfaces?: VisionMaskSurfaces | null;
+}
+
+//
+
+// Geometry
+
+// Shoelace formula, always positive
+export const getRingArea = (ring: VisionMaskPoint[]) =>
+  Math.abs(
+    ring.reduce((sum, { x, y }, index) => {
+      const next = ring[(index + 1) % ring.length];
+      return sum + x * next.y - next.x * y;
+    }, 0) / 2
+  );
+
+// Area that will be measured: every polygon less its holes
+export const getVisionMaskArea = (mask: VisionMask) =>
+  mask.polygons.reduce(
+    (total, { outer, holes }) =>
+      total +
+      getRingArea(outer) -
+      holes.reduce((sum, hole) => sum + getRingArea(hole), 0),
+    0
+  );
+
+interface RingMoments {
+  doubleArea: number;
+  x: number;
+  y: number;
+}
+
+// Twice the signed area of a ring, plus the sums its centroid comes from
+const getRingMoments = (ring: VisionMaskPoint[]) =>
+  ring.reduce<RingMoments>(
+    (moments, { x, y }, index) => {
+      const next = ring[(index + 1) % ring.length];
+      const cross = x * next.y - next.x * y;
+
+      return {
+        doubleArea: moments.doubleArea + cross,
+        x: moments.x + (x + next.x) * cross,
+        y: moments.y + (y + next.y) * cross,
+      };
+    },
+    { doubleArea: 0, x: 0, y: 0 }
+  );
+
+// Area-weighted middle of the polygons, ignoring holes
+export const getVisionMaskCentroid = (
+  mask: VisionMask
+): VisionMaskPoint | null => {
+  let totalArea = 0;
+  let x = 0;
+  let y = 0;
+
+  mask.polygons.forEach(({ outer }) => {
+    const moments = getRingMoments(outer);
+    if (!moments.doubleArea) return;
+
+    // Each ring's centroid is (x, y) / (3 * doubleArea), weighted by its area
+    const area = Math.abs(moments.doubleArea) / 2;
+    totalArea += area;
+    x += (moments.x / (3 * moments.doubleArea)) * area;
+    y += (moments.y / (3 * moments.doubleArea)) * area;
+  });
+
+  return totalArea ? { x: x / totalArea, y: y / totalArea } : null;
+};
+
+const getOrientation = (
+  a: VisionMaskPoint,
+  b: VisionMaskPoint,
+  c: VisionMaskPoint
+) => Math.sign((b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x));
+
+// Whether two segments cross. Touching at an end doesn't count, so
+// neighbouring edges of a ring never intersect.
+const doSegmentsCross = (
+  a1: VisionMaskPoint,
+  a2: VisionMaskPoint,
+  b1: VisionMaskPoint,
+  b2: VisionMaskPoint
+) =>
+  getOrientation(a1, a2, b1) * getOrientation(a1, a2, b2) < 0 &&
+  getOrientation(b1, b2, a1) * getOrientation(b1, b2, a2) < 0;
+
+const getRingEdges = (ring: VisionMaskPoint[]) =>
+  ring.map((start, index) => [start, ring[(index + 1) % ring.length]]);
+
+export const isRingSelfIntersecting = (ring: VisionMaskPoint[]) => {
+  const edges = getRingEdges(ring);
+
+  return edges.some(([a1, a2], i) =>
+    edges.slice(i + 2).some(
+      ([b1, b2], offset) =>
+        // The first and last edges share a vertex
+        !(i === 0 && i + 2 + offset === edges.length - 1) &&
+        doSegmentsCross(a1, a2, b1, b2)
+    )
+  );
+};
+
+const doRingsCross = (a: VisionMaskPoint[], b: VisionMaskPoint[]) =>
+  getRingEdges(a).some(([a1, a2]) =>
+    getRingEdges(b).some(([b1, b2]) => doSegmentsCross(a1, a2, b1, b2))
+  );
+
+// Any ring crossing itself, or a hole crossing its polygon or another hole
+const isVisionMaskSelfIntersecting = (mask: VisionMask) =>
+  mask.polygons.some(({ outer, holes }) => {
+    const rings = [outer, ...holes];
+
+    return rings.some(
+      (ring, i) =>
+        isRingSelfIntersecting(ring) ||
+        rings.slice(i + 1).some((other) => doRingsCross(ring, other))
+    );
+  });
+
+/**
+ * Evenly spread points inside the mask, e.g. to check what it covers in the
+ * scene
+ *
+ * @param mask The mask to sample
+ * @param maxSamples Roughly how many points to return at most
+ */
+export const getVisionMaskSamplePoints = (
+  mask: VisionMask,
+  maxSamples = 400
+) => {
+  const bounds = getVisionMaskBounds(mask);
+  if (!bounds) return [];
+
+  const width = bounds.maxX - bounds.minX;
+  const height = bounds.maxY - bounds.minY;
+  const step = Math.max(1, Math.sqrt((width * height) / maxSamples));
+
+  const points: VisionMaskPoint[] = [];
+
+  for (let y = bounds.minY + step / 2; y < bounds.maxY; y += step) {
+    for (let x = bounds.minX + step / 2; x < bounds.maxX; x += step) {
+      if (isPointInVisionMask(x, y, mask)) points.push({ x, y });
+    }
+  }
+
+  return points;
+};
+
+//
+
+// Checks
+
+/**
+ * Everything wrong with a mask before it's saved. The geometry checks always
+ * run, the placement ones only when the scene could be read.
+ *
+ * @param mask A cleaned mask (see cleanVisionMask)
+ */
+export const checkVisionMask = (
+  mask: VisionMask,
+  {
+    canvasWidth = VISION_MASK_CANVAS_WIDTH,
+    canvasHeight = VISION_MASK_CANVAS_HEIGHT,
+    areaPoint,
+    surfaces,
+  }: VisionMaskCheckOptions = {}
+): VisionMaskIssue[] => {
+  const issues: VisionMaskIssue[] = [];
+
+  if (isVisionMaskSelfIntersecting(mask)) {
+    issues.push({
+      code: "self-intersecting",
+      severity: "error",
+      message: "An edge crosses another, so the mask's inside is ambiguous",
+    });
+  }
+
+  const points = mask.polygons.flatMap(({ outer, holes }) => [
+    ...outer,
+    ...holes.flat(),
+  ]);
+
+  const isOutsideCanvas = points.some(
+    ({ x, y }) =>
+      x < -CANVAS_EDGE_TOLERANCE ||
+      y < -CANVAS_EDGE_TOLERANCE ||
+      x > canvasWidth + CANVAS_EDGE_TOLERANCE ||
+      y > canvasHeight + CANVAS_EDGE_TOLERANCE
+  );
+
+  if (isOutsideCanvas) {
+    issues.push({
+      code: "outside-canvas",
+      severity: "error",
+      message: "Some points are off the edge of the view",
+    });
+  }
+
+  const area = getVisionMaskArea(mask);
+
+  if (area < MIN_VISION_MASK_AREA) {
+    issues.push({
+      code: "too-small",
+      severity: "error",
+      message: `The mask covers ${Math.round(area)}px², it needs at least ${MIN_VISION_MASK_AREA}px²`,
+    });
+  }
+
+  const centroid = getVisionMaskCentroid(mask);
+
+  if (centroid && areaPoint) {
+    const distance = Math.hypot(
+      centroid.x - areaPoint.x,
+      centroid.y - areaPoint.y
+    );
+
+    if (distance > MAX_CENTROID_DISTANCE) {
+      issues.push({
+        code: "far-from-area",
+        severity: "warning",
+        message: `The mask is ${Math.round(distance)}px from where the area's location appears, is it the right spot?`,
+      });
+    }
+  }
+
+  const sampleCount = surfaces
+    ? surfaces.ground + surfaces.facade + surfaces.sky
+    : 0;
+
+  if (surfaces && sampleCount) {
+    const groundShare = surfaces.ground / sampleCount;
+
+    if (groundShare < MIN_GROUND_SHARE) {
+      issues.push({
+        code: "not-ground",
+        severity: "warning",
+        message: `Only ${Math.round(groundShare * 100)}% of the mask is ground (${Math.round((surfaces.sky / sampleCount) * 100)}% sky, ${Math.round((surfaces.facade / sampleCount) * 100)}% walls)`,
+      });
+    }
+  }
+
+  return issues;
+};
+
+export const hasVisionMaskErrors = (issues: VisionMaskIssue[]) =>
+  issues.some(({ severity }) => severity === "error");
+
+// A saved mask that's ready to simulate: present and free of errors
+export const isVisionMaskValid = (
+  stored: StoredVisionMask | null | undefined
+) =>
+  hasVisionMask(stored) &&
+  !hasVisionMaskErrors(
+    checkVisionMask(cleanVisionMask(getVisionMaskPixels(stored)))
+  );
@@ -0,0 +1,100 @@
+import { PolygonCoordinate } from "../_shared/hooks/pubAreas/usePubAreas";
+import { getDistance } from "./geodesic";
+import { SunLeft } from "./sunLeft";
+
+export interface WalkingRoute {
+  // Metres
+  distance: number;
+  walkingMinutes: number;
+}
+
+/**
+ * Works out walks from one place to many. The straight line one below is the
+ * default, a directions API can stand in for it by returning the same shape.
+ */
+export interface RoutingProvider {
+  // Goes in query keys, so routes from different providers never mix
+  name: string;
+
+  // One route per destination, in the same order
+  getWalkingRoutes: (
+    origin: PolygonCoordinate,
+    destinations: PolygonCoordinate[]
+  ) => Promise<WalkingRoute[]>;
+}
+
+export interface StraightLineRoutingConfig {
+  // Metres per minute, 80 is about 3mph
+  walkingSpeed: number;
+
+  // How much longer a walk is than the straight line, as streets rarely go
+  // directly there
+  detourFactor: number;
+}
+
+export const DEFAULT_STRAIGHT_LINE_ROUTING_CONFIG: StraightLineRoutingConfig = {
+  walkingSpeed: 80,
+  detourFactor: 1.3,
+};
+
+//
+
+// Routing
+
+/**
+ * A walk estimated from the straight line distance. The distance stays as
+ * the crow flies, only the time allows for the detour.
+ */
+export const getStraightLineRoute = (
+  origin: PolygonCoordinate,
+  destination: PolygonCoordinate,
+  config = DEFAULT_STRAIGHT_LINE_ROUTING_CONFIG
+): WalkingRoute => {
+  const distance = getDistance(origin, destination);
+
+  return {
+    distance,
+    walkingMinutes: Math.ceil(
+      (distance * config.detourFactor) / config.walkingSpeed
+    ),
+  };
+};
+
+export const createStraightLineRoutingProvider = (
+  config = DEFAULT_STRAIGHT_LINE_ROUTING_CONFIG
+): RoutingProvider => ({
+  name: `straight-line:${config.walkingSpeed}:${config.detourFactor}`,
+  getWalkingRoutes: async (origin, destinations) =>
+    destinations.map((destination) =>
+      getStraightLineRoute(origin, destination, config)
+    ),
+});
+
+export const DEFAULT_ROUTING_PROVIDER = createStraightLineRoutingProvider();
+
+//
+
+// Reachability
+
+/**
+ * Whether you'd get there before the sun's gone for the day, setting off at
+ * `currentTime` (minutes after midnight). Arriving between two sunny windows
+ * still counts, as there's sun to come.
+ */
+export const canReachBeforeSunGoes = (
+  sunLeft: SunLeft | null | undefined,
+  walkingMinutes: number,
+  currentTime: number
+) => !!sunLeft?.endOfSun && currentTime + walkingMinutes < sunLeft.endOfSun;
+
+//
+
+// Formatting
+
+export const formatDistance = (metres: number) =>
+  metres < 1000 ? `${Math.round(metres)}m` : `${(metres / 1000).toFixed(1)}km`;
+
+export const formatWalkingTime = (minutes: number) =>
+  minutes < 60
+    ? `${minutes} min walk`
+    : `${Math.floor(minutes / 60)}h ${minutes % 60}m walk`;
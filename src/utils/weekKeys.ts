@@ -0,0 +1,64 @@
+// Week keys identify the week a sun eval was simulated for, stored as a
+// YYYYWW integer in sun_eval_reg.julian_week and pub.last_processed_julian_week.
+//
+// They follow ISO-8601: weeks start on Monday, week 1 is the week containing
+// the year's first Thursday, and the YYYY part is the ISO week-year, which can
+// differ from the calendar year for a few days either side of New Year.
+
+const ONE_DAY = 24 * 60 * 60 * 1000;
+
+// Calendar day as a UTC timestamp, so daylight saving never shifts the maths
+const getUTCDay = (date: Date) =>
+  Date.UTC(date.getFullYear(), date.getMonth(), date.getDate());
+
+// Monday = 0 ... Sunday = 6
+const getISODayOfWeek = (utcDay: number) =>
+  (new Date(utcDay).getUTCDay() + 6) % 7;
+
+// The week key for the local calendar day a date falls on
+export const getWeekKeyForDate = (date: Date) => {
+  const utcDay = getUTCDay(date);
+
+  // The Thursday of the same week decides which week-year it belongs to
+  const thursday = new Date(utcDay + (3 - getISODayOfWeek(utcDay)) * ONE_DAY);
+  const weekYear = thursday.getUTCFullYear();
+
+  const weekNumber =
+    Math.floor((thursday.getTime() - Date.UTC(weekYear, 0, 1)) / ONE_DAY / 7) +
+    1;
+
+  return weekYear * 100 + weekNumber;
+};
+
+export const getCurrentWeekKey = () => getWeekKeyForDate(new Date());
+
+// Local midnight on the Monday a week starts
+export const getStartOfWeekKey = (weekKey: number) => {
+  const weekYear = Math.floor(weekKey / 100);
+  const weekNumber = weekKey % 100;
+
+  // 4th January is always in week 1
+  const fourthOfJanuary = Date.UTC(weekYear, 0, 4);
+  const mondayOfWeekOne =
+    fourthOfJanuary - getISODayOfWeek(fourthOfJanuary) * ONE_DAY;
+
+  const monday = new Date(mondayOfWeekOne + (weekNumber - 1) * 7 * ONE_DAY);
+
+  return new Date(
+    monday.getUTCFullYear(),
+    monday.getUTCMonth(),
+    monday.getUTCDate()
+  );
+};
+
+// Number of weeks from one week key to another (negative if earlier)
+export const getWeeksBetweenWeekKeys = (
+  fromWeekKey: number,
+  toWeekKey: number
+) =>
+  Math.round(
+    (getUTCDay(getStartOfWeekKey(toWeekKey)) -
+      getUTCDay(getStartOfWeekKey(fromWeekKey))) /
+      ONE_DAY /
+      7
+  );
@@ -0,0 +1,40 @@
+-- This SQL script moves the julian_week keys over to ISO-8601 week-years
+-- Run this in your Supabase SQL editor, once, before deploying the frontend
+-- that reads ISO week keys
+
+-- Old keys counted Sunday-to-Saturday weeks from 1st January, with week 1
+-- starting on the Sunday on or before it. Map each old week to the ISO week
+-- its Monday falls in, which covers six of its seven days.
+CREATE OR REPLACE FUNCTION legacy_julian_week_to_iso(legacy_week integer)
+RETURNS integer AS $$
+  SELECT to_char(
+    make_date(legacy_week / 100, 1, 1)
+      - extract(dow FROM make_date(legacy_week / 100, 1, 1))::integer
+      + (legacy_week % 100 - 1) * 7
+      + 1,
+    'IYYYIW'
+  )::integer;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Sun evals know the day they were simulated on, so use that where we can
+UPDATE sun_eval_reg
+  SET julian_week = CASE
+    WHEN date IS NOT NULL THEN to_char(date::date, 'IYYYIW')::integer
+    ELSE legacy_julian_week_to_iso(julian_week)
+  END;
+
+-- The two partial weeks either side of New Year can land on the same ISO
+-- week, so keep only the latest eval for each area, week and time
+DELETE FROM sun_eval_reg older
+  USING sun_eval_reg newer
+  WHERE older.area_id = newer.area_id
+    AND older.julian_week = newer.julian_week
+    AND older.time = newer.time
+    AND older.id < newer.id;
+
+UPDATE pub
+  SET last_processed_julian_week =
+    legacy_julian_week_to_iso(last_processed_julian_week)
+  WHERE last_processed_julian_week IS NOT NULL;
+
+DROP FUNCTION legacy_julian_week_to_iso(integer);
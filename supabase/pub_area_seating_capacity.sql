@@ -0,0 +1,8 @@
+-- This SQL script adds a manual seating capacity to pub_area. When it's null
+-- the app estimates seats from floor_area and the area type instead (see
+-- src/utils/seatingCapacity.ts).
+-- Run this in your Supabase SQL editor
+
+ALTER TABLE pub_area
+  ADD COLUMN IF NOT EXISTS seating_capacity integer
+  CHECK (seating_capacity IS NULL OR seating_capacity >= 0);
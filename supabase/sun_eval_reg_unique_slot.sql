@@ -0,0 +1,29 @@
+-- This SQL script makes (area_id, julian_week, time) unique in sun_eval_reg
+-- so the simulator can upsert sun evals instead of deleting and re-inserting
+-- Run this in your Supabase SQL editor, once, before deploying the frontend
+-- that upserts sun evals
+
+-- Keep only the latest eval for each area, week and time
+DELETE FROM sun_eval_reg older
+  USING sun_eval_reg newer
+  WHERE older.area_id = newer.area_id
+    AND older.julian_week = newer.julian_week
+    AND older.time = newer.time
+    AND older.id < newer.id;
+
+ALTER TABLE sun_eval_reg
+  ADD CONSTRAINT sun_eval_reg_area_week_time_key
+  UNIQUE (area_id, julian_week, time);
+
+-- Ids used to be made on the client, so let the database hand them out now,
+-- carrying on from the highest id already in the table
+CREATE SEQUENCE IF NOT EXISTS sun_eval_reg_id_seq OWNED BY sun_eval_reg.id;
+
+SELECT setval(
+  'sun_eval_reg_id_seq',
+  COALESCE((SELECT max(id) FROM sun_eval_reg), 0) + 1,
+  false
+);
+
+ALTER TABLE sun_eval_reg
+  ALTER COLUMN id SET DEFAULT nextval('sun_eval_reg_id_seq');
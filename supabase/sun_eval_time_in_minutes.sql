@@ -0,0 +1,9 @@
+-- This SQL script moves sun_eval_reg.time from a timeslot index to the
+-- minutes after midnight (local time) the timeslot starts at
+-- Run this in your Supabase SQL editor
+
+-- Old indexes counted 15 minute slots from 12:00pm (0 = 12:00pm, 36 = 9:00pm).
+-- Anything above 36 has already been migrated, so this is safe to re-run.
+UPDATE sun_eval_reg
+  SET time = 720 + time * 15
+  WHERE time <= 36;
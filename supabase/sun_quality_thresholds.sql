@@ -0,0 +1,37 @@
+-- This SQL script adds the default sun quality thresholds for each season,
+-- set from the admin page. Pubs whose sun score (src/utils/sunScore.ts)
+-- reaches `good_from` show as good sun, from `some_from` as some sun. Users
+-- can still set their own in the filters panel.
+-- Run this in your Supabase SQL editor
+
+CREATE TABLE IF NOT EXISTS sun_quality_threshold (
+  season text PRIMARY KEY
+    CHECK (season IN ('spring', 'summer', 'autumn', 'winter')),
+  good_from numeric NOT NULL CHECK (good_from BETWEEN 0 AND 100),
+  some_from numeric NOT NULL CHECK (some_from BETWEEN 0 AND 100),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (some_from <= good_from)
+);
+
+-- Start every season on the thresholds the app used to hard-code
+INSERT INTO sun_quality_threshold (season, good_from, some_from)
+VALUES
+  ('spring', 75, 50),
+  ('summer', 75, 50),
+  ('autumn', 75, 50),
+  ('winter', 75, 50)
+ON CONFLICT (season) DO NOTHING;
+
+ALTER TABLE sun_quality_threshold ENABLE ROW LEVEL SECURITY;
+
+-- Allow anyone to read (select) data
+CREATE POLICY "Allow public read access" ON sun_quality_threshold
+  FOR SELECT USING (true);
+
+-- Only allow admins to insert new data
+CREATE POLICY "Allow admin insert" ON sun_quality_threshold
+  FOR INSERT WITH CHECK (auth.is_admin());
+
+-- Only allow admins to update data
+CREATE POLICY "Allow admin update" ON sun_quality_threshold
+  FOR UPDATE USING (auth.is_admin());
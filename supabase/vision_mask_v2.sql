@@ -0,0 +1,21 @@
+-- This SQL script moves pub_area.vision_mask_points from a bare ring of
+-- {x, y} points (version 1) to the versioned multi-polygon format:
+--   { "version": 2, "polygons": [{ "outer": [...], "holes": [[...], ...] }] }
+-- Run this in your Supabase SQL editor
+
+-- The app reads both versions, so this can run at any time. Only arrays are
+-- touched, so it's safe to re-run.
+UPDATE pub_area
+  SET vision_mask_points = jsonb_build_object(
+    'version', 2,
+    'polygons', CASE
+      WHEN jsonb_array_length(vision_mask_points::jsonb) = 0 THEN '[]'::jsonb
+      ELSE jsonb_build_array(
+        jsonb_build_object(
+          'outer', vision_mask_points::jsonb,
+          'holes', '[]'::jsonb
+        )
+      )
+    END
+  )
+  WHERE jsonb_typeof(vision_mask_points::jsonb) = 'array';
@@ -0,0 +1,58 @@
+-- This SQL script moves pub_area.vision_mask_points from pixels of the 800x600
+-- overlay (version 2) to view coordinates (version 3): measured from the
+-- centre of the camera's view, in half view heights, y down. Masks then fit
+-- any canvas size, e.g. a higher resolution simulation.
+-- Run this in your Supabase SQL editor, after vision_mask_v2.sql
+
+-- The 800x850 tiles canvas is zoomed 1.1x about its centre, so the view is
+-- 880x935 and centred on overlay pixel (400, 425). Half its height is 467.5.
+-- Matches DEFAULT_VISION_MASK_VIEW in src/utils/visionMask.ts.
+CREATE OR REPLACE FUNCTION normalize_vision_mask_ring(ring jsonb)
+RETURNS jsonb
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(
+    jsonb_agg(
+      jsonb_build_object(
+        'x', ((point->>'x')::numeric - 400) / 467.5,
+        'y', ((point->>'y')::numeric - 425) / 467.5
+      )
+      ORDER BY position
+    ),
+    '[]'::jsonb
+  )
+  FROM jsonb_array_elements(ring) WITH ORDINALITY AS ring_points(point, position);
+$$;
+
+-- The app reads every version, so this can run at any time. Only version 2
+-- masks are touched, so it's safe to re-run.
+UPDATE pub_area
+  SET vision_mask_points = jsonb_build_object(
+    'version', 3,
+    'polygons', (
+      SELECT COALESCE(
+        jsonb_agg(
+          jsonb_build_object(
+            'outer', normalize_vision_mask_ring(polygon->'outer'),
+            'holes', (
+              SELECT COALESCE(
+                jsonb_agg(normalize_vision_mask_ring(hole) ORDER BY hole_position),
+                '[]'::jsonb
+              )
+              FROM jsonb_array_elements(COALESCE(polygon->'holes', '[]'::jsonb))
+                WITH ORDINALITY AS polygon_holes(hole, hole_position)
+            )
+          )
+          ORDER BY polygon_position
+        ),
+        '[]'::jsonb
+      )
+      FROM jsonb_array_elements(vision_mask_points::jsonb->'polygons')
+        WITH ORDINALITY AS mask_polygons(polygon, polygon_position)
+    )
+  )
+  WHERE jsonb_typeof(vision_mask_points::jsonb) = 'object'
+    AND (vision_mask_points::jsonb->>'version')::int = 2;
+
+DROP FUNCTION normalize_vision_mask_ring(jsonb);